@@ -4,25 +4,44 @@ import { Sidebar } from './components/Layout/Sidebar';
 import { Dashboard } from './components/Dashboard/Dashboard';
 import { InventoryList } from './components/Inventory/InventoryList';
 import { SalesModule } from './components/Sales/SalesModule';
+import { SalesHistory } from './components/Sales/SalesHistory';
+import { ReturnsPage } from './components/Sales/ReturnsPage';
+import { CustomersPage } from './components/Customers/CustomersPage';
+import { SuppliersPage } from './components/Suppliers/SuppliersPage';
+import { PurchaseOrdersPage } from './components/Purchases/PurchaseOrdersPage';
+import { GoodsReceiptPage } from './components/Purchases/GoodsReceiptPage';
 import { LowStockPage } from './components/Inventory/LowStockPage';
 import { NotificationToast } from './components/Notifications/NotificationToast';
 import { initializeDatabase } from './database';
+import { SettingsService } from './services/settings';
+import { BackupSchedulerService } from './services/backupScheduler';
+import { PermissionService } from './services/permissions';
 import { usePharmacyStore } from './store';
 import { RestockManagementPage } from './components/Inventory/RestockManagementPage';
 import { RestockSuggestionPage } from './components/Inventory/RestockSuggestionPage';
+import { ScheduleH1Register } from './components/ScheduleH1/ScheduleH1Register';
+import { ExpiryAlertsPage } from './components/Expiry/ExpiryAlertsPage';
+import { ReportsPage } from './components/Reports/ReportsPage';
+import { SettingsPage } from './components/Settings/SettingsPage';
+import { AuditLogPage } from './components/Audit/AuditLogPage';
+import { AuditIntegrityPage } from './components/Audit/AuditIntegrityPage';
+import { UsersPage } from './components/Users/UsersPage';
+import { LoginScreen } from './components/Auth/LoginScreen';
 
 function App() {
   const [activeTab, setActiveTab] = useState('dashboard');
   const [loading, setLoading] = useState(true);
-  const { addNotification } = usePharmacyStore();
+  const { addNotification, setSettings, currentUser } = usePharmacyStore();
 
   useEffect(() => {
     initializeApp();
+    return BackupSchedulerService.start();
   }, []);
 
   const initializeApp = async () => {
     try {
       await initializeDatabase();
+      setSettings(await SettingsService.getSettings());
       addNotification('success', 'Pharmacy system initialized successfully');
     } catch (error) {
       console.error('Error initializing app:', error);
@@ -42,18 +61,36 @@ function App() {
         return <RestockManagementPage onBack={() => setActiveTab('inventory')} />;
       case 'restock-suggestions':
         return <RestockSuggestionPage onBack={() => setActiveTab('inventory')} />;
+      case 'purchase-orders':
+        return <PurchaseOrdersPage />;
+      case 'goods-received':
+        return <GoodsReceiptPage />;
       case 'sales':
         return <SalesModule />;
+      case 'sales-history':
+        return <SalesHistory />;
+      case 'returns':
+        return <ReturnsPage />;
+      case 'customers':
+        return <CustomersPage />;
+      case 'suppliers':
+        return <SuppliersPage />;
       case 'expiry':
-        return <div className="p-6"><h1 className="text-2xl font-bold">Expiry Alerts</h1><p>Coming soon...</p></div>;
+        return <ExpiryAlertsPage />;
       case 'low-stock':
         return <LowStockPage />;
       case 'schedule-h1':
-        return <div className="p-6"><h1 className="text-2xl font-bold">Schedule H1 Register</h1><p>Coming soon...</p></div>;
+        return <ScheduleH1Register />;
       case 'reports':
-        return <div className="p-6"><h1 className="text-2xl font-bold">Reports</h1><p>Coming soon...</p></div>;
+        return PermissionService.can(currentUser, 'reports.view') ? <ReportsPage /> : <Dashboard />;
+      case 'audit-log':
+        return PermissionService.can(currentUser, 'audit.view') ? <AuditLogPage /> : <Dashboard />;
+      case 'audit-integrity':
+        return PermissionService.can(currentUser, 'audit.view') ? <AuditIntegrityPage /> : <Dashboard />;
       case 'settings':
-        return <div className="p-6"><h1 className="text-2xl font-bold">Settings</h1><p>Coming soon...</p></div>;
+        return <SettingsPage />;
+      case 'users':
+        return PermissionService.can(currentUser, 'users.manage') ? <UsersPage /> : <Dashboard />;
       default:
         return <Dashboard />;
     }
@@ -70,6 +107,15 @@ function App() {
     );
   }
 
+  if (!currentUser) {
+    return (
+      <>
+        <LoginScreen />
+        <NotificationToast />
+      </>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-100">
       <div className="flex">
@@ -0,0 +1,43 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { AuditLog } from '../../types';
+import { diffFields } from '../../database/auditMiddleware';
+import { fieldLabel, formatValue } from '../../utils/auditFormat';
+
+interface AuditChangesProps {
+  entry: AuditLog;
+}
+
+/**
+ * The fields an entry changed, old value to new value
+ */
+export const AuditChanges: React.FC<AuditChangesProps> = ({ entry }) => {
+  // Entries logged by services carry only the values they chose to record
+  const changes = (entry.changes ?? diffFields(entry.oldData, entry.newData)).filter(change => change.field !== 'id');
+  const reason = entry.reason && <p className="text-xs italic text-gray-600">{entry.reason}</p>;
+  if (changes.length === 0) {
+    return reason || <p className="text-xs text-gray-400">No field details recorded</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {reason}
+      <ul className="space-y-1 text-xs">
+        {changes.map(change => (
+          <li key={change.field} className="flex flex-wrap items-center gap-1">
+            <span className="font-medium text-gray-700">{fieldLabel(change.field)}:</span>
+            {entry.action === 'UPDATE' || (change.from !== undefined && change.to !== undefined) ? (
+              <>
+                <span className="text-red-700 line-through">{formatValue(change.field, change.from)}</span>
+                <ArrowRight className="w-3 h-3 text-gray-400" />
+                <span className="text-green-700">{formatValue(change.field, change.to)}</span>
+              </>
+            ) : (
+              <span className="text-gray-600">{formatValue(change.field, change.to ?? change.from)}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
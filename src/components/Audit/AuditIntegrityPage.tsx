@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, ShieldAlert, RefreshCw, Download, Calendar, Upload, Key } from 'lucide-react';
+import { AuditService, AuditVerification, ExtractCheck } from '../../services/audit';
+import { usePharmacyStore } from '../../store';
+import { downloadBlob } from '../../utils/download';
+import { format, startOfMonth } from 'date-fns';
+
+export const AuditIntegrityPage: React.FC = () => {
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [fingerprint, setFingerprint] = useState('');
+  const [fromDate, setFromDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [exporting, setExporting] = useState(false);
+  const [extractCheck, setExtractCheck] = useState<(ExtractCheck & { fileName: string }) | null>(null);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    verifyChain();
+    loadFingerprint();
+  }, []);
+
+  const verifyChain = async () => {
+    setVerifying(true);
+    try {
+      setVerification(await AuditService.verifyChain());
+    } catch (error) {
+      console.error('Error verifying audit log:', error);
+      addNotification('error', 'Failed to verify the audit log');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const loadFingerprint = async () => {
+    try {
+      setFingerprint(await AuditService.getKeyFingerprint());
+    } catch (error) {
+      console.error('Error loading signing key:', error);
+    }
+  };
+
+  const exportExtract = async () => {
+    const from = new Date(`${fromDate}T00:00:00`);
+    const to = new Date(`${toDate}T23:59:59.999`);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      addNotification('error', 'Choose a valid date range');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const blob = await AuditService.exportExtract(from, to);
+      downloadBlob(blob, `audit-extract-${fromDate}-to-${toDate}.json`);
+      addNotification('success', 'Signed audit extract downloaded');
+    } catch (error) {
+      console.error('Error exporting audit extract:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to export the audit extract');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const checkExtract = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setExtractCheck({ ...(await AuditService.checkExtract(file)), fileName: file.name });
+    } catch (error) {
+      console.error('Error checking audit extract:', error);
+      setExtractCheck(null);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to check the audit extract');
+    }
+  };
+
+  const intact = verification && verification.breaks.length === 0;
+  const extractValid = extractCheck && extractCheck.signatureValid && extractCheck.alteredEntries === 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+            <ShieldCheck className="w-6 h-6 text-blue-600" />
+            <span>Audit Integrity</span>
+          </h1>
+          <p className="text-gray-600">Check that no audit entry has been edited or removed</p>
+        </div>
+        <button
+          onClick={verifyChain}
+          disabled={verifying}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <RefreshCw className={`w-4 h-4 ${verifying ? 'animate-spin' : ''}`} />
+          Verify Again
+        </button>
+      </div>
+
+      {/* Verification result */}
+      {verification && (
+        <div className={`rounded-lg border p-6 ${intact ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+          <div className="flex items-start space-x-3">
+            {intact ? (
+              <ShieldCheck className="w-6 h-6 text-green-600 flex-shrink-0" />
+            ) : (
+              <ShieldAlert className="w-6 h-6 text-red-600 flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className={`font-semibold ${intact ? 'text-green-900' : 'text-red-900'}`}>
+                {intact
+                  ? `All ${verification.entries} entries are intact`
+                  : `${verification.breaks.length} problem${verification.breaks.length === 1 ? '' : 's'} found in ${verification.entries} entries`}
+              </p>
+              <p className="text-sm text-gray-600 mt-1">
+                Checked {format(verification.checkedAt, 'dd MMM yyyy, HH:mm:ss')}
+              </p>
+              <p className="text-xs text-gray-500 mt-2 break-all">
+                Latest entry #{verification.headSequence} · <span className="font-mono">{verification.headHash}</span>
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                Entries removed from the end leave no gap; compare the latest entry with a previous extract to catch them.
+              </p>
+
+              {!intact && (
+                <table className="w-full text-sm mt-4">
+                  <thead className="text-red-800">
+                    <tr>
+                      <th className="py-1 text-left font-medium">Entry</th>
+                      <th className="py-1 text-left font-medium">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-red-100">
+                    {verification.breaks.map((item, index) => (
+                      <tr key={index}>
+                        <td className="py-1 pr-4">#{item.sequence}</td>
+                        <td className="py-1">{item.problem}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Signed extract */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Signed Extract</h2>
+          <p className="text-sm text-gray-600">
+            Entries for a period with this check's result, signed by this device so any later edit is detectable
+          </p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Calendar className="w-4 h-4 inline mr-1" />
+              From
+            </label>
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Calendar className="w-4 h-4 inline mr-1" />
+              To
+            </label>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            onClick={exportExtract}
+            disabled={exporting}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            {exporting ? 'Exporting...' : 'Export Signed Extract'}
+          </button>
+        </div>
+        {fingerprint && (
+          <p className="text-xs text-gray-500 flex items-center space-x-1">
+            <Key className="w-3 h-3" />
+            <span>This device's key: <span className="font-mono">{fingerprint}</span></span>
+          </p>
+        )}
+      </div>
+
+      {/* Check an extract */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Check an Extract</h2>
+          <p className="text-sm text-gray-600">Confirm an exported extract has not been altered since it was signed</p>
+        </div>
+        <label className="inline-flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors cursor-pointer">
+          <Upload className="w-4 h-4" />
+          Choose Extract File
+          <input type="file" accept=".json,application/json" onChange={checkExtract} className="hidden" />
+        </label>
+
+        {extractCheck && (
+          <div className={`rounded-lg border p-4 text-sm ${extractValid ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+            <p className={`font-medium ${extractValid ? 'text-green-900' : 'text-red-900'}`}>
+              {extractCheck.fileName}: {extractValid ? 'unaltered' : 'altered after signing'}
+            </p>
+            <ul className="mt-2 space-y-1 text-gray-700">
+              <li>Signature: {extractCheck.signatureValid ? 'valid' : 'does not match the contents'}</li>
+              <li>Entries with changed contents: {extractCheck.alteredEntries}</li>
+              <li>
+                Signed by <span className="font-mono">{extractCheck.keyFingerprint}</span>
+                {extractCheck.signedHere ? ' (this device)' : ' (another device)'}
+              </li>
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { ScrollText, Calendar, RefreshCw } from 'lucide-react';
+import { AuditLog, User } from '../../types';
+import { AuditService } from '../../services/audit';
+import { SYSTEM_USER_ID, UserService } from '../../services/users';
+import { usePharmacyStore } from '../../store';
+import { AuditChanges } from './AuditChanges';
+import { AUDIT_ACTION_STYLES, describeAuditEntity } from '../../utils/auditFormat';
+import { format, subDays } from 'date-fns';
+
+const ENTITY_TYPE_LABELS: Record<AuditLog['entityType'], string> = {
+  MEDICINE: 'Medicine',
+  BATCH: 'Batch',
+  SALE: 'Sale',
+  CUSTOMER: 'Customer',
+  CREDIT_NOTE: 'Credit Note',
+  SUPPLIER: 'Supplier',
+  PURCHASE_ORDER: 'Purchase Order',
+  GRN: 'Goods Received',
+  USER: 'User',
+  PRESCRIPTION: 'Prescription',
+  BACKUP: 'Backup'
+};
+
+// Enough for a busy day; narrower filters find older entries
+const RESULT_LIMIT = 500;
+
+export const AuditLogPage: React.FC = () => {
+  const [entries, setEntries] = useState<AuditLog[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [userId, setUserId] = useState('');
+  const [action, setAction] = useState<AuditLog['action'] | ''>('');
+  const [entityType, setEntityType] = useState<AuditLog['entityType'] | ''>('');
+  const [fromDate, setFromDate] = useState(format(subDays(new Date(), 7), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [loading, setLoading] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [userId, action, entityType, fromDate, toDate]);
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await UserService.getUsers());
+    } catch (error) {
+      console.error('Error loading users:', error);
+    }
+  };
+
+  const loadEntries = async () => {
+    const from = new Date(`${fromDate}T00:00:00`);
+    const to = new Date(`${toDate}T23:59:59.999`);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      setEntries([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setEntries(await AuditService.searchLogs({
+        userId: userId || undefined,
+        action: action || undefined,
+        entityType: entityType || undefined,
+        from,
+        to
+      }, RESULT_LIMIT));
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      addNotification('error', 'Failed to load the audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const userName = (id: string) =>
+    id === SYSTEM_USER_ID ? 'System' : users.find(user => user.id === id)?.name ?? 'Unknown user';
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+            <ScrollText className="w-6 h-6 text-gray-700" />
+            <span>Audit Log</span>
+          </h1>
+          <p className="text-gray-600">Who changed what, and when</p>
+        </div>
+        <button
+          onClick={loadEntries}
+          disabled={loading}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">User</label>
+            <select value={userId} onChange={(e) => setUserId(e.target.value)} className={inputClass}>
+              <option value="">All users</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.name}</option>
+              ))}
+              <option value={SYSTEM_USER_ID}>System</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+            <select value={action} onChange={(e) => setAction(e.target.value as AuditLog['action'] | '')} className={inputClass}>
+              <option value="">All actions</option>
+              {(Object.keys(AUDIT_ACTION_STYLES) as AuditLog['action'][]).map(value => (
+                <option key={value} value={value}>{value.replace('_', ' ')}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Record</label>
+            <select value={entityType} onChange={(e) => setEntityType(e.target.value as AuditLog['entityType'] | '')} className={inputClass}>
+              <option value="">All records</option>
+              {(Object.keys(ENTITY_TYPE_LABELS) as AuditLog['entityType'][]).map(value => (
+                <option key={value} value={value}>{ENTITY_TYPE_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Calendar className="w-4 h-4 inline mr-1" />
+              From
+            </label>
+            <input type="date" value={fromDate} max={toDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Calendar className="w-4 h-4 inline mr-1" />
+              To
+            </label>
+            <input type="date" value={toDate} min={fromDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        {entries.length === 0 ? (
+          <p className="p-6 text-center text-gray-500">{loading ? 'Loading...' : 'No entries match these filters'}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium">When</th>
+                <th className="px-4 py-3 text-left font-medium">User</th>
+                <th className="px-4 py-3 text-left font-medium">Action</th>
+                <th className="px-4 py-3 text-left font-medium">Record</th>
+                <th className="px-4 py-3 text-left font-medium">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {entries.map(entry => (
+                <tr key={entry.id} className="align-top">
+                  <td className="px-4 py-3 whitespace-nowrap">{format(new Date(entry.timestamp), 'dd MMM yyyy, HH:mm:ss')}</td>
+                  <td className="px-4 py-3">{userName(entry.userId)}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${AUDIT_ACTION_STYLES[entry.action]}`}>
+                      {entry.action.replace('_', ' ')}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-900">{describeAuditEntity(entry)}</p>
+                    <p className="text-xs text-gray-500">{ENTITY_TYPE_LABELS[entry.entityType]}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <AuditChanges entry={entry} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {entries.length === RESULT_LIMIT && (
+          <p className="px-4 py-3 text-xs text-gray-500 border-t border-gray-200">
+            Showing the latest {RESULT_LIMIT} entries. Narrow the filters to see older ones.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { History } from 'lucide-react';
+import { AuditLog, User } from '../../types';
+import { AuditService } from '../../services/audit';
+import { SYSTEM_USER_ID, UserService } from '../../services/users';
+import { usePharmacyStore } from '../../store';
+import { AuditChanges } from './AuditChanges';
+import { AUDIT_ACTION_STYLES, describeAuditEntity } from '../../utils/auditFormat';
+import { format } from 'date-fns';
+
+interface MedicineHistoryProps {
+  medicineId: string;
+}
+
+/**
+ * Timeline of every recorded change to a medicine and its batches, newest first
+ */
+export const MedicineHistory: React.FC<MedicineHistoryProps> = ({ medicineId }) => {
+  const [entries, setEntries] = useState<AuditLog[] | null>(null);
+  const [users, setUsers] = useState<User[]>([]);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadHistory();
+  }, [medicineId]);
+
+  const loadHistory = async () => {
+    try {
+      const [history, allUsers] = await Promise.all([
+        AuditService.getMedicineHistory(medicineId),
+        UserService.getUsers()
+      ]);
+      setEntries(history);
+      setUsers(allUsers);
+    } catch (error) {
+      console.error('Error loading history:', error);
+      addNotification('error', 'Failed to load history');
+    }
+  };
+
+  const userName = (id: string) =>
+    id === SYSTEM_USER_ID ? 'System' : users.find(user => user.id === id)?.name ?? 'Unknown user';
+
+  if (entries === null) {
+    return <p className="text-center text-gray-500 py-8">Loading...</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center text-gray-500 py-8">
+        <History className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+        <p>No changes recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+      {entries.map(entry => (
+        <li key={entry.id} className="ml-6">
+          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-white border-2 border-blue-500" />
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${AUDIT_ACTION_STYLES[entry.action]}`}>
+              {entry.action.replace('_', ' ')}
+            </span>
+            <span className="text-sm font-medium text-gray-900">{describeAuditEntity(entry)}</span>
+            <span className="text-xs text-gray-500">
+              {format(new Date(entry.timestamp), 'dd MMM yyyy, HH:mm')} · {userName(entry.userId)}
+            </span>
+          </div>
+          <AuditChanges entry={entry} />
+        </li>
+      ))}
+    </ol>
+  );
+};
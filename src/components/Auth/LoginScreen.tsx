@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, ArrowLeft, LogIn } from 'lucide-react';
+import { User } from '../../types';
+import { USER_ROLE_LABELS, UserService } from '../../services/users';
+import { usePharmacyStore } from '../../store';
+import { UserFormModal } from '../Users/UserFormModal';
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+export const LoginScreen: React.FC = () => {
+  const [users, setUsers] = useState<User[] | null>(null);
+  const [selected, setSelected] = useState<User | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+  const { settings, setCurrentUser, addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      const active = await UserService.getActiveUsers();
+      setUsers(active);
+      if (active.length === 1) setSelected(active[0]);
+    } catch (error) {
+      console.error('Error loading users:', error);
+      addNotification('error', 'Failed to load users');
+    }
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    setChecking(true);
+    try {
+      setCurrentUser(await UserService.login(selected.id, pin));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Sign in failed');
+      setPin('');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleOwnerCreated = (owner: User) => {
+    setUsers([owner]);
+    setSelected(owner);
+  };
+
+  if (users === null) {
+    return null;
+  }
+
+  if (users.length === 0) {
+    return <UserFormModal firstOwner onClose={() => undefined} onSaved={handleOwnerCreated} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 w-full max-w-md">
+        <div className="flex items-center space-x-2 mb-6">
+          <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center">
+            <span className="text-white font-bold">Rx</span>
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">{settings.shopName}</h1>
+            <p className="text-sm text-gray-500">Sign in to continue</p>
+          </div>
+        </div>
+
+        {selected ? (
+          <form onSubmit={handleLogin} className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-blue-100 text-blue-700 rounded-full flex items-center justify-center font-medium">
+                  {initials(selected.name)}
+                </div>
+                <div>
+                  <p className="font-medium text-gray-900">{selected.name}</p>
+                  <p className="text-xs text-gray-500">{USER_ROLE_LABELS[selected.role]}</p>
+                </div>
+              </div>
+              {users.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => { setSelected(null); setPin(''); setError(''); }}
+                  className="text-sm text-gray-600 hover:text-gray-900 flex items-center space-x-1"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  <span>Switch</span>
+                </button>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">PIN</label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={6}
+                  value={pin}
+                  onChange={(e) => { setPin(e.target.value.replace(/\D/g, '')); setError(''); }}
+                  autoFocus
+                  autoComplete="off"
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-lg tracking-widest"
+                />
+              </div>
+              {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+            </div>
+            <button
+              type="submit"
+              disabled={checking || pin.length < 4}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2 font-medium"
+            >
+              <LogIn className="w-4 h-4" />
+              <span>{checking ? 'Checking...' : 'Sign In'}</span>
+            </button>
+          </form>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {users.map(user => (
+              <button
+                key={user.id}
+                onClick={() => setSelected(user)}
+                className="p-4 border border-gray-200 rounded-lg hover:border-blue-400 hover:bg-blue-50 transition-colors text-left"
+              >
+                <div className="w-10 h-10 bg-blue-100 text-blue-700 rounded-full flex items-center justify-center font-medium mb-2">
+                  {initials(user.name)}
+                </div>
+                <p className="font-medium text-gray-900 truncate">{user.name}</p>
+                <p className="text-xs text-gray-500">{USER_ROLE_LABELS[user.role]}</p>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { X, ShieldCheck, Lock } from 'lucide-react';
+import { User } from '../../types';
+import { USER_ROLE_LABELS, UserService } from '../../services/users';
+import { OverrideApproval, PERMISSION_LABELS, Permission } from '../../services/permissions';
+import { usePharmacyStore } from '../../store';
+
+interface OverrideModalProps {
+  permission: Permission;
+  /** What is being approved, recorded in the audit log, e.g. "Delete Crocin 500" */
+  reason: string;
+  onApproved: (approval: OverrideApproval) => void;
+  onClose: () => void;
+}
+
+export const OverrideModal: React.FC<OverrideModalProps> = ({ permission, reason, onApproved, onClose }) => {
+  const [approvers, setApprovers] = useState<User[]>([]);
+  const [approverId, setApproverId] = useState('');
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadApprovers();
+  }, [permission]);
+
+  const loadApprovers = async () => {
+    try {
+      const users = await UserService.getApprovers(permission);
+      setApprovers(users);
+      setApproverId(users[0]?.id ?? '');
+    } catch (error) {
+      console.error('Error loading approvers:', error);
+      addNotification('error', 'Failed to load approvers');
+    }
+  };
+
+  const handleApprove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!approverId) return;
+
+    setChecking(true);
+    try {
+      const approval = await UserService.authorizeOverride(permission, approverId, pin, reason);
+      addNotification('success', `Approved by ${approval.approvedByName}`);
+      onApproved(approval);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Approval failed');
+      setPin('');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+            <ShieldCheck className="w-5 h-5 text-blue-600" />
+            <span>Approval Needed</span>
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleApprove} className="p-6 space-y-4">
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+            <p className="font-medium">{PERMISSION_LABELS[permission]}</p>
+            <p>{reason}</p>
+          </div>
+
+          {approvers.length === 0 ? (
+            <p className="text-sm text-gray-600">No active user can approve this.</p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Approved by</label>
+                <select
+                  value={approverId}
+                  onChange={(e) => { setApproverId(e.target.value); setError(''); }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {approvers.map(user => (
+                    <option key={user.id} value={user.id}>{user.name} ({USER_ROLE_LABELS[user.role]})</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Their PIN</label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    maxLength={6}
+                    value={pin}
+                    onChange={(e) => { setPin(e.target.value.replace(/\D/g, '')); setError(''); }}
+                    autoFocus
+                    autoComplete="off"
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent tracking-widest"
+                  />
+                </div>
+                {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={checking || !approverId || pin.length < 4}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              <span>{checking ? 'Checking...' : 'Approve'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
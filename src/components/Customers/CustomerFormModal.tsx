@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { X, Save, User } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Customer } from '../../types';
+import { CustomerService } from '../../services/customers';
+import { usePharmacyStore } from '../../store';
+
+const customerSchema = z.object({
+  name: z.string().min(1, 'Customer name is required'),
+  phone: z.string().regex(/^\+?[0-9\s-]{10,15}$/, 'Enter a valid phone number'),
+  address: z.string().optional(),
+  creditLimit: z.number().min(0, 'Credit limit must be positive').optional(),
+  notes: z.string().optional()
+});
+
+type CustomerFormData = z.infer<typeof customerSchema>;
+
+interface CustomerFormModalProps {
+  customer?: Customer;
+  onClose: () => void;
+  onSaved: (customer: Customer) => void;
+}
+
+export const CustomerFormModal: React.FC<CustomerFormModalProps> = ({ customer, onClose, onSaved }) => {
+  const [saving, setSaving] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<CustomerFormData>({
+    resolver: zodResolver(customerSchema),
+    defaultValues: {
+      name: customer?.name || '',
+      phone: customer?.phone || '',
+      address: customer?.address || '',
+      creditLimit: customer?.creditLimit,
+      notes: customer?.notes || ''
+    }
+  });
+
+  const onSubmit = async (data: CustomerFormData) => {
+    setSaving(true);
+    try {
+      const saved = await CustomerService.saveCustomer(
+        {
+          ...data,
+          address: data.address || undefined,
+          notes: data.notes || undefined
+        },
+        customer?.id
+      );
+      addNotification('success', `${saved.name} ${customer ? 'updated' : 'added'}`);
+      onSaved(saved);
+    } catch (error) {
+      console.error('Error saving customer:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to save customer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+            <User className="w-5 h-5 text-blue-600" />
+            <span>{customer ? 'Edit Customer' : 'Add Customer'}</span>
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+            <input {...register('name')} className={inputClass} />
+            {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Phone *</label>
+            <input {...register('phone')} type="tel" className={inputClass} />
+            {errors.phone && <p className="mt-1 text-sm text-red-600">{errors.phone.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+            <textarea {...register('address')} rows={2} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Credit Limit (₹)</label>
+            <input
+              {...register('creditLimit', { setValueAs: (value) => (value === '' || value === null ? undefined : Number(value)) })}
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="No limit"
+              className={inputClass}
+            />
+            {errors.creditLimit && <p className="mt-1 text-sm text-red-600">{errors.creditLimit.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <input {...register('notes')} className={inputClass} />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saving ? 'Saving...' : 'Save'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
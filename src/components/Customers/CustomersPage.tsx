@@ -0,0 +1,346 @@
+import React, { useState, useEffect } from 'react';
+import { Users, Search, Plus, Edit, IndianRupee, BookOpen, Receipt } from 'lucide-react';
+import { Customer, CustomerLedgerEntry, Sale } from '../../types';
+import { CustomerService } from '../../services/customers';
+import { usePharmacyStore } from '../../store';
+import { CustomerFormModal } from './CustomerFormModal';
+import { format } from 'date-fns';
+
+const LEDGER_LABELS: Record<CustomerLedgerEntry['type'], string> = {
+  CREDIT_SALE: 'Credit Sale',
+  PAYMENT: 'Payment',
+  CREDIT_NOTE: 'Return'
+};
+
+export const CustomersPage: React.FC = () => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selected, setSelected] = useState<Customer | null>(null);
+  const [purchases, setPurchases] = useState<Sale[]>([]);
+  const [ledger, setLedger] = useState<CustomerLedgerEntry[]>([]);
+  const [activeView, setActiveView] = useState<'ledger' | 'purchases'>('ledger');
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<Customer | undefined>();
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<CustomerLedgerEntry['paymentMethod']>('CASH');
+  const [paymentNotes, setPaymentNotes] = useState('');
+  const [recording, setRecording] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadCustomers();
+  }, [searchQuery]);
+
+  const loadCustomers = async () => {
+    try {
+      setCustomers(await CustomerService.search(searchQuery));
+    } catch (error) {
+      console.error('Error loading customers:', error);
+      addNotification('error', 'Failed to load customers');
+    }
+  };
+
+  const selectCustomer = async (customer: Customer) => {
+    setSelected(customer);
+    try {
+      const [history, entries] = await Promise.all([
+        CustomerService.getPurchaseHistory(customer.id),
+        CustomerService.getLedger(customer.id)
+      ]);
+      setPurchases(history);
+      setLedger(entries);
+    } catch (error) {
+      console.error('Error loading customer details:', error);
+      addNotification('error', 'Failed to load customer details');
+    }
+  };
+
+  const handleSaved = async (customer: Customer) => {
+    setShowForm(false);
+    setEditing(undefined);
+    await loadCustomers();
+    await selectCustomer(customer);
+  };
+
+  const recordPayment = async () => {
+    if (!selected) return;
+
+    const amount = parseFloat(paymentAmount);
+    if (!amount || amount <= 0) {
+      addNotification('error', 'Enter a valid payment amount');
+      return;
+    }
+
+    setRecording(true);
+    try {
+      await CustomerService.recordPayment(selected.id, amount, paymentMethod, paymentNotes);
+      addNotification('success', `Payment of ₹${amount.toFixed(2)} recorded for ${selected.name}`);
+      setPaymentAmount('');
+      setPaymentNotes('');
+      await loadCustomers();
+      const refreshed = await CustomerService.findByPhone(selected.phone);
+      if (refreshed) await selectCustomer(refreshed);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to record payment');
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const totalOutstanding = customers.reduce((sum, customer) => sum + Math.max(customer.creditBalance, 0), 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+            <Users className="w-6 h-6 text-blue-600" />
+            <span>Customers</span>
+          </h1>
+          <p className="text-gray-600">
+            Customer master, purchase history and khata · ₹{totalOutstanding.toFixed(2)} outstanding
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditing(undefined);
+            setShowForm(true);
+          }}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Customer
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Customer List */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-4 border-b border-gray-200">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <input
+                type="text"
+                placeholder="Search by name or phone..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+          {customers.length === 0 ? (
+            <div className="text-center py-12">
+              <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No customers found</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200 max-h-[60vh] overflow-y-auto">
+              {customers.map((customer) => (
+                <button
+                  key={customer.id}
+                  onClick={() => selectCustomer(customer)}
+                  className={`w-full text-left p-4 hover:bg-gray-50 flex justify-between items-center ${
+                    selected?.id === customer.id ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">{customer.name}</p>
+                    <p className="text-sm text-gray-600">{customer.phone}</p>
+                  </div>
+                  {customer.creditBalance > 0 && (
+                    <span className="text-sm font-medium text-orange-600">₹{customer.creditBalance.toFixed(2)}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Customer Details */}
+        <div className="lg:col-span-2 space-y-6">
+          {!selected ? (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 text-center py-12">
+              <BookOpen className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">Select a customer to see their khata and purchases</p>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{selected.name}</h2>
+                    <p className="text-sm text-gray-600">{selected.phone}</p>
+                    {selected.address && <p className="text-sm text-gray-500">{selected.address}</p>}
+                    {selected.notes && <p className="text-xs text-gray-500 mt-1">{selected.notes}</p>}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm text-gray-600">Balance Due</p>
+                    <p className={`text-2xl font-bold ${selected.creditBalance > 0 ? 'text-orange-600' : 'text-gray-900'}`}>
+                      ₹{selected.creditBalance.toFixed(2)}
+                    </p>
+                    {selected.creditLimit !== undefined && (
+                      <p className="text-xs text-gray-500">Limit ₹{selected.creditLimit.toFixed(2)}</p>
+                    )}
+                    <button
+                      onClick={() => {
+                        setEditing(selected);
+                        setShowForm(true);
+                      }}
+                      className="mt-2 text-sm text-blue-600 hover:text-blue-800 flex items-center space-x-1 ml-auto"
+                    >
+                      <Edit className="w-4 h-4" />
+                      <span>Edit</span>
+                    </button>
+                  </div>
+                </div>
+
+                {/* Record Payment */}
+                <div className="mt-6 pt-6 border-t border-gray-200 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Amount (₹)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={paymentAmount}
+                      onChange={(e) => setPaymentAmount(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                    <select
+                      value={paymentMethod}
+                      onChange={(e) => setPaymentMethod(e.target.value as CustomerLedgerEntry['paymentMethod'])}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="CASH">Cash</option>
+                      <option value="CARD">Card</option>
+                      <option value="UPI">UPI</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <input
+                      type="text"
+                      value={paymentNotes}
+                      onChange={(e) => setPaymentNotes(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <button
+                    onClick={recordPayment}
+                    disabled={recording || !paymentAmount}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+                  >
+                    <IndianRupee className="w-4 h-4" />
+                    <span>{recording ? 'Saving...' : 'Record Payment'}</span>
+                  </button>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+                <div className="flex border-b border-gray-200">
+                  <button
+                    onClick={() => setActiveView('ledger')}
+                    className={`px-6 py-3 text-sm font-medium flex items-center space-x-2 ${
+                      activeView === 'ledger' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <BookOpen className="w-4 h-4" />
+                    <span>Khata ({ledger.length})</span>
+                  </button>
+                  <button
+                    onClick={() => setActiveView('purchases')}
+                    className={`px-6 py-3 text-sm font-medium flex items-center space-x-2 ${
+                      activeView === 'purchases' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <Receipt className="w-4 h-4" />
+                    <span>Purchases ({purchases.length})</span>
+                  </button>
+                </div>
+
+                <div className="overflow-x-auto">
+                  {activeView === 'ledger' ? (
+                    ledger.length === 0 ? (
+                      <p className="text-center py-8 text-gray-600">No credit transactions</p>
+                    ) : (
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-3 text-left font-medium text-gray-600">Date</th>
+                            <th className="px-4 py-3 text-left font-medium text-gray-600">Type</th>
+                            <th className="px-4 py-3 text-left font-medium text-gray-600">Reference</th>
+                            <th className="px-4 py-3 text-right font-medium text-gray-600">Debit</th>
+                            <th className="px-4 py-3 text-right font-medium text-gray-600">Credit</th>
+                            <th className="px-4 py-3 text-right font-medium text-gray-600">Balance</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {ledger.map((entry) => (
+                            <tr key={entry.id} className="hover:bg-gray-50">
+                              <td className="px-4 py-3 text-gray-700">{format(new Date(entry.date), 'dd MMM yyyy HH:mm')}</td>
+                              <td className="px-4 py-3 text-gray-900">{LEDGER_LABELS[entry.type]}</td>
+                              <td className="px-4 py-3 text-gray-700">
+                                {entry.reference || entry.paymentMethod}
+                                {entry.notes && <p className="text-xs text-gray-500">{entry.notes}</p>}
+                              </td>
+                              <td className="px-4 py-3 text-right text-gray-700">{entry.amount > 0 ? `₹${entry.amount.toFixed(2)}` : ''}</td>
+                              <td className="px-4 py-3 text-right text-green-700">{entry.amount < 0 ? `₹${(-entry.amount).toFixed(2)}` : ''}</td>
+                              <td className="px-4 py-3 text-right font-medium text-gray-900">₹{entry.balanceAfter.toFixed(2)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )
+                  ) : purchases.length === 0 ? (
+                    <p className="text-center py-8 text-gray-600">No purchases recorded</p>
+                  ) : (
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-medium text-gray-600">Invoice</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-600">Date</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-600">Items</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-600">Payment</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-600">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {purchases.map((sale) => (
+                          <tr key={sale.id} className="hover:bg-gray-50">
+                            <td className="px-4 py-3 font-mono text-gray-900">{sale.invoiceNumber}</td>
+                            <td className="px-4 py-3 text-gray-700">{format(new Date(sale.saleDate), 'dd MMM yyyy')}</td>
+                            <td className="px-4 py-3 text-gray-700">
+                              {sale.items.map(item => `${item.medicineName} × ${item.quantity}`).join(', ')}
+                            </td>
+                            <td className="px-4 py-3 text-gray-700">{sale.paymentMethod}</td>
+                            <td className="px-4 py-3 text-right font-medium text-gray-900">₹{sale.totalAmount.toFixed(2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {showForm && (
+        <CustomerFormModal
+          customer={editing}
+          onClose={() => {
+            setShowForm(false);
+            setEditing(undefined);
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
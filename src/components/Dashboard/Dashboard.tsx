@@ -5,11 +5,15 @@ import {
   AlertTriangle, 
   TrendingUp,
   Calendar,
-  DollarSign
+  DollarSign,
+  HardDrive
 } from 'lucide-react';
 import { db } from '../../database';
+import { BackupRun, BackupSchedule } from '../../types';
 import { FEFOService } from '../../services/fefo';
-import { format } from 'date-fns';
+import { BACKUP_TARGET_LABELS, BackupSchedulerService } from '../../services/backupScheduler';
+import { usePharmacyStore } from '../../store';
+import { differenceInHours, format, formatDistanceToNow } from 'date-fns';
 
 interface DashboardStats {
   totalMedicines: number;
@@ -31,6 +35,8 @@ export const Dashboard: React.FC = () => {
   });
 
   const [recentSales, setRecentSales] = useState<any[]>([]);
+  const [backupStatus, setBackupStatus] = useState<{ schedule?: BackupSchedule; lastRun?: BackupRun; lastSuccess?: BackupRun } | null>(null);
+  const { settings } = usePharmacyStore();
 
   useEffect(() => {
     loadDashboardData();
@@ -43,12 +49,12 @@ export const Dashboard: React.FC = () => {
         batches,
         sales,
         expiringBatches,
-        lowStockBatches
+        lowStockMedicines
       ] = await Promise.all([
         db.medicines.count(),
         db.batches.count(),
         db.sales.where('saleDate').above(new Date(new Date().setHours(0, 0, 0, 0))).count(),
-        FEFOService.getExpiringMedicines(30),
+        FEFOService.getExpiringMedicines(settings.expiryAlertDays),
         FEFOService.getLowStockMedicines()
       ]);
 
@@ -69,16 +75,44 @@ export const Dashboard: React.FC = () => {
         totalBatches: batches,
         todaySales: sales,
         expiringItems: expiringBatches.length,
-        lowStockItems: lowStockBatches.length,
+        lowStockItems: lowStockMedicines.length,
         totalRevenue: todayRevenue
       });
 
       setRecentSales(recent);
+
+      const [schedule, [lastRun], lastSuccess] = await Promise.all([
+        BackupSchedulerService.getSchedule(),
+        BackupSchedulerService.getRuns(1),
+        BackupSchedulerService.getLastSuccess()
+      ]);
+      setBackupStatus({ schedule, lastRun, lastSuccess });
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     }
   };
 
+  const getBackupBanner = () => {
+    if (!backupStatus) return null;
+    const { schedule, lastRun, lastSuccess } = backupStatus;
+    const lastBackup = lastSuccess
+      ? `Last backup ${formatDistanceToNow(new Date(lastSuccess.startedAt), { addSuffix: true })} (${format(new Date(lastSuccess.startedAt), 'dd MMM, HH:mm')}, ${BACKUP_TARGET_LABELS[lastSuccess.target].toLowerCase()})`
+      : 'No backup has been taken yet';
+
+    if (!schedule?.enabled) {
+      return { color: 'bg-yellow-50 border-yellow-200 text-yellow-800', message: `Automatic backups are off. ${lastBackup}. Turn them on in Settings.` };
+    }
+    if (lastRun?.status === 'FAILED') {
+      return { color: 'bg-red-50 border-red-200 text-red-800', message: `The last backup failed: ${lastRun.error}. ${lastBackup}.` };
+    }
+    if (!lastSuccess || differenceInHours(new Date(), new Date(lastSuccess.startedAt)) >= 48) {
+      return { color: 'bg-yellow-50 border-yellow-200 text-yellow-800', message: `${lastBackup}. Backups run while the app is open.` };
+    }
+    return { color: 'bg-green-50 border-green-200 text-green-800', message: `${lastBackup}.` };
+  };
+
+  const backupBanner = getBackupBanner();
+
   const statCards = [
     {
       title: 'Total Medicines',
@@ -132,6 +166,14 @@ export const Dashboard: React.FC = () => {
         <p className="text-gray-600">Welcome back! Here's what's happening at your pharmacy today.</p>
       </div>
 
+      {/* Backup Status */}
+      {backupBanner && (
+        <div className={`border rounded-lg px-4 py-3 flex items-center space-x-3 text-sm ${backupBanner.color}`}>
+          <HardDrive className="w-5 h-5 flex-shrink-0" />
+          <span>{backupBanner.message}</span>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {statCards.map((card, index) => {
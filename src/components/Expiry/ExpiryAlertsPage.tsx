@@ -0,0 +1,357 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, Calendar, RefreshCw, Truck, Trash2, Tag, X } from 'lucide-react';
+import { db } from '../../database';
+import { Medicine, Batch } from '../../types';
+import { ExpiryService, ExpiryBucket, ExpiryBucketKey } from '../../services/expiry';
+import { OverrideApproval, Permission, PermissionError } from '../../services/permissions';
+import { usePharmacyStore } from '../../store';
+import { OverrideModal } from '../Auth/OverrideModal';
+import { format, differenceInCalendarDays } from 'date-fns';
+
+type ExpiryAction = 'return' | 'writeoff' | 'discount';
+
+interface PendingAction {
+  type: ExpiryAction;
+  batch: Batch;
+}
+
+const BUCKET_COLORS: Record<ExpiryBucketKey, string> = {
+  expired: 'bg-red-50 border-red-200 text-red-900',
+  within30: 'bg-orange-50 border-orange-200 text-orange-900',
+  within60: 'bg-yellow-50 border-yellow-200 text-yellow-900',
+  within90: 'bg-blue-50 border-blue-200 text-blue-900'
+};
+
+export const ExpiryAlertsPage: React.FC = () => {
+  const [buckets, setBuckets] = useState<ExpiryBucket[]>([]);
+  const [medicines, setMedicines] = useState<Record<string, Medicine>>({});
+  const [activeBucket, setActiveBucket] = useState<ExpiryBucketKey>('expired');
+  const [loading, setLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [quantity, setQuantity] = useState(0);
+  const [reason, setReason] = useState('');
+  const [witness, setWitness] = useState('');
+  const [discountPercent, setDiscountPercent] = useState(25);
+  const [submitting, setSubmitting] = useState(false);
+  // Clearance discount waiting on an approval, with the approvals already given for it
+  const [pendingApproval, setPendingApproval] = useState<{ permission: Permission; approvals: OverrideApproval[] } | null>(null);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadBuckets();
+  }, []);
+
+  const loadBuckets = async () => {
+    setLoading(true);
+    try {
+      const [expiryBuckets, allMedicines] = await Promise.all([
+        ExpiryService.getExpiryBuckets(),
+        db.medicines.toArray()
+      ]);
+      setBuckets(expiryBuckets);
+      setMedicines(Object.fromEntries(allMedicines.map(medicine => [medicine.id, medicine])));
+    } catch (error) {
+      console.error('Error loading expiry alerts:', error);
+      addNotification('error', 'Failed to load expiry alerts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openAction = (type: ExpiryAction, batch: Batch) => {
+    setPendingAction({ type, batch });
+    setQuantity(batch.currentStock);
+    setReason(type === 'writeoff' ? 'Expired - destroyed' : '');
+    setWitness('');
+    setDiscountPercent(25);
+  };
+
+  const submitAction = async (approvals: OverrideApproval[] = []) => {
+    if (!pendingAction) return;
+
+    const { type, batch } = pendingAction;
+    const medicineName = medicines[batch.medicineId]?.brandName || batch.batchNumber;
+
+    setSubmitting(true);
+    try {
+      if (type === 'return') {
+        await ExpiryService.returnToVendor(batch.id, quantity, reason || undefined);
+        addNotification('success', `${quantity} units of ${medicineName} marked for return to supplier`);
+      } else if (type === 'writeoff') {
+        await ExpiryService.writeOff(batch.id, quantity, reason, witness);
+        addNotification('success', `${quantity} units of ${medicineName} written off`);
+      } else {
+        await ExpiryService.discountForClearance(batch.id, discountPercent, approvals);
+        addNotification('success', `${medicineName} discounted ${discountPercent}% for clearance`);
+      }
+      setPendingAction(null);
+      loadBuckets();
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        setPendingApproval({ permission: error.permission, approvals });
+        return;
+      }
+      addNotification('error', error instanceof Error ? error.message : 'Failed to update batch');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const currentBucket = buckets.find(bucket => bucket.key === activeBucket);
+
+  const actionTitles: Record<ExpiryAction, string> = {
+    return: 'Return to Supplier',
+    writeoff: 'Write Off as Destroyed',
+    discount: 'Discount for Clearance'
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+            <AlertTriangle className="w-6 h-6 text-yellow-600" />
+            <span>Expiry Alerts</span>
+          </h1>
+          <p className="text-gray-600">Return, write off or clear batches before they become a loss</p>
+        </div>
+        <button
+          onClick={loadBuckets}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Buckets */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {buckets.map((bucket) => (
+          <button
+            key={bucket.key}
+            onClick={() => setActiveBucket(bucket.key)}
+            className={`text-left border rounded-lg p-4 transition-shadow ${BUCKET_COLORS[bucket.key]} ${
+              activeBucket === bucket.key ? 'ring-2 ring-blue-500 shadow-md' : 'hover:shadow-sm'
+            }`}
+          >
+            <p className="text-sm font-medium">{bucket.label}</p>
+            <p className="text-2xl font-bold mt-1">{bucket.batches.length} batches</p>
+            <p className="text-sm mt-2">At cost: ₹{bucket.costValue.toFixed(2)}</p>
+            <p className="text-xs opacity-75">At MRP: ₹{bucket.mrpValue.toFixed(2)}</p>
+          </button>
+        ))}
+      </div>
+
+      {/* Batch List */}
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading expiry alerts...</p>
+        </div>
+      ) : !currentBucket || currentBucket.batches.length === 0 ? (
+        <div className="text-center py-12 bg-green-50 rounded-lg border border-green-200">
+          <Calendar className="w-12 h-12 text-green-600 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-green-800 mb-2">Nothing Here</h3>
+          <p className="text-green-600">No batches with stock fall in this window.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">
+              {currentBucket.label} ({currentBucket.batches.length})
+            </h2>
+          </div>
+
+          <div className="divide-y divide-gray-200">
+            {currentBucket.batches.map((batch) => {
+              const medicine = medicines[batch.medicineId];
+              const daysLeft = differenceInCalendarDays(new Date(batch.expiryDate), new Date());
+
+              return (
+                <div key={batch.id} className="p-6 hover:bg-gray-50 transition-colors">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="text-lg font-semibold text-gray-900">
+                        {medicine?.brandName || medicine?.name || 'Unknown medicine'}
+                      </h3>
+                      <p className="text-gray-600 mb-2">Batch: {batch.batchNumber} · Supplier: {batch.supplierId}</p>
+
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                        <div>
+                          <span className="text-gray-500">Expiry:</span>
+                          <p className="font-medium">{format(new Date(batch.expiryDate), 'MMM dd, yyyy')}</p>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">{daysLeft < 0 ? 'Expired:' : 'Days Left:'}</span>
+                          <p className={`font-medium ${daysLeft < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                            {daysLeft < 0 ? `${Math.abs(daysLeft)} days ago` : `${daysLeft} days`}
+                          </p>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">Stock:</span>
+                          <p className="font-medium">{batch.currentStock} units</p>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">Value at Cost:</span>
+                          <p className="font-medium">₹{(batch.currentStock * batch.purchasePrice).toFixed(2)}</p>
+                        </div>
+                      </div>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex flex-col space-y-2 ml-6">
+                      <button
+                        onClick={() => openAction('return', batch)}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors text-sm font-medium"
+                      >
+                        <Truck className="w-4 h-4" />
+                        Return
+                      </button>
+                      <button
+                        onClick={() => openAction('writeoff', batch)}
+                        className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors text-sm font-medium"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Write Off
+                      </button>
+                      {daysLeft >= 0 && (
+                        <button
+                          onClick={() => openAction('discount', batch)}
+                          className="bg-yellow-600 hover:bg-yellow-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors text-sm font-medium"
+                        >
+                          <Tag className="w-4 h-4" />
+                          Discount
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Action Modal */}
+      {pendingAction && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{actionTitles[pendingAction.type]}</h3>
+                <p className="text-sm text-gray-600">
+                  {medicines[pendingAction.batch.medicineId]?.brandName} · Batch {pendingAction.batch.batchNumber}
+                </p>
+              </div>
+              <button
+                onClick={() => setPendingAction(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-600" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              {pendingAction.type === 'discount' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Discount on MRP (%)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="99"
+                    value={discountPercent}
+                    onChange={(e) => setDiscountPercent(parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-sm text-gray-600 mt-2">
+                    New selling price: ₹{(pendingAction.batch.mrp * (100 - discountPercent) / 100).toFixed(2)}
+                    {' '}(currently ₹{pendingAction.batch.sellingPrice})
+                  </p>
+                  {pendingAction.batch.mrp * (100 - discountPercent) / 100 >= pendingAction.batch.sellingPrice && (
+                    <p className="text-sm text-red-600 mt-1">
+                      This is not below the current price. Increase the discount.
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Quantity (max {pendingAction.batch.currentStock})
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      max={pendingAction.batch.currentStock}
+                      value={quantity}
+                      onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {pendingAction.type === 'writeoff' ? 'Reason *' : 'Notes'}
+                    </label>
+                    <input
+                      type="text"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={pendingAction.type === 'writeoff' ? 'e.g. Expired - incinerated' : 'Optional'}
+                    />
+                  </div>
+                  {pendingAction.type === 'writeoff' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Witness *
+                      </label>
+                      <input
+                        type="text"
+                        value={witness}
+                        onChange={(e) => setWitness(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Name of witness to destruction"
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-4 mt-6">
+              <button
+                onClick={() => setPendingAction(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => submitAction()}
+                disabled={submitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+              >
+                {submitting ? 'Saving...' : 'Confirm'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {pendingApproval && pendingAction && (
+        <OverrideModal
+          permission={pendingApproval.permission}
+          reason={`${discountPercent}% clearance discount on ${medicines[pendingAction.batch.medicineId]?.brandName || 'batch'} ${pendingAction.batch.batchNumber}`}
+          onClose={() => setPendingApproval(null)}
+          onApproved={(approval) => {
+            const approvals = [...pendingApproval.approvals, approval];
+            setPendingApproval(null);
+            submitAction(approvals);
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -5,22 +5,30 @@ import { googleAIService } from '../services/googleAI';
 
 interface ImageUploadProps {
   onImageSelected: (file: File) => void;
+  onImageRemoved?: () => void;
   onTextExtracted?: (text: string) => void;
   onAIDataExtracted?: (data: any) => void;
   className?: string;
+  title?: string;
+  prompt?: string;
 }
 
 export const ImageUpload: React.FC<ImageUploadProps> = ({
   onImageSelected,
+  onImageRemoved,
   onTextExtracted,
   onAIDataExtracted,
-  className = ''
+  className = '',
+  title = 'Medicine Image Upload',
+  prompt = 'Upload medicine package or label'
 }) => {
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [extractedText, setExtractedText] = useState<string>('');
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Extraction reads medicine labels, so it only runs for callers that use the result
+  const extractsData = Boolean(onTextExtracted || onAIDataExtracted);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
@@ -37,9 +45,11 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
       reader.readAsDataURL(file);
 
       // Automatically process with Google AI
-      await processWithGoogleAI(file);
+      if (extractsData) {
+        await processWithGoogleAI(file);
+      }
     }
-  }, [onImageSelected, onTextExtracted, onAIDataExtracted]);
+  }, [onImageSelected, onTextExtracted, onAIDataExtracted, extractsData]);
 
   const processWithGoogleAI = async (file: File) => {
     if (!googleAIService.isConfigured()) {
@@ -91,6 +101,7 @@ Confidence: ${aiData.confidence || 0}%`;
     setImagePreview(null);
     setExtractedText('');
     setError(null);
+    onImageRemoved?.();
   };
 
   return (
@@ -99,7 +110,7 @@ Confidence: ${aiData.confidence || 0}%`;
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
           <ImageIcon className="w-5 h-5 text-blue-600" />
-          <span>Medicine Image Upload</span>
+          <span>{title}</span>
         </h3>
         
         {!selectedImage ? (
@@ -116,7 +127,7 @@ Confidence: ${aiData.confidence || 0}%`;
             <input {...getInputProps()} />
             <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <p className="text-lg font-medium text-gray-700 mb-2">
-              {isDragActive ? 'Drop the image here' : 'Upload medicine package or label'}
+              {isDragActive ? 'Drop the image here' : prompt}
             </p>
             <p className="text-sm text-gray-500 mb-4">
               Drag and drop an image, or click to select
@@ -130,10 +141,11 @@ Confidence: ${aiData.confidence || 0}%`;
             <div className="relative">
               <img
                 src={imagePreview!}
-                alt="Medicine preview"
+                alt="Preview"
                 className="w-full max-w-md mx-auto rounded-lg shadow-md"
               />
               <button
+                type="button"
                 onClick={removeImage}
                 className="absolute top-2 right-2 bg-red-500 text-white rounded-full p-1 hover:bg-red-600 transition-colors"
               >
@@ -208,7 +220,7 @@ Confidence: ${aiData.confidence || 0}%`;
       )}
 
       {/* API Key Setup Instructions */}
-      {!googleAIService.isConfigured() && (
+      {extractsData && !googleAIService.isConfigured() && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
           <div className="flex items-start space-x-2">
             <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5" />
@@ -6,6 +6,9 @@ import { z } from 'zod';
 import { db } from '../../database';
 import { Medicine, Batch } from '../../types';
 import { usePharmacyStore } from '../../store';
+import { SupplierService } from '../../services/suppliers';
+import { SupplierSelect } from '../Suppliers/SupplierSelect';
+import { STORAGE_AREAS, formatStorageLocation } from '../../utils/location';
 import { format } from 'date-fns';
 
 const batchSchema = z.object({
@@ -17,10 +20,11 @@ const batchSchema = z.object({
   mrp: z.number().min(0, 'MRP must be positive'),
   purchasePrice: z.number().min(0, 'Purchase price must be positive'),
   sellingPrice: z.number().min(0, 'Selling price must be positive'),
-  minStock: z.number().min(0, 'Minimum stock must be positive'),
-  maxStock: z.number().min(0, 'Maximum stock must be positive'),
   supplierId: z.string().min(1, 'Supplier information is required'),
-  location: z.string().min(1, 'Location/warehouse is required')
+  location: z.string().min(1, 'Location/warehouse is required'),
+  rack: z.string().optional(),
+  shelf: z.string().optional(),
+  bin: z.string().optional()
 });
 
 type BatchFormData = z.infer<typeof batchSchema>;
@@ -41,7 +45,7 @@ export const AddBatchPage: React.FC<AddBatchPageProps> = ({ onBack }) => {
   const [searchResults, setSearchResults] = useState<Medicine[]>([]);
   const [selectedMedicine, setSelectedMedicine] = useState<Medicine | null>(null);
   const [loading, setLoading] = useState(false);
-  const { addNotification } = usePharmacyStore();
+  const { addNotification, settings } = usePharmacyStore();
 
   const {
     register,
@@ -55,9 +59,7 @@ export const AddBatchPage: React.FC<AddBatchPageProps> = ({ onBack }) => {
     defaultValues: {
       batchNumber: `BATCH-${Date.now()}`,
       quantity: 100,
-      minStock: 10,
-      maxStock: 500,
-      supplierId: 'DEFAULT',
+      supplierId: settings.defaultSupplierId,
       location: 'MAIN-WAREHOUSE',
       manufacturingDate: new Date().toISOString().split('T')[0],
       expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
@@ -68,17 +70,17 @@ export const AddBatchPage: React.FC<AddBatchPageProps> = ({ onBack }) => {
   const mrp = watch('mrp');
   React.useEffect(() => {
     if (mrp > 0) {
-      setValue('sellingPrice', mrp * 0.9);
+      setValue('sellingPrice', mrp * settings.sellingPriceRatio);
     }
-  }, [mrp, setValue]);
+  }, [mrp, setValue, settings.sellingPriceRatio]);
 
   // Auto-calculate purchase price when selling price changes
   const sellingPrice = watch('sellingPrice');
   React.useEffect(() => {
     if (sellingPrice > 0) {
-      setValue('purchasePrice', sellingPrice * 0.8);
+      setValue('purchasePrice', sellingPrice * settings.purchasePriceRatio);
     }
-  }, [sellingPrice, setValue]);
+  }, [sellingPrice, setValue, settings.purchasePriceRatio]);
 
   // Search medicines
   useEffect(() => {
@@ -137,10 +139,9 @@ export const AddBatchPage: React.FC<AddBatchPageProps> = ({ onBack }) => {
       medicineId: selectedMedicine.id,
       batchNumber: `${selectedMedicine.brandName?.substring(0, 3).toUpperCase() || 'MED'}-${Date.now()}`,
       quantity: 100,
-      minStock: 10,
-      maxStock: 500,
       supplierId: data.supplierId,
       location: data.location,
+      rack: data.rack,
       manufacturingDate: new Date().toISOString().split('T')[0],
       expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
     });
@@ -170,13 +171,18 @@ export const AddBatchPage: React.FC<AddBatchPageProps> = ({ onBack }) => {
           purchasePrice: batchEntry.purchasePrice,
           sellingPrice: batchEntry.sellingPrice,
           currentStock: batchEntry.quantity,
-          minStock: batchEntry.minStock,
-          maxStock: batchEntry.maxStock,
           supplierId: batchEntry.supplierId,
-          receivedDate: new Date(batchEntry.manufacturingDate)
+          manufacturingDate: new Date(batchEntry.manufacturingDate),
+          receivedDate: new Date(),
+          storageLocation: {
+            area: batchEntry.location,
+            rack: batchEntry.rack?.trim() || undefined,
+            shelf: batchEntry.shelf?.trim() || undefined,
+            bin: batchEntry.bin?.trim() || undefined
+          }
         };
 
-        await db.batches.add(newBatch);
+        await SupplierService.receiveBatch(newBatch);
       }
 
       addNotification('success', `Successfully added ${batchEntries.length} batches to inventory`);
@@ -432,46 +438,17 @@ export const AddBatchPage: React.FC<AddBatchPageProps> = ({ onBack }) => {
                     </div>
                   </div>
 
-                  {/* Stock Levels */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Minimum Stock Level
-                      </label>
-                      <input
-                        {...register('minStock', { valueAsNumber: true })}
-                        type="number"
-                        min="0"
-                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        placeholder="Alert threshold"
-                      />
-                    </div>
-
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Maximum Stock Level
-                      </label>
-                      <input
-                        {...register('maxStock', { valueAsNumber: true })}
-                        type="number"
-                        min="0"
-                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        placeholder="Maximum capacity"
-                      />
-                    </div>
-                  </div>
-
                   {/* Supplier & Location */}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         <Building2 className="w-4 h-4 inline mr-1" />
-                        Supplier Information *
+                        Supplier *
                       </label>
-                      <input
-                        {...register('supplierId')}
+                      <SupplierSelect
+                        value={watch('supplierId')}
+                        onChange={(supplierId) => setValue('supplierId', supplierId, { shouldValidate: true, shouldDirty: true })}
                         className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        placeholder="Supplier ID or name"
                       />
                       {errors.supplierId && (
                         <p className="mt-1 text-sm text-red-600">{errors.supplierId.message}</p>
@@ -487,11 +464,9 @@ export const AddBatchPage: React.FC<AddBatchPageProps> = ({ onBack }) => {
                         {...register('location')}
                         className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       >
-                        <option value="MAIN-WAREHOUSE">Main Warehouse</option>
-                        <option value="COLD-STORAGE">Cold Storage</option>
-                        <option value="PHARMACY-FLOOR">Pharmacy Floor</option>
-                        <option value="SECURE-STORAGE">Secure Storage</option>
-                        <option value="QUARANTINE">Quarantine Area</option>
+                        {Object.entries(STORAGE_AREAS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
                       </select>
                       {errors.location && (
                         <p className="mt-1 text-sm text-red-600">{errors.location.message}</p>
@@ -499,6 +474,33 @@ export const AddBatchPage: React.FC<AddBatchPageProps> = ({ onBack }) => {
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-3 gap-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Rack</label>
+                      <input
+                        {...register('rack')}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="e.g. A2"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Shelf</label>
+                      <input
+                        {...register('shelf')}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="e.g. 3"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Bin</label>
+                      <input
+                        {...register('bin')}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="e.g. 14"
+                      />
+                    </div>
+                  </div>
+
                   {/* Add to List Button */}
                   <div className="flex justify-end">
                     <button
@@ -588,7 +590,9 @@ export const AddBatchPage: React.FC<AddBatchPageProps> = ({ onBack }) => {
                           </div>
                           <div>
                             <span className="text-gray-500">Location:</span>
-                            <p className="font-medium">{batch.location}</p>
+                            <p className="font-medium">
+                              {formatStorageLocation({ area: batch.location, rack: batch.rack, shelf: batch.shelf, bin: batch.bin })}
+                            </p>
                           </div>
                           <div>
                             <span className="text-gray-500">Expiry:</span>
@@ -3,6 +3,7 @@ import { ArrowLeft } from 'lucide-react';
 import { db } from '../../database';
 import { Medicine, Batch } from '../../types';
 import { usePharmacyStore } from '../../store';
+import { SupplierService } from '../../services/suppliers';
 import { ImageUpload } from '../ImageUpload';
 import { MedicineForm, MedicineFormData } from '../MedicineForm';
 
@@ -18,7 +19,7 @@ export const AddMedicinePage: React.FC<AddMedicinePageProps> = ({
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [extractedText, setExtractedText] = useState<string>('');
   const [loading, setLoading] = useState(false);
-  const { addNotification } = usePharmacyStore();
+  const { addNotification, settings } = usePharmacyStore();
   const formRef = useRef<any>(null);
 
   const handleImageSelected = (file: File) => {
@@ -54,6 +55,8 @@ export const AddMedicinePage: React.FC<AddMedicinePageProps> = ({
         hsn: formData.hsn,
         gst: formData.gst,
         description: formData.description,
+        minStock: formData.minStock ?? settings.defaultMinStock,
+        maxStock: formData.maxStock ?? settings.defaultMaxStock,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -71,13 +74,11 @@ export const AddMedicinePage: React.FC<AddMedicinePageProps> = ({
           purchasePrice: formData.initialPurchasePrice,
           sellingPrice: formData.initialSellingPrice,
           currentStock: formData.initialStockQuantity,
-          minStock: formData.initialMinStock,
-          maxStock: formData.initialMaxStock,
           supplierId: formData.supplierId,
           receivedDate: new Date()
         };
 
-        await db.batches.add(newBatch);
+        await SupplierService.receiveBatch(newBatch);
       }
 
       addNotification('success', `Medicine ${formData.brandName} added successfully`);
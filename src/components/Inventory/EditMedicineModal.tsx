@@ -1,11 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { X, Save, Pill, Package } from 'lucide-react';
+import { X, Save, Pill, Package, Lock, History } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { db } from '../../database';
-import { Medicine, Batch } from '../../types';
+import { Medicine, Batch, StorageLocation } from '../../types';
 import { usePharmacyStore } from '../../store';
+import { MedicineService } from '../../services/medicines';
+import { OverrideApproval, PermissionService } from '../../services/permissions';
+import { OverrideModal } from '../Auth/OverrideModal';
+import { MedicineHistory } from '../Audit/MedicineHistory';
+import { STORAGE_AREAS } from '../../utils/location';
 import { format } from 'date-fns';
 
 const editMedicineSchema = z.object({
@@ -18,7 +23,12 @@ const editMedicineSchema = z.object({
   scheduleType: z.enum(['H', 'H1', 'X', 'GENERAL']),
   hsn: z.string().optional(),
   gst: z.number().min(0).max(100),
-  description: z.string().optional()
+  description: z.string().optional(),
+  minStock: z.number().int().min(0, 'Reorder level must be positive'),
+  maxStock: z.number().int().min(0, 'Maximum stock must be positive')
+}).refine(data => data.maxStock >= data.minStock, {
+  message: 'Maximum stock cannot be below the reorder level',
+  path: ['maxStock']
 });
 
 type EditMedicineFormData = z.infer<typeof editMedicineSchema>;
@@ -27,17 +37,23 @@ interface EditMedicineModalProps {
   medicine: Medicine;
   onClose: () => void;
   onMedicineUpdated: () => void;
+  initialTab?: 'details' | 'history';
 }
 
 export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
   medicine,
   onClose,
-  onMedicineUpdated
+  onMedicineUpdated,
+  initialTab = 'details'
 }) => {
+  const [activeTab, setActiveTab] = useState(initialTab);
   const [loading, setLoading] = useState(false);
   const [batches, setBatches] = useState<Batch[]>([]);
   const [editingBatches, setEditingBatches] = useState<Record<string, Batch>>({});
+  const [priceApprovals, setPriceApprovals] = useState<OverrideApproval[]>([]);
+  const [showPriceOverride, setShowPriceOverride] = useState(false);
   const { addNotification } = usePharmacyStore();
+  const canEditPrices = PermissionService.canCurrentUser('price.edit') || priceApprovals.length > 0;
 
   useEffect(() => {
     loadBatches();
@@ -78,7 +94,9 @@ export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
       scheduleType: medicine.scheduleType,
       hsn: medicine.hsn || '',
       gst: medicine.gst,
-      description: medicine.description || ''
+      description: medicine.description || '',
+      minStock: medicine.minStock,
+      maxStock: medicine.maxStock
     }
   });
 
@@ -91,36 +109,28 @@ export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
       }
     }));
   };
+
+  const updateBatchLocation = (batchId: string, field: keyof StorageLocation, value: string) => {
+    const current = editingBatches[batchId]?.storageLocation ?? { area: 'MAIN-WAREHOUSE' };
+    updateBatchField(batchId, 'storageLocation', { ...current, [field]: value || undefined });
+  };
   const onSubmit = async (data: EditMedicineFormData) => {
     setLoading(true);
     
     try {
-      // Update medicine
-      const updatedMedicine: Medicine = {
-        ...medicine,
-        ...data,
-        updatedAt: new Date()
-      };
-
-      await db.medicines.update(medicine.id, updatedMedicine);
-      
-      // Update batches
-      for (const batch of batches) {
-        const editedBatch = editingBatches[batch.id];
-        if (editedBatch) {
-          await db.batches.update(batch.id, {
-            ...editedBatch,
-            expiryDate: new Date(editedBatch.expiryDate)
-          });
-        }
-      }
+      await MedicineService.updateMedicine(
+        medicine.id,
+        data,
+        batches.map(batch => editingBatches[batch.id]).filter(Boolean),
+        priceApprovals
+      );
       
       addNotification('success', `Medicine ${data.brandName || data.name} updated successfully`);
       onMedicineUpdated();
       onClose();
     } catch (error) {
       console.error('Error updating medicine:', error);
-      addNotification('error', 'Failed to update medicine');
+      addNotification('error', error instanceof Error ? error.message : 'Failed to update medicine');
     } finally {
       setLoading(false);
     }
@@ -146,8 +156,31 @@ export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
           </button>
         </div>
 
-        {/* Form */}
-        <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-6">
+        {/* Tabs */}
+        <div className="flex border-b border-gray-200 px-6">
+          {([['details', 'Details', Pill], ['history', 'History', History]] as const).map(([tab, label, Icon]) => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => setActiveTab(tab)}
+              className={`flex items-center space-x-2 px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                activeTab === tab ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'history' && (
+          <div className="p-6">
+            <MedicineHistory medicineId={medicine.id} />
+          </div>
+        )}
+
+        {/* Form stays mounted on the history tab so unsaved edits are kept */}
+        <form onSubmit={handleSubmit(onSubmit)} className={`p-6 space-y-6 ${activeTab === 'details' ? '' : 'hidden'}`}>
           {/* Basic Information */}
           <div>
             <h3 className="text-lg font-medium text-gray-900 mb-4">Basic Information</h3>
@@ -292,6 +325,40 @@ export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
                   <p className="mt-1 text-sm text-red-600">{errors.gst.message}</p>
                 )}
               </div>
+
+              {/* Reorder Level */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reorder Level (Min Stock)
+                </label>
+                <input
+                  {...register('minStock', { valueAsNumber: true })}
+                  type="number"
+                  min="0"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                  placeholder="Alert when total stock falls to this"
+                />
+                {errors.minStock && (
+                  <p className="mt-1 text-sm text-red-600">{errors.minStock.message}</p>
+                )}
+              </div>
+
+              {/* Max Stock */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Maximum Stock
+                </label>
+                <input
+                  {...register('maxStock', { valueAsNumber: true })}
+                  type="number"
+                  min="0"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                  placeholder="Stock to top up to"
+                />
+                {errors.maxStock && (
+                  <p className="mt-1 text-sm text-red-600">{errors.maxStock.message}</p>
+                )}
+              </div>
             </div>
           </div>
 
@@ -311,10 +378,22 @@ export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
           {/* Batch Information */}
           {batches.length > 0 && (
             <div>
-              <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center space-x-2">
-                <Package className="w-5 h-5 text-green-600" />
-                <span>Batch Information ({batches.length} batches)</span>
-              </h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900 flex items-center space-x-2">
+                  <Package className="w-5 h-5 text-green-600" />
+                  <span>Batch Information ({batches.length} batches)</span>
+                </h3>
+                {!canEditPrices && (
+                  <button
+                    type="button"
+                    onClick={() => setShowPriceOverride(true)}
+                    className="text-sm text-blue-600 hover:text-blue-800 flex items-center space-x-1"
+                  >
+                    <Lock className="w-4 h-4" />
+                    <span>Unlock prices</span>
+                  </button>
+                )}
+              </div>
               
               <div className="space-y-4">
                 {batches.map((batch) => {
@@ -365,7 +444,8 @@ export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
                             step="0.01"
                             value={editingBatch.mrp}
                             onChange={(e) => updateBatchField(batch.id, 'mrp', parseFloat(e.target.value) || 0)}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                            disabled={!canEditPrices}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-gray-100 disabled:text-gray-500"
                           />
                         </div>
                         
@@ -380,7 +460,8 @@ export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
                             step="0.01"
                             value={editingBatch.sellingPrice}
                             onChange={(e) => updateBatchField(batch.id, 'sellingPrice', parseFloat(e.target.value) || 0)}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                            disabled={!canEditPrices}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-gray-100 disabled:text-gray-500"
                           />
                         </div>
                         
@@ -395,7 +476,8 @@ export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
                             step="0.01"
                             value={editingBatch.purchasePrice}
                             onChange={(e) => updateBatchField(batch.id, 'purchasePrice', parseFloat(e.target.value) || 0)}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                            disabled={!canEditPrices}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-gray-100 disabled:text-gray-500"
                           />
                         </div>
                         
@@ -412,33 +494,38 @@ export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
                             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
                           />
                         </div>
-                        
-                        {/* Min Stock */}
+
+                        {/* Storage Location */}
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-2">
-                            Min Stock
+                            Location
                           </label>
-                          <input
-                            type="number"
-                            min="0"
-                            value={editingBatch.minStock}
-                            onChange={(e) => updateBatchField(batch.id, 'minStock', parseInt(e.target.value) || 0)}
+                          <select
+                            value={editingBatch.storageLocation?.area ?? ''}
+                            onChange={(e) => updateBatchLocation(batch.id, 'area', e.target.value)}
                             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                          />
+                          >
+                            {!editingBatch.storageLocation && <option value="">Not recorded</option>}
+                            {Object.entries(STORAGE_AREAS).map(([value, label]) => (
+                              <option key={value} value={value}>{label}</option>
+                            ))}
+                          </select>
                         </div>
-                        
-                        {/* Max Stock */}
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">
-                            Max Stock
-                          </label>
-                          <input
-                            type="number"
-                            min="0"
-                            value={editingBatch.maxStock}
-                            onChange={(e) => updateBatchField(batch.id, 'maxStock', parseInt(e.target.value) || 0)}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                          />
+
+                        <div className="grid grid-cols-3 gap-2">
+                          {(['rack', 'shelf', 'bin'] as const).map(field => (
+                            <div key={field}>
+                              <label className="block text-sm font-medium text-gray-700 mb-2 capitalize">
+                                {field}
+                              </label>
+                              <input
+                                type="text"
+                                value={editingBatch.storageLocation?.[field] ?? ''}
+                                onChange={(e) => updateBatchLocation(batch.id, field, e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                              />
+                            </div>
+                          ))}
                         </div>
                       </div>
                       
@@ -446,18 +533,18 @@ export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
                       <div className="mt-4 flex items-center justify-between">
                         <div className="flex items-center space-x-4 text-sm text-gray-600">
                           <span>Supplier: {batch.supplierId}</span>
+                          {batch.manufacturingDate && (
+                            <span>Mfg: {format(new Date(batch.manufacturingDate), 'MMM dd, yyyy')}</span>
+                          )}
                           <span>Received: {format(new Date(batch.receivedDate), 'MMM dd, yyyy')}</span>
                         </div>
                         <div className="flex items-center space-x-2">
                           <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                             editingBatch.currentStock === 0 
                               ? 'bg-red-100 text-red-700' 
-                              : editingBatch.currentStock <= editingBatch.minStock
-                              ? 'bg-yellow-100 text-yellow-700'
                               : 'bg-green-100 text-green-700'
                           }`}>
-                            {editingBatch.currentStock === 0 ? 'Out of Stock' : 
-                             editingBatch.currentStock <= editingBatch.minStock ? 'Low Stock' : 'In Stock'}
+                            {editingBatch.currentStock === 0 ? 'Out of Stock' : 'In Stock'}
                           </span>
                         </div>
                       </div>
@@ -491,6 +578,18 @@ export const EditMedicineModal: React.FC<EditMedicineModalProps> = ({
           </div>
         </form>
       </div>
+
+      {showPriceOverride && (
+        <OverrideModal
+          permission="price.edit"
+          reason={`Change prices of ${medicine.brandName || medicine.name}`}
+          onClose={() => setShowPriceOverride(false)}
+          onApproved={(approval) => {
+            setPriceApprovals([approval]);
+            setShowPriceOverride(false);
+          }}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,11 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Package, AlertTriangle, TrendingDown, Calendar, Edit3, Trash2, MoreVertical } from 'lucide-react';
+import { Plus, Package, AlertTriangle, TrendingDown, Calendar, Edit3, Trash2, MoreVertical, MapPin, History } from 'lucide-react';
 import { db } from '../../database';
 import { Medicine, Batch } from '../../types';
 import { usePharmacyStore } from '../../store';
+import { FEFOService } from '../../services/fefo';
+import { MedicineService } from '../../services/medicines';
+import { OverrideApproval, PermissionError } from '../../services/permissions';
 import { AddMedicinePage } from './AddMedicinePage';
 import { AddBatchPage } from './AddBatchPage';
 import { EditMedicineModal } from './EditMedicineModal';
+import { OverrideModal } from '../Auth/OverrideModal';
+import { STORAGE_AREAS, formatStorageLocation } from '../../utils/location';
 import { format } from 'date-fns';
 
 interface MedicineWithStock {
@@ -21,10 +26,13 @@ export const InventoryList: React.FC = () => {
   const [showAddPage, setShowAddPage] = useState(false);
   const [showAddBatchPage, setShowAddBatchPage] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [locationFilter, setLocationFilter] = useState('');
   const [editingMedicine, setEditingMedicine] = useState<Medicine | null>(null);
+  const [editingTab, setEditingTab] = useState<'details' | 'history'>('details');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<Medicine | null>(null);
+  const [deleteNeedsApproval, setDeleteNeedsApproval] = useState<Medicine | null>(null);
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
-  const { addNotification } = usePharmacyStore();
+  const { addNotification, settings } = usePharmacyStore();
 
   const fetchMedicinesWithStock = async () => {
     try {
@@ -38,13 +46,13 @@ export const InventoryList: React.FC = () => {
           .toArray();
         
         const totalStock = batches.reduce((sum, batch) => sum + batch.currentStock, 0);
-        const lowStock = batches.some(batch => batch.currentStock <= batch.minStock) || totalStock <= 3;
+        const lowStock = FEFOService.isLowStock(medicine, FEFOService.getSellableStock(batches));
         
-        // Check if any batch expires within 30 days
-        const thirtyDaysFromNow = new Date();
-        thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
+        // Check if any batch expires within the configured alert window
+        const expiryThreshold = new Date();
+        expiryThreshold.setDate(expiryThreshold.getDate() + settings.expiryAlertDays);
         const expiringSoon = batches.some(batch => 
-          batch.expiryDate && new Date(batch.expiryDate) <= thirtyDaysFromNow && batch.currentStock > 0
+          batch.expiryDate && new Date(batch.expiryDate) <= expiryThreshold && batch.currentStock > 0
         );
         
         medicinesWithStockData.push({
@@ -75,36 +83,25 @@ export const InventoryList: React.FC = () => {
     setShowAddBatchPage(false);
   };
 
-  const handleEditMedicine = (medicine: Medicine) => {
+  const handleEditMedicine = (medicine: Medicine, tab: 'details' | 'history' = 'details') => {
     setEditingMedicine(medicine);
+    setEditingTab(tab);
     setOpenDropdown(null);
   };
 
-  const handleDeleteMedicine = async (medicine: Medicine) => {
+  const handleDeleteMedicine = async (medicine: Medicine, approvals: OverrideApproval[] = []) => {
     try {
-      // Check if medicine has any batches with stock
-      const batches = await db.batches
-        .where('medicineId')
-        .equals(medicine.id)
-        .filter(batch => batch.currentStock > 0)
-        .toArray();
-      
-      if (batches.length > 0) {
-        addNotification('error', 'Cannot delete medicine with existing stock. Please clear all batches first.');
-        return;
-      }
-
-      // Delete all batches for this medicine
-      await db.batches.where('medicineId').equals(medicine.id).delete();
-      
-      // Delete the medicine
-      await db.medicines.delete(medicine.id);
+      await MedicineService.deleteMedicine(medicine.id, approvals);
       
       addNotification('success', `Medicine ${medicine.brandName || medicine.name} deleted successfully`);
       fetchMedicinesWithStock();
     } catch (error) {
+      if (error instanceof PermissionError) {
+        setDeleteNeedsApproval(medicine);
+        return;
+      }
       console.error('Error deleting medicine:', error);
-      addNotification('error', 'Failed to delete medicine');
+      addNotification('error', error instanceof Error ? error.message : 'Failed to delete medicine');
     } finally {
       setShowDeleteConfirm(null);
       setOpenDropdown(null);
@@ -123,10 +120,19 @@ export const InventoryList: React.FC = () => {
     }
   };
 
+  // Areas already holding stock come first, followed by any unused standard areas
+  const storageAreas = [...new Set([
+    ...medicinesWithStock.flatMap(item => item.batches.flatMap(batch => batch.storageLocation ? [batch.storageLocation.area] : [])),
+    ...Object.keys(STORAGE_AREAS)
+  ])];
+
+  const isInLocation = (batch: Batch) => !locationFilter || batch.storageLocation?.area === locationFilter;
+
   const filteredMedicines = medicinesWithStock.filter(item =>
-    item.medicine.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    (item.medicine.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     item.medicine.brandName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    item.medicine.manufacturer?.toLowerCase().includes(searchQuery.toLowerCase())
+    item.medicine.manufacturer?.toLowerCase().includes(searchQuery.toLowerCase())) &&
+    (!locationFilter || item.batches.some(isInLocation))
   );
   if (showAddPage) {
     return (
@@ -176,8 +182,8 @@ export const InventoryList: React.FC = () => {
 
       {/* Search and Stats */}
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-        <div className="lg:col-span-3">
-          <div className="relative">
+        <div className="lg:col-span-3 flex gap-3">
+          <div className="relative flex-1">
             <Package className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
             <input
               type="text"
@@ -187,6 +193,19 @@ export const InventoryList: React.FC = () => {
               className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
+          <div className="relative">
+            <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <select
+              value={locationFilter}
+              onChange={(e) => setLocationFilter(e.target.value)}
+              className="h-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All Locations</option>
+              {storageAreas.map(area => (
+                <option key={area} value={area}>{STORAGE_AREAS[area] ?? area}</option>
+              ))}
+            </select>
+          </div>
         </div>
         
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -214,6 +233,7 @@ export const InventoryList: React.FC = () => {
             {filteredMedicines.map((item) => {
               const status = getStockStatus(item);
               const StatusIcon = status.icon;
+              const batches = item.batches.filter(isInLocation);
               
               return (
                 <div key={item.medicine.id} className="p-6 hover:bg-gray-50 transition-colors">
@@ -261,13 +281,13 @@ export const InventoryList: React.FC = () => {
                       </div>
                       
                       {/* Batch Details */}
-                      {item.batches.length > 0 && (
+                      {batches.length > 0 && (
                         <div className="mt-4">
                           <h4 className="text-sm font-medium text-gray-700 mb-2">
-                            Active Batches ({item.batches.length}):
+                            Active Batches ({batches.length}):
                           </h4>
                           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-                            {item.batches.slice(0, 6).map((batch) => (
+                            {batches.slice(0, 6).map((batch) => (
                               <div key={batch.id} className="bg-gray-50 rounded-lg p-3 border">
                                 <div className="flex justify-between items-start">
                                   <div className="flex-1">
@@ -286,6 +306,10 @@ export const InventoryList: React.FC = () => {
                                         'text-green-600 font-medium'
                                       }>{batch.currentStock}</span>
                                     </p>
+                                    <p className="text-xs text-gray-600 flex items-center">
+                                      <MapPin className="w-3 h-3 mr-1" />
+                                      {formatStorageLocation(batch.storageLocation)}
+                                    </p>
                                   </div>
                                   <div className="text-right">
                                     <p className="text-xs font-medium text-blue-600">₹{batch.sellingPrice}</p>
@@ -294,10 +318,10 @@ export const InventoryList: React.FC = () => {
                                 </div>
                               </div>
                             ))}
-                            {item.batches.length > 6 && (
+                            {batches.length > 6 && (
                               <div className="bg-gray-100 rounded-lg p-3 border border-dashed border-gray-300 flex items-center justify-center">
                                 <span className="text-sm text-gray-600">
-                                  +{item.batches.length - 6} more batches
+                                  +{batches.length - 6} more batches
                                 </span>
                               </div>
                             )}
@@ -325,6 +349,13 @@ export const InventoryList: React.FC = () => {
                                 <Edit3 className="w-3 h-3" />
                                 <span>Edit</span>
                               </button>
+                              <button
+                                onClick={() => handleEditMedicine(item.medicine, 'history')}
+                                className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center space-x-2"
+                              >
+                                <History className="w-3 h-3" />
+                                <span>History</span>
+                              </button>
                               <button
                                 onClick={() => setShowDeleteConfirm(item.medicine)}
                                 className="w-full px-4 py-2 text-left text-sm text-red-600 hover:bg-red-50 flex items-center space-x-2"
@@ -362,6 +393,7 @@ export const InventoryList: React.FC = () => {
       {editingMedicine && (
         <EditMedicineModal
           medicine={editingMedicine}
+          initialTab={editingTab}
           onClose={() => setEditingMedicine(null)}
           onMedicineUpdated={() => {
             fetchMedicinesWithStock();
@@ -407,6 +439,18 @@ export const InventoryList: React.FC = () => {
         </div>
       )}
       
+      {deleteNeedsApproval && (
+        <OverrideModal
+          permission="inventory.delete"
+          reason={`Delete ${deleteNeedsApproval.brandName || deleteNeedsApproval.name}`}
+          onClose={() => setDeleteNeedsApproval(null)}
+          onApproved={(approval) => {
+            setDeleteNeedsApproval(null);
+            handleDeleteMedicine(deleteNeedsApproval, [approval]);
+          }}
+        />
+      )}
+      
       {/* Stock Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-green-50 border border-green-200 rounded-lg p-4">
@@ -8,19 +8,14 @@ import {
   TrendingDown,
   ArrowRight
 } from 'lucide-react';
-import { db } from '../../database';
-import { Medicine, Batch } from '../../types';
+import { Medicine } from '../../types';
+import { FEFOService, MedicineStockLevel } from '../../services/fefo';
 import { usePharmacyStore } from '../../store';
 import { format } from 'date-fns';
 import { AddMedicinePage } from './AddMedicinePage';
 import { RestockManagementPage } from './RestockManagementPage';
 
-interface LowStockItem {
-  medicine: Medicine;
-  batches: Batch[];
-  totalStock: number;
-  lowestStock: number;
-}
+type LowStockItem = MedicineStockLevel;
 
 export const LowStockPage: React.FC = () => {
   const [lowStockItems, setLowStockItems] = useState<LowStockItem[]>([]);
@@ -38,47 +33,7 @@ export const LowStockPage: React.FC = () => {
   const loadLowStockItems = async () => {
     setLoading(true);
     try {
-      const allMedicines = await db.medicines.toArray();
-      const lowStockData: LowStockItem[] = [];
-      
-      for (const medicine of allMedicines) {
-        const batchesForMedicine = await db.batches
-          .where('medicineId')
-          .equals(medicine.id)
-          .toArray();
-
-        // Filter out expired or zero-stock batches for active consideration
-        const activeBatches = batchesForMedicine.filter(batch =>
-          batch.currentStock > 0 && new Date(batch.expiryDate) > new Date()
-        );
-
-        const totalStock = activeBatches.reduce((sum, batch) => sum + batch.currentStock, 0);
-        const lowestStock = activeBatches.length > 0 ? Math.min(...activeBatches.map(batch => batch.currentStock)) : 0;
-        const hasBatchBelowMinStock = activeBatches.some(batch => batch.currentStock <= batch.minStock);
-
-        // Define "low stock" for the medicine to be displayed on this page
-        let isLowStock = false;
-        if (totalStock === 0) {
-            isLowStock = true; // Completely out of stock
-        } else if (totalStock <= 10) {
-            isLowStock = true; // Overall low stock threshold
-        } else if (hasBatchBelowMinStock && totalStock <= 50) {
-            // If there's a batch below its min stock AND total stock isn't very high (e.g., <= 50)
-            isLowStock = true;
-        }
-
-        if (isLowStock) {
-            lowStockData.push({
-                medicine,
-                batches: activeBatches, // Only include active batches
-                totalStock,
-                lowestStock
-            });
-        }
-      }
-      // Sort by lowest stock first
-      lowStockData.sort((a, b) => a.lowestStock - b.lowestStock);
-      setLowStockItems(lowStockData);
+      setLowStockItems(await FEFOService.getLowStockMedicines());
     } catch (error) {
       console.error('Error loading low stock items:', error);
       addNotification('error', 'Failed to load low stock items');
@@ -131,9 +86,9 @@ export const LowStockPage: React.FC = () => {
   const getStockStatus = (item: LowStockItem) => {
     if (item.totalStock === 0) {
       return { label: 'Out of Stock', color: 'bg-red-100 text-red-800', icon: '🚫' };
-    } else if (item.lowestStock <= 1) {
+    } else if (item.totalStock <= item.medicine.minStock / 2) {
       return { label: 'Critical', color: 'bg-red-100 text-red-800', icon: '🔴' };
-    } else if (item.lowestStock <= 3) {
+    } else if (item.totalStock < item.medicine.minStock) {
       return { label: 'Low Stock', color: 'bg-yellow-100 text-yellow-800', icon: '⚠️' };
     } else {
       return { label: 'Below Min', color: 'bg-orange-100 text-orange-800', icon: '📉' };
@@ -256,9 +211,10 @@ export const LowStockPage: React.FC = () => {
                         </div>
                         <div>
                           <span className="text-gray-500">Total Stock:</span>
-                          <p className={`font-medium ${item.totalStock === 0 ? 'text-red-600' : item.totalStock <= 3 ? 'text-yellow-600' : 'text-gray-900'}`}>
+                          <p className={`font-medium ${item.totalStock === 0 ? 'text-red-600' : 'text-yellow-600'}`}>
                             {item.totalStock} units
                           </p>
+                          <p className="text-xs text-gray-500">Min: {item.medicine.minStock} · Max: {item.medicine.maxStock}</p>
                         </div>
                         <div>
                           <span className="text-gray-500">Batches:</span>
@@ -285,7 +241,7 @@ export const LowStockPage: React.FC = () => {
                                       : 'N/A'}
                                   </p>
                                   <p className="text-sm text-gray-600">
-                                    Stock: <span className={batch.currentStock === 0 ? 'text-red-600 font-medium' : batch.currentStock <= 3 ? 'text-yellow-600 font-medium' : 'text-gray-900'}>{batch.currentStock}</span> / Min: {batch.minStock}
+                                    Stock: <span className={batch.currentStock === 0 ? 'text-red-600 font-medium' : batch.currentStock <= 3 ? 'text-yellow-600 font-medium' : 'text-gray-900'}>{batch.currentStock}</span>
                                   </p>
                                 </div>
                                 <div className="text-right">
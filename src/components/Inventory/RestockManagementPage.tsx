@@ -3,6 +3,8 @@ import { ArrowLeft, Plus, Trash2, Package, ShoppingCart, DollarSign, Calendar, H
 import { db } from '../../database';
 import { Medicine } from '../../types';
 import { usePharmacyStore } from '../../store';
+import { PurchaseOrderService } from '../../services/purchaseOrders';
+import { SupplierSelect } from '../Suppliers/SupplierSelect';
 
 interface RestockManagementPageProps {
   onBack: () => void;
@@ -29,7 +31,9 @@ export const RestockManagementPage: React.FC<RestockManagementPageProps> = ({ on
   const [restockCart, setRestockCart] = useState<RestockItem[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Medicine[]>([]);
-  const { addNotification } = usePharmacyStore();
+  const { addNotification, settings } = usePharmacyStore();
+  const [supplierId, setSupplierId] = useState(settings.defaultSupplierId);
+  const [processing, setProcessing] = useState(false);
 
   // Search medicines function
   const searchMedicines = async () => {
@@ -165,8 +169,8 @@ export const RestockManagementPage: React.FC<RestockManagementPageProps> = ({ on
               // Auto-calculate selling and purchase prices when MRP changes
               if (field === 'mrp') {
                 const mrpValue = Number(value);
-                updatedBatch.sellingPrice = Math.round(mrpValue * 0.9);
-                updatedBatch.purchasePrice = Math.round(mrpValue * 0.7);
+                updatedBatch.sellingPrice = Math.round(mrpValue * settings.sellingPriceRatio);
+                updatedBatch.purchasePrice = Math.round(updatedBatch.sellingPrice * settings.purchasePriceRatio);
               }
               
               return updatedBatch;
@@ -183,15 +187,32 @@ export const RestockManagementPage: React.FC<RestockManagementPageProps> = ({ on
     setRestockCart([]);
   };
 
-  const processOrder = () => {
+  const processOrder = async () => {
     if (restockCart.length === 0) return;
-    
-    // Here you would typically send the order to your backend
-    console.log('Processing restock order:', restockCart);
-    
-    // For now, just clear the cart and show success
-    alert('Restock order processed successfully!');
-    clearCart();
+
+    setProcessing(true);
+    try {
+      const order = await PurchaseOrderService.createOrder(
+        supplierId,
+        restockCart.map(item => {
+          const quantity = item.batches.reduce((total, batch) => total + batch.quantity, 0);
+          const cost = item.batches.reduce((total, batch) => total + batch.quantity * batch.purchasePrice, 0);
+          return {
+            medicineId: item.id,
+            medicineName: item.name,
+            orderedQuantity: quantity,
+            expectedPrice: quantity > 0 ? cost / quantity : 0
+          };
+        })
+      );
+      addNotification('success', `Purchase order ${order.orderNumber} created as draft`);
+      clearCart();
+    } catch (error) {
+      console.error('Error creating purchase order:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to create purchase order');
+    } finally {
+      setProcessing(false);
+    }
   };
 
   const getTotalQuantity = () => {
@@ -492,12 +513,23 @@ export const RestockManagementPage: React.FC<RestockManagementPageProps> = ({ on
               </div>
 
               {restockCart.length > 0 && (
-                <button
-                  onClick={processOrder}
-                  className="w-full mt-6 bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium"
-                >
-                  Process Restock Order
-                </button>
+                <>
+                  <div className="mt-6">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+                    <SupplierSelect
+                      value={supplierId}
+                      onChange={setSupplierId}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <button
+                    onClick={processOrder}
+                    disabled={processing || !supplierId}
+                    className="w-full mt-4 bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+                  >
+                    {processing ? 'Creating Order...' : 'Create Purchase Order'}
+                  </button>
+                </>
               )}
             </div>
           </div>
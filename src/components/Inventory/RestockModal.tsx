@@ -3,9 +3,10 @@ import { X, Package, Calendar, DollarSign, Hash, Building2 } from 'lucide-react'
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { db } from '../../database';
 import { Medicine, Batch } from '../../types';
 import { usePharmacyStore } from '../../store';
+import { SupplierService } from '../../services/suppliers';
+import { SupplierSelect } from '../Suppliers/SupplierSelect';
 
 const restockSchema = z.object({
   batchNumber: z.string().min(1, 'Batch number is required'),
@@ -14,9 +15,7 @@ const restockSchema = z.object({
   sellingPrice: z.number().min(0, 'Selling price must be positive'),
   mrp: z.number().min(0, 'MRP must be positive'),
   expiryDate: z.string().min(1, 'Expiry date is required'),
-  minStock: z.number().min(0, 'Minimum stock must be positive'),
-  maxStock: z.number().min(0, 'Maximum stock must be positive'),
-  supplierId: z.string().default('DEFAULT')
+  supplierId: z.string().min(1, 'Supplier information is required')
 });
 
 type RestockFormData = z.infer<typeof restockSchema>;
@@ -33,7 +32,7 @@ export const RestockModal: React.FC<RestockModalProps> = ({
   onRestockComplete
 }) => {
   const [loading, setLoading] = useState(false);
-  const { addNotification } = usePharmacyStore();
+  const { addNotification, settings } = usePharmacyStore();
 
   const {
     register,
@@ -46,9 +45,7 @@ export const RestockModal: React.FC<RestockModalProps> = ({
     defaultValues: {
       batchNumber: `BATCH-${Date.now()}`,
       quantity: 100,
-      minStock: 10,
-      maxStock: 500,
-      supplierId: 'DEFAULT'
+      supplierId: settings.defaultSupplierId
     }
   });
 
@@ -56,17 +53,17 @@ export const RestockModal: React.FC<RestockModalProps> = ({
   const mrp = watch('mrp');
   React.useEffect(() => {
     if (mrp > 0) {
-      setValue('sellingPrice', mrp * 0.9); // 90% of MRP
+      setValue('sellingPrice', mrp * settings.sellingPriceRatio);
     }
-  }, [mrp, setValue]);
+  }, [mrp, setValue, settings.sellingPriceRatio]);
 
   // Auto-calculate purchase price when selling price changes
   const sellingPrice = watch('sellingPrice');
   React.useEffect(() => {
     if (sellingPrice > 0) {
-      setValue('purchasePrice', sellingPrice * 0.8); // 80% of selling price
+      setValue('purchasePrice', sellingPrice * settings.purchasePriceRatio);
     }
-  }, [sellingPrice, setValue]);
+  }, [sellingPrice, setValue, settings.purchasePriceRatio]);
 
   const onSubmit = async (data: RestockFormData) => {
     setLoading(true);
@@ -82,13 +79,11 @@ export const RestockModal: React.FC<RestockModalProps> = ({
         purchasePrice: data.purchasePrice,
         sellingPrice: data.sellingPrice,
         currentStock: data.quantity,
-        minStock: data.minStock,
-        maxStock: data.maxStock,
         supplierId: data.supplierId,
         receivedDate: new Date()
       };
 
-      await db.batches.add(newBatch);
+      await SupplierService.receiveBatch(newBatch);
       
       addNotification('success', `Successfully restocked ${medicine.brandName} with ${data.quantity} units`);
       onRestockComplete();
@@ -252,51 +247,22 @@ export const RestockModal: React.FC<RestockModalProps> = ({
                 <p className="mt-1 text-sm text-red-600">{errors.quantity.message}</p>
               )}
             </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Minimum Stock
-              </label>
-              <input
-                {...register('minStock', { valueAsNumber: true })}
-                type="number"
-                min="0"
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Alert threshold"
-              />
-              {errors.minStock && (
-                <p className="mt-1 text-sm text-red-600">{errors.minStock.message}</p>
-              )}
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Maximum Stock
-              </label>
-              <input
-                {...register('maxStock', { valueAsNumber: true })}
-                type="number"
-                min="0"
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Maximum capacity"
-              />
-              {errors.maxStock && (
-                <p className="mt-1 text-sm text-red-600">{errors.maxStock.message}</p>
-              )}
-            </div>
           </div>
 
           {/* Supplier Information */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               <Building2 className="w-4 h-4 inline mr-1" />
-              Supplier ID
+              Supplier *
             </label>
-            <input
-              {...register('supplierId')}
+            <SupplierSelect
+              value={watch('supplierId')}
+              onChange={(supplierId) => setValue('supplierId', supplierId, { shouldValidate: true, shouldDirty: true })}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Supplier identifier"
             />
+            {errors.supplierId && (
+              <p className="mt-1 text-sm text-red-600">{errors.supplierId.message}</p>
+            )}
           </div>
 
           {/* Actions */}
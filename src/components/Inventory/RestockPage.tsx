@@ -3,9 +3,10 @@ import { ArrowLeft, Package, Calendar, DollarSign, Hash, Building2, Save } from
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { db } from '../../database';
 import { Medicine, Batch } from '../../types';
 import { usePharmacyStore } from '../../store';
+import { SupplierService } from '../../services/suppliers';
+import { SupplierSelect } from '../Suppliers/SupplierSelect';
 
 const restockSchema = z.object({
   batchNumber: z.string().min(1, 'Batch number is required'),
@@ -14,9 +15,7 @@ const restockSchema = z.object({
   sellingPrice: z.number().min(0, 'Selling price must be positive'),
   mrp: z.number().min(0, 'MRP must be positive'),
   expiryDate: z.string().min(1, 'Expiry date is required'),
-  minStock: z.number().min(0, 'Minimum stock must be positive'),
-  maxStock: z.number().min(0, 'Maximum stock must be positive'),
-  supplierId: z.string().default('DEFAULT')
+  supplierId: z.string().min(1, 'Supplier information is required')
 });
 
 type RestockFormData = z.infer<typeof restockSchema>;
@@ -31,7 +30,7 @@ export const RestockPage: React.FC<RestockPageProps> = ({
   onBack
 }) => {
   const [loading, setLoading] = useState(false);
-  const { addNotification } = usePharmacyStore();
+  const { addNotification, settings } = usePharmacyStore();
 
   const {
     register,
@@ -44,9 +43,7 @@ export const RestockPage: React.FC<RestockPageProps> = ({
     defaultValues: {
       batchNumber: `BATCH-${Date.now()}`,
       quantity: 100,
-      minStock: 10,
-      maxStock: 500,
-      supplierId: 'DEFAULT'
+      supplierId: settings.defaultSupplierId
     }
   });
 
@@ -54,17 +51,17 @@ export const RestockPage: React.FC<RestockPageProps> = ({
   const mrp = watch('mrp');
   React.useEffect(() => {
     if (mrp > 0) {
-      setValue('sellingPrice', mrp * 0.9); // 90% of MRP
+      setValue('sellingPrice', mrp * settings.sellingPriceRatio);
     }
-  }, [mrp, setValue]);
+  }, [mrp, setValue, settings.sellingPriceRatio]);
 
   // Auto-calculate purchase price when selling price changes
   const sellingPrice = watch('sellingPrice');
   React.useEffect(() => {
     if (sellingPrice > 0) {
-      setValue('purchasePrice', sellingPrice * 0.8); // 80% of selling price
+      setValue('purchasePrice', sellingPrice * settings.purchasePriceRatio);
     }
-  }, [sellingPrice, setValue]);
+  }, [sellingPrice, setValue, settings.purchasePriceRatio]);
 
   const onSubmit = async (data: RestockFormData) => {
     setLoading(true);
@@ -80,13 +77,11 @@ export const RestockPage: React.FC<RestockPageProps> = ({
         purchasePrice: data.purchasePrice,
         sellingPrice: data.sellingPrice,
         currentStock: data.quantity,
-        minStock: data.minStock,
-        maxStock: data.maxStock,
         supplierId: data.supplierId,
         receivedDate: new Date()
       };
 
-      await db.batches.add(newBatch);
+      await SupplierService.receiveBatch(newBatch);
       
       addNotification('success', `Successfully restocked ${medicine.brandName} with ${data.quantity} units`);
       onBack();
@@ -293,46 +288,17 @@ export const RestockPage: React.FC<RestockPageProps> = ({
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Minimum Stock
+                  Supplier *
                 </label>
-                <input
-                  {...register('minStock', { valueAsNumber: true })}
-                  type="number"
-                  min="0"
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
-                  placeholder="Alert threshold"
-                />
-                {errors.minStock && (
-                  <p className="mt-1 text-sm text-red-600">{errors.minStock.message}</p>
-                )}
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Maximum Stock
-                </label>
-                <input
-                  {...register('maxStock', { valueAsNumber: true })}
-                  type="number"
-                  min="0"
+                <SupplierSelect
+                  value={watch('supplierId')}
+                  onChange={(supplierId) => setValue('supplierId', supplierId, { shouldValidate: true, shouldDirty: true })}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
-                  placeholder="Maximum capacity"
                 />
-                {errors.maxStock && (
-                  <p className="mt-1 text-sm text-red-600">{errors.maxStock.message}</p>
+                {errors.supplierId && (
+                  <p className="mt-1 text-sm text-red-600">{errors.supplierId.message}</p>
                 )}
               </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Supplier ID
-                </label>
-                <input
-                  {...register('supplierId')}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
-                  placeholder="Supplier identifier"
-                />
-              </div>
             </div>
           </div>
 
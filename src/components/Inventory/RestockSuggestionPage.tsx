@@ -15,13 +15,18 @@ import {
 import { db } from '../../database';
 import { Medicine, Batch } from '../../types';
 import { usePharmacyStore } from '../../store';
+import { PurchaseOrderService } from '../../services/purchaseOrders';
+import { ForecastService } from '../../services/forecast';
+import { SupplierSelect } from '../Suppliers/SupplierSelect';
 import { format } from 'date-fns';
 
 interface RestockSuggestion {
   medicine: Medicine;
   currentStock: number;
-  minStock: number;
-  maxStock: number;
+  reorderPoint: number;
+  orderUpToLevel: number;
+  safetyStock: number;
+  leadTimeDays: number;
   suggestedQuantity: number;
   customQuantity: number;
   isSelected: boolean;
@@ -42,7 +47,9 @@ export const RestockSuggestionPage: React.FC<RestockSuggestionPageProps> = ({ on
   const [filterPriority, setFilterPriority] = useState<'all' | 'critical' | 'low' | 'normal'>('all');
   const [selectAll, setSelectAll] = useState(false);
   const [showOrderSummary, setShowOrderSummary] = useState(false);
-  const { addNotification } = usePharmacyStore();
+  const { addNotification, settings } = usePharmacyStore();
+  const [supplierId, setSupplierId] = useState(settings.defaultSupplierId);
+  const [creatingOrder, setCreatingOrder] = useState(false);
 
   useEffect(() => {
     loadRestockSuggestions();
@@ -51,7 +58,10 @@ export const RestockSuggestionPage: React.FC<RestockSuggestionPageProps> = ({ on
   const loadRestockSuggestions = async () => {
     setLoading(true);
     try {
-      const medicines = await db.medicines.toArray();
+      const [medicines, forecasts] = await Promise.all([
+        db.medicines.toArray(),
+        ForecastService.getForecasts()
+      ]);
       const restockSuggestions: RestockSuggestion[] = [];
 
       for (const medicine of medicines) {
@@ -60,23 +70,30 @@ export const RestockSuggestionPage: React.FC<RestockSuggestionPageProps> = ({ on
           .equals(medicine.id)
           .filter(batch => batch.currentStock > 0 && new Date(batch.expiryDate) > new Date())
           .toArray();
+        const forecast = forecasts.get(medicine.id);
+        if (!forecast) continue;
 
         const currentStock = batches.reduce((sum, batch) => sum + batch.currentStock, 0);
-        const minStock = batches.length > 0 ? Math.min(...batches.map(b => b.minStock)) : 10;
-        const maxStock = batches.length > 0 ? Math.max(...batches.map(b => b.maxStock)) : 100;
-        
-        // Calculate suggested quantity based on stock levels and consumption patterns
+        const { dailyConsumption, leadTimeDays } = forecast;
+        // Without sales history there is nothing to forecast from, so use the medicine's own reorder levels
+        const hasHistory = dailyConsumption > 0;
+        const reorderPoint = hasHistory ? forecast.reorderPoint : medicine.minStock;
+        const orderUpToLevel = hasHistory ? forecast.orderUpToLevel : medicine.maxStock;
+        const safetyStock = hasHistory ? forecast.safetyStock : 0;
+
+        // Order back up to the forecast level once stock falls to the reorder point
         let suggestedQuantity = 0;
         let priority: 'critical' | 'low' | 'normal' = 'normal';
-        
-        if (currentStock === 0) {
-          suggestedQuantity = Math.max(minStock * 2, 50);
+
+        if (currentStock === 0 || (hasHistory && currentStock <= safetyStock)) {
+          suggestedQuantity = orderUpToLevel - currentStock;
           priority = 'critical';
-        } else if (currentStock <= minStock) {
-          suggestedQuantity = maxStock - currentStock;
+        } else if (currentStock <= reorderPoint) {
+          suggestedQuantity = orderUpToLevel - currentStock;
           priority = 'low';
-        } else if (currentStock <= minStock * 2) {
-          suggestedQuantity = Math.max(maxStock - currentStock, minStock);
+        } else if (hasHistory && currentStock <= reorderPoint + Math.ceil(dailyConsumption * leadTimeDays)) {
+          // Will reach the reorder point within another lead time
+          suggestedQuantity = orderUpToLevel - currentStock;
           priority = 'normal';
         }
 
@@ -89,14 +106,16 @@ export const RestockSuggestionPage: React.FC<RestockSuggestionPageProps> = ({ on
           restockSuggestions.push({
             medicine,
             currentStock,
-            minStock,
-            maxStock,
+            reorderPoint,
+            orderUpToLevel,
+            safetyStock,
+            leadTimeDays,
             suggestedQuantity,
             customQuantity: suggestedQuantity,
             isSelected: priority === 'critical', // Auto-select critical items
             priority,
             estimatedCost: averagePrice,
-            averageConsumption: 5 // Simplified - could be calculated from sales history
+            averageConsumption: dailyConsumption
           });
         }
       }
@@ -145,13 +164,13 @@ export const RestockSuggestionPage: React.FC<RestockSuggestionPageProps> = ({ on
   };
 
   const validateQuantity = (suggestion: RestockSuggestion): { isValid: boolean; warning?: string } => {
-    const { customQuantity, maxStock, currentStock, suggestedQuantity } = suggestion;
+    const { customQuantity, orderUpToLevel, currentStock, suggestedQuantity } = suggestion;
     
     if (customQuantity <= 0) {
       return { isValid: false, warning: 'Quantity must be greater than 0' };
     }
     
-    if (customQuantity > maxStock * 2) {
+    if (customQuantity > Math.max(orderUpToLevel, suggestedQuantity) * 2) {
       return { isValid: true, warning: 'Quantity is unusually high' };
     }
     
@@ -192,20 +211,27 @@ export const RestockSuggestionPage: React.FC<RestockSuggestionPageProps> = ({ on
   const totalEstimatedCost = selectedSuggestions.reduce((sum, s) => sum + (s.customQuantity * s.estimatedCost), 0);
   const totalItems = selectedSuggestions.reduce((sum, s) => sum + s.customQuantity, 0);
 
-  const generateRestockOrder = () => {
-    const orderItems = selectedSuggestions.map(suggestion => ({
-      medicine: suggestion.medicine,
-      quantity: suggestion.customQuantity,
-      estimatedCost: suggestion.estimatedCost,
-      totalCost: suggestion.customQuantity * suggestion.estimatedCost,
-      priority: suggestion.priority,
-      currentStock: suggestion.currentStock
-    }));
-
-    // Store in localStorage for processing
-    localStorage.setItem('restockOrder', JSON.stringify(orderItems));
-    addNotification('success', `Restock order generated with ${orderItems.length} items`);
-    setShowOrderSummary(true);
+  const generateRestockOrder = async () => {
+    setCreatingOrder(true);
+    try {
+      const order = await PurchaseOrderService.createOrder(
+        supplierId,
+        selectedSuggestions.map(suggestion => ({
+          medicineId: suggestion.medicine.id,
+          medicineName: suggestion.medicine.brandName || suggestion.medicine.name,
+          orderedQuantity: suggestion.customQuantity,
+          expectedPrice: suggestion.estimatedCost
+        }))
+      );
+      addNotification('success', `Purchase order ${order.orderNumber} created with ${order.items.length} items`);
+      setShowOrderSummary(false);
+      onBack();
+    } catch (error) {
+      console.error('Error creating purchase order:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to create purchase order');
+    } finally {
+      setCreatingOrder(false);
+    }
   };
 
   if (loading) {
@@ -249,7 +275,7 @@ export const RestockSuggestionPage: React.FC<RestockSuggestionPageProps> = ({ on
                 <span>Refresh</span>
               </button>
               <button
-                onClick={generateRestockOrder}
+                onClick={() => setShowOrderSummary(true)}
                 disabled={selectedSuggestions.length === 0}
                 className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
               >
@@ -358,15 +384,18 @@ export const RestockSuggestionPage: React.FC<RestockSuggestionPageProps> = ({ on
                                 <span className="text-gray-500">Current Stock:</span>
                                 <p className={`font-medium ${
                                   suggestion.currentStock === 0 ? 'text-red-600' : 
-                                  suggestion.currentStock <= suggestion.minStock ? 'text-yellow-600' : 
+                                  suggestion.currentStock <= suggestion.reorderPoint ? 'text-yellow-600' : 
                                   'text-green-600'
                                 }`}>
                                   {suggestion.currentStock} units
                                 </p>
                               </div>
                               <div>
-                                <span className="text-gray-500">Min Stock:</span>
-                                <p className="font-medium text-gray-900">{suggestion.minStock}</p>
+                                <span className="text-gray-500">Reorder Point:</span>
+                                <p className="font-medium text-gray-900">{suggestion.reorderPoint}</p>
+                                <p className="text-xs text-gray-500">
+                                  {suggestion.averageConsumption.toFixed(1)}/day · {suggestion.leadTimeDays}d lead
+                                </p>
                               </div>
                               <div>
                                 <span className="text-gray-500">Suggested:</span>
@@ -386,7 +415,7 @@ export const RestockSuggestionPage: React.FC<RestockSuggestionPageProps> = ({ on
                               <input
                                 type="number"
                                 min="0"
-                                max={suggestion.maxStock * 2}
+                                max={Math.max(suggestion.orderUpToLevel, suggestion.suggestedQuantity) * 2}
                                 value={suggestion.customQuantity}
                                 onChange={(e) => updateQuantity(suggestion.medicine.id, parseInt(e.target.value) || 0)}
                                 className={`w-20 px-3 py-2 border rounded-lg text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
@@ -490,19 +519,28 @@ export const RestockSuggestionPage: React.FC<RestockSuggestionPageProps> = ({ on
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
             <div className="p-6 border-b border-gray-200">
-              <h3 className="text-xl font-semibold text-gray-900">Restock Order Generated</h3>
+              <h3 className="text-xl font-semibold text-gray-900">Create Purchase Order</h3>
             </div>
             
             <div className="p-6">
-              <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
                 <div className="flex items-center space-x-2">
-                  <CheckSquare className="w-5 h-5 text-green-600" />
-                  <span className="font-medium text-green-800">Order Successfully Generated</span>
+                  <CheckSquare className="w-5 h-5 text-blue-600" />
+                  <span className="font-medium text-blue-800">Order ready for review</span>
                 </div>
-                <p className="text-green-700 text-sm mt-1">
-                  Your restock order has been prepared and is ready for supplier submission.
+                <p className="text-blue-700 text-sm mt-1">
+                  The order is saved as a draft. Download the PDF and mark it sent from Purchase Orders.
                 </p>
               </div>
+
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Supplier *</label>
+                <SupplierSelect
+                  value={supplierId}
+                  onChange={setSupplierId}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
               
               <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-4 text-sm">
@@ -531,18 +569,14 @@ export const RestockSuggestionPage: React.FC<RestockSuggestionPageProps> = ({ on
                 onClick={() => setShowOrderSummary(false)}
                 className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
               >
-                Close
+                Cancel
               </button>
               <button
-                onClick={() => {
-                  // Could integrate with actual ordering system here
-                  addNotification('info', 'Order submitted to supplier');
-                  setShowOrderSummary(false);
-                  onBack();
-                }}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                onClick={generateRestockOrder}
+                disabled={creatingOrder || !supplierId}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
               >
-                Submit to Supplier
+                {creatingOrder ? 'Creating...' : 'Create Draft Order'}
               </button>
             </div>
           </div>
@@ -1,6 +1,7 @@
 import React from 'react';
-import { Search, Bell, User, Menu, ShoppingCart, Plus } from 'lucide-react';
+import { Search, Bell, User, Menu, ShoppingCart, Plus, Lock } from 'lucide-react';
 import { usePharmacyStore } from '../../store';
+import { USER_ROLE_LABELS } from '../../services/users';
 import { HeaderSearch } from './HeaderSearch';
 
 interface HeaderProps {
@@ -12,7 +13,9 @@ export const Header: React.FC<HeaderProps> = ({ setActiveTab }) => {
     sidebarOpen, 
     setSidebarOpen, 
     cartItems,
-    notifications
+    notifications,
+    currentUser,
+    setCurrentUser
   } = usePharmacyStore();
   
 
@@ -76,9 +79,17 @@ export const Header: React.FC<HeaderProps> = ({ setActiveTab }) => {
               <User className="w-4 h-4 text-gray-600" />
             </div>
             <div className="hidden sm:block">
-              <p className="text-sm font-medium text-gray-900">Dr. Rajesh Kumar</p>
-              <p className="text-xs text-gray-500">Pharmacist</p>
+              <p className="text-sm font-medium text-gray-900">{currentUser?.name}</p>
+              <p className="text-xs text-gray-500">{currentUser && USER_ROLE_LABELS[currentUser.role]}</p>
             </div>
+            {/* The cart is kept in the store, so the next user picks up where the last one left off */}
+            <button
+              onClick={() => setCurrentUser(null)}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
+              title="Lock and switch user"
+            >
+              <Lock className="w-5 h-5" />
+            </button>
           </div>
         </div>
       </div>
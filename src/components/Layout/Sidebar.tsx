@@ -10,9 +10,19 @@ import {
   TrendingDown,
   Shield,
   PackagePlus,
-  Lightbulb
+  Lightbulb,
+  Receipt,
+  RotateCcw,
+  Users,
+  Building2,
+  ClipboardList,
+  PackageCheck,
+  UserCog,
+  ShieldCheck,
+  ScrollText
 } from 'lucide-react';
 import { usePharmacyStore } from '../../store';
+import { PermissionService } from '../../services/permissions';
 
 interface SidebarProps {
   activeTab: string;
@@ -20,19 +30,32 @@ interface SidebarProps {
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab }) => {
-  const { sidebarOpen, setSidebarOpen } = usePharmacyStore();
+  const { sidebarOpen, setSidebarOpen, currentUser } = usePharmacyStore();
 
   const menuItems = [
     { id: 'dashboard', label: 'Dashboard', icon: Home },
     { id: 'inventory', label: 'Inventory', icon: Package },
     { id: 'restock', label: 'Restock', icon: PackagePlus },
     { id: 'restock-suggestions', label: 'Restock Suggestions', icon: Lightbulb },
+    { id: 'purchase-orders', label: 'Purchase Orders', icon: ClipboardList },
+    { id: 'goods-received', label: 'Goods Received', icon: PackageCheck },
     { id: 'sales', label: 'Sales', icon: ShoppingCart },
+    { id: 'sales-history', label: 'Sales History', icon: Receipt },
+    { id: 'returns', label: 'Returns', icon: RotateCcw },
+    { id: 'customers', label: 'Customers', icon: Users },
+    { id: 'suppliers', label: 'Suppliers', icon: Building2 },
     { id: 'expiry', label: 'Expiry Alert', icon: AlertTriangle },
     { id: 'low-stock', label: 'Low Stock', icon: TrendingDown },
     { id: 'schedule-h1', label: 'Schedule H1', icon: Shield },
-    { id: 'reports', label: 'Reports', icon: FileText },
+    ...(PermissionService.can(currentUser, 'reports.view') ? [{ id: 'reports', label: 'Reports', icon: FileText }] : []),
+    ...(PermissionService.can(currentUser, 'audit.view')
+      ? [
+          { id: 'audit-log', label: 'Audit Log', icon: ScrollText },
+          { id: 'audit-integrity', label: 'Audit Integrity', icon: ShieldCheck }
+        ]
+      : []),
     { id: 'settings', label: 'Settings', icon: Settings },
+    ...(PermissionService.can(currentUser, 'users.manage') ? [{ id: 'users', label: 'Users', icon: UserCog }] : []),
   ];
 
   return (
@@ -4,6 +4,8 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Save, Package, Pill, Sparkles } from 'lucide-react';
 import { googleAIService } from '../services/googleAI';
+import { usePharmacyStore } from '../store';
+import { SupplierSelect } from './Suppliers/SupplierSelect';
 
 const medicineSchema = z.object({
   name: z.string().min(1, 'Medicine name is required'),
@@ -22,10 +24,10 @@ const medicineSchema = z.object({
   initialPurchasePrice: z.number().min(0).optional(),
   initialSellingPrice: z.number().min(0, 'Selling price must be positive'),
   initialStockQuantity: z.number().min(0).optional(),
-  initialMinStock: z.number().min(0).optional(),
-  initialMaxStock: z.number().min(0).optional(),
+  minStock: z.number().min(0).optional(),
+  maxStock: z.number().min(0).optional(),
   initialExpiryDate: z.string().optional(),
-  supplierId: z.string().default('DEFAULT')
+  supplierId: z.string().min(1, 'Supplier information is required')
 });
 
 export type MedicineFormData = z.infer<typeof medicineSchema>;
@@ -44,6 +46,7 @@ export const MedicineForm = forwardRef<any, MedicineFormProps>(({
   className = ''
 }, ref) => {
   const [generatingDescription, setGeneratingDescription] = React.useState(false);
+  const { settings } = usePharmacyStore();
 
   const {
     register,
@@ -58,9 +61,9 @@ export const MedicineForm = forwardRef<any, MedicineFormProps>(({
     defaultValues: {
       scheduleType: 'GENERAL',
       gst: 12,
-      supplierId: 'DEFAULT',
-      initialMinStock: 10,
-      initialMaxStock: 100,
+      supplierId: settings.defaultSupplierId,
+      minStock: settings.defaultMinStock,
+      maxStock: settings.defaultMaxStock,
       ...initialData
     }
   });
@@ -78,10 +81,10 @@ export const MedicineForm = forwardRef<any, MedicineFormProps>(({
     if (aiData.batchNumber) setValue('initialBatchNumber', aiData.batchNumber);
     if (aiData.mrp) {
       setValue('initialMrp', aiData.mrp);
-      // Auto-calculate selling price as 90% of MRP
-      setValue('initialSellingPrice', aiData.mrp * 0.9);
-      // Auto-calculate purchase price as 70% of MRP
-      setValue('initialPurchasePrice', aiData.mrp * 0.7);
+      // Auto-calculate selling and purchase prices from the configured margins
+      const sellingPrice = aiData.mrp * settings.sellingPriceRatio;
+      setValue('initialSellingPrice', sellingPrice);
+      setValue('initialPurchasePrice', sellingPrice * settings.purchasePriceRatio);
     }
     if (aiData.expiryDate) setValue('initialExpiryDate', aiData.expiryDate);
     
@@ -422,10 +425,10 @@ export const MedicineForm = forwardRef<any, MedicineFormProps>(({
             {/* Min Stock */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Minimum Stock Level
+                Reorder Level (Min Stock)
               </label>
               <input
-                {...register('initialMinStock', { valueAsNumber: true })}
+                {...register('minStock', { valueAsNumber: true })}
                 type="number"
                 min="0"
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
@@ -439,13 +442,28 @@ export const MedicineForm = forwardRef<any, MedicineFormProps>(({
                 Maximum Stock Level
               </label>
               <input
-                {...register('initialMaxStock', { valueAsNumber: true })}
+                {...register('maxStock', { valueAsNumber: true })}
                 type="number"
                 min="0"
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
                 placeholder="Maximum stock to maintain"
               />
             </div>
+
+            {/* Supplier */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Supplier *
+              </label>
+              <SupplierSelect
+                value={watch('supplierId')}
+                onChange={(supplierId) => setValue('supplierId', supplierId, { shouldValidate: true, shouldDirty: true })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+              />
+              {errors.supplierId && (
+                <p className="mt-1 text-sm text-red-600">{errors.supplierId.message}</p>
+              )}
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, FileText, Search, Plus, Trash2, Paperclip } from 'lucide-react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { PrescribedItem, Prescription } from '../../types';
+import { PrescriptionService } from '../../services/prescriptions';
+import { usePharmacyStore } from '../../store';
+import { ImageUpload } from '../ImageUpload';
+import { format } from 'date-fns';
+
+const prescriptionSchema = z.object({
+  prescriptionNumber: z.string().trim().min(1, 'Prescription number is required'),
+  prescribedDate: z.string().min(1, 'Prescription date is required'),
+  patientName: z.string().trim().min(1, 'Patient name is required'),
+  patientAddress: z.string().optional(),
+  doctorName: z.string().trim().min(1, 'Doctor name is required'),
+  doctorRegistrationNumber: z.string().optional(),
+  refillsAllowed: z.number().int('Enter a whole number').min(0, 'Refills cannot be negative'),
+  items: z.array(z.object({
+    medicineId: z.string().optional(),
+    name: z.string().trim().min(1, 'Item name is required'),
+    directions: z.string().optional()
+  })).min(1, 'Add at least one prescribed item')
+});
+
+type PrescriptionFormData = z.infer<typeof prescriptionSchema>;
+
+interface PrescriptionModalProps {
+  /** Starting values for a new prescription, usually from the cart and customer details */
+  defaults: {
+    patientName?: string;
+    patientAddress?: string;
+    doctorName?: string;
+    doctorRegistrationNumber?: string;
+    prescriptionNumber?: string;
+    items: PrescribedItem[];
+  };
+  onAttached: (prescription: Prescription) => void;
+  onClose: () => void;
+}
+
+/**
+ * Attach a prescription to a sale: pick one already on file for a refill, or record a new one with its scan
+ */
+export const PrescriptionModal: React.FC<PrescriptionModalProps> = ({ defaults, onAttached, onClose }) => {
+  const [tab, setTab] = useState<'new' | 'find'>('new');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<{ prescription: Prescription; fillsRemaining: number }[]>([]);
+  const [image, setImage] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<PrescriptionFormData>({
+    resolver: zodResolver(prescriptionSchema),
+    defaultValues: {
+      prescriptionNumber: defaults.prescriptionNumber || '',
+      prescribedDate: format(new Date(), 'yyyy-MM-dd'),
+      patientName: defaults.patientName || '',
+      patientAddress: defaults.patientAddress || '',
+      doctorName: defaults.doctorName || '',
+      doctorRegistrationNumber: defaults.doctorRegistrationNumber || '',
+      refillsAllowed: 0,
+      items: defaults.items.length > 0 ? defaults.items : [{ name: '', directions: '' }]
+    }
+  });
+  const { fields, append, remove } = useFieldArray({ control, name: 'items' });
+
+  useEffect(() => {
+    if (tab === 'find') {
+      searchPrescriptions();
+    }
+  }, [tab, query]);
+
+  const searchPrescriptions = async () => {
+    try {
+      const found = await PrescriptionService.searchPrescriptions(query);
+      setResults(await Promise.all(found.map(async prescription => ({
+        prescription,
+        fillsRemaining: await PrescriptionService.getFillsRemaining(prescription)
+      }))));
+    } catch (error) {
+      console.error('Error searching prescriptions:', error);
+    }
+  };
+
+  const onSubmit = async (data: PrescriptionFormData) => {
+    setSaving(true);
+    try {
+      const saved = await PrescriptionService.savePrescription({
+        ...data,
+        patientAddress: data.patientAddress?.trim() || undefined,
+        doctorRegistrationNumber: data.doctorRegistrationNumber?.trim() || undefined,
+        prescribedDate: new Date(`${data.prescribedDate}T00:00:00`),
+        items: data.items.map(item => ({ ...item, directions: item.directions?.trim() || undefined })),
+        image: image ?? undefined
+      });
+      addNotification('success', `Prescription ${saved.prescriptionNumber} saved`);
+      onAttached(saved);
+    } catch (error) {
+      console.error('Error saving prescription:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to save prescription');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const tabClass = (active: boolean) =>
+    `px-4 py-2 text-sm font-medium border-b-2 transition-colors ${active ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+            <FileText className="w-5 h-5 text-blue-600" />
+            <span>Attach Prescription</span>
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 border-b border-gray-200 flex space-x-2">
+          <button type="button" onClick={() => setTab('new')} className={tabClass(tab === 'new')}>New Prescription</button>
+          <button type="button" onClick={() => setTab('find')} className={tabClass(tab === 'find')}>Refill from File</button>
+        </div>
+
+        {tab === 'find' ? (
+          <div className="p-6 space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Prescription number, patient or doctor"
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                autoFocus
+              />
+            </div>
+            {results.length === 0 ? (
+              <p className="text-center text-gray-500 py-6">No prescriptions found</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {results.map(({ prescription, fillsRemaining }) => (
+                  <li key={prescription.id} className="p-4 flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {prescription.prescriptionNumber} · {prescription.patientName}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {prescription.doctorName} · {format(new Date(prescription.prescribedDate), 'dd MMM yyyy')} ·{' '}
+                        {prescription.items.length} item{prescription.items.length === 1 ? '' : 's'}
+                      </p>
+                      <p className={`text-xs ${fillsRemaining > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                        {fillsRemaining > 0 ? `${fillsRemaining} fill${fillsRemaining === 1 ? '' : 's'} left` : 'No refills left'}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => onAttached(prescription)}
+                      disabled={fillsRemaining === 0}
+                      className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-1"
+                    >
+                      <Paperclip className="w-4 h-4" />
+                      <span>Attach</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <ImageUpload
+              title="Prescription Scan"
+              prompt="Upload a photo or scan of the prescription"
+              onImageSelected={setImage}
+              onImageRemoved={() => setImage(null)}
+            />
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Prescription No. *</label>
+                  <input {...register('prescriptionNumber')} className={inputClass} />
+                  {errors.prescriptionNumber && <p className="mt-1 text-sm text-red-600">{errors.prescriptionNumber.message}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+                  <input {...register('prescribedDate')} type="date" max={format(new Date(), 'yyyy-MM-dd')} className={inputClass} />
+                  {errors.prescribedDate && <p className="mt-1 text-sm text-red-600">{errors.prescribedDate.message}</p>}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Patient *</label>
+                <input {...register('patientName')} className={inputClass} />
+                {errors.patientName && <p className="mt-1 text-sm text-red-600">{errors.patientName.message}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Patient Address</label>
+                <textarea {...register('patientAddress')} rows={2} className={inputClass} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Doctor *</label>
+                  <input {...register('doctorName')} className={inputClass} />
+                  {errors.doctorName && <p className="mt-1 text-sm text-red-600">{errors.doctorName.message}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Registration No.</label>
+                  <input {...register('doctorRegistrationNumber')} className={inputClass} />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Refills Allowed</label>
+                <input {...register('refillsAllowed', { valueAsNumber: true })} type="number" min="0" className={inputClass} />
+                {errors.refillsAllowed && <p className="mt-1 text-sm text-red-600">{errors.refillsAllowed.message}</p>}
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">Items Prescribed *</label>
+                  <button
+                    type="button"
+                    onClick={() => append({ name: '', directions: '' })}
+                    className="text-sm text-blue-600 hover:text-blue-700 flex items-center space-x-1"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add item</span>
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {fields.map((field, index) => (
+                    <div key={field.id} className="flex items-start space-x-2">
+                      <div className="flex-1 grid grid-cols-2 gap-2">
+                        <input {...register(`items.${index}.name`)} placeholder="Medicine" className={inputClass} />
+                        <input {...register(`items.${index}.directions`)} placeholder="Directions, e.g. 1-0-1 × 5 days" className={inputClass} />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => remove(index)}
+                        disabled={fields.length === 1}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded disabled:text-gray-300"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {errors.items && <p className="mt-1 text-sm text-red-600">{errors.items.message ?? 'Every item needs a name'}</p>}
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                >
+                  <Save className="w-4 h-4" />
+                  <span>{saving ? 'Saving...' : 'Save & Attach'}</span>
+                </button>
+              </div>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { X, FileText, ImageOff } from 'lucide-react';
+import { Prescription } from '../../types';
+import { PrescriptionService } from '../../services/prescriptions';
+import { usePharmacyStore } from '../../store';
+import { format } from 'date-fns';
+
+interface PrescriptionViewerProps {
+  prescriptionId: string;
+  onClose: () => void;
+}
+
+/**
+ * The prescription a sale or register entry was dispensed against, with its scan
+ */
+export const PrescriptionViewer: React.FC<PrescriptionViewerProps> = ({ prescriptionId, onClose }) => {
+  const [prescription, setPrescription] = useState<Prescription | null>(null);
+  const [fillsRemaining, setFillsRemaining] = useState<number | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadPrescription();
+  }, [prescriptionId]);
+
+  useEffect(() => {
+    if (!prescription?.image) return;
+    const url = URL.createObjectURL(prescription.image);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [prescription]);
+
+  const loadPrescription = async () => {
+    try {
+      const found = await PrescriptionService.getPrescription(prescriptionId);
+      if (!found) {
+        addNotification('error', 'Prescription not found');
+        onClose();
+        return;
+      }
+      setPrescription(found);
+      setFillsRemaining(await PrescriptionService.getFillsRemaining(found));
+    } catch (error) {
+      console.error('Error loading prescription:', error);
+      addNotification('error', 'Failed to load prescription');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+            <FileText className="w-5 h-5 text-blue-600" />
+            <span>Prescription {prescription?.prescriptionNumber}</span>
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!prescription ? (
+          <p className="p-6 text-center text-gray-500">Loading...</p>
+        ) : (
+          <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              {imageUrl ? (
+                <a href={imageUrl} target="_blank" rel="noopener noreferrer">
+                  <img src={imageUrl} alt={`Prescription ${prescription.prescriptionNumber}`} className="w-full rounded-lg border border-gray-200" />
+                </a>
+              ) : (
+                <div className="h-full min-h-48 flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-200 text-gray-400">
+                  <ImageOff className="w-8 h-8 mb-2" />
+                  <p className="text-sm">No scan attached</p>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-4 text-sm">
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-2">
+                <dt className="text-gray-500">Date</dt>
+                <dd className="text-gray-900">{format(new Date(prescription.prescribedDate), 'dd MMM yyyy')}</dd>
+                <dt className="text-gray-500">Patient</dt>
+                <dd className="text-gray-900">
+                  {prescription.patientName}
+                  {prescription.patientAddress && <p className="text-xs text-gray-500">{prescription.patientAddress}</p>}
+                </dd>
+                <dt className="text-gray-500">Doctor</dt>
+                <dd className="text-gray-900">
+                  {prescription.doctorName}
+                  {prescription.doctorRegistrationNumber && (
+                    <p className="text-xs text-gray-500">Reg. {prescription.doctorRegistrationNumber}</p>
+                  )}
+                </dd>
+                <dt className="text-gray-500">Refills allowed</dt>
+                <dd className="text-gray-900">
+                  {prescription.refillsAllowed}
+                  {fillsRemaining !== null && <span className="text-gray-500"> · {fillsRemaining} fill{fillsRemaining === 1 ? '' : 's'} left</span>}
+                </dd>
+              </dl>
+
+              <div>
+                <h3 className="font-medium text-gray-900 mb-2">Prescribed</h3>
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {prescription.items.map((item, index) => (
+                    <li key={index} className="px-3 py-2">
+                      <p className="text-gray-900">{item.name}</p>
+                      {item.directions && <p className="text-xs text-gray-500">{item.directions}</p>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,474 @@
+import React, { useState, useEffect } from 'react';
+import { PackageCheck, Search, Trash2, AlertTriangle, CheckCircle, FileText } from 'lucide-react';
+import { db } from '../../database';
+import { GoodsReceivedNote, Medicine, PurchaseOrder, Supplier } from '../../types';
+import { GoodsReceiptService, GoodsReceivedLine, DISCREPANCY_LABELS } from '../../services/goodsReceipt';
+import { PurchaseOrderService } from '../../services/purchaseOrders';
+import { SupplierService } from '../../services/suppliers';
+import { usePharmacyStore } from '../../store';
+import { SupplierSelect } from '../Suppliers/SupplierSelect';
+import { format } from 'date-fns';
+
+interface GRNRow {
+  key: string;
+  medicineId: string;
+  medicineName: string;
+  purchaseOrderItemId?: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number;
+  purchasePrice: number;
+  mrp: number;
+  sellingPrice: number;
+}
+
+const toLines = (rows: GRNRow[]): GoodsReceivedLine[] =>
+  rows.map(row => ({
+    medicineId: row.medicineId,
+    medicineName: row.medicineName,
+    purchaseOrderItemId: row.purchaseOrderItemId,
+    batchNumber: row.batchNumber,
+    expiryDate: new Date(row.expiryDate),
+    quantity: row.quantity,
+    purchasePrice: row.purchasePrice,
+    mrp: row.mrp,
+    sellingPrice: row.sellingPrice
+  }));
+
+export const GoodsReceiptPage: React.FC = () => {
+  const [supplierId, setSupplierId] = useState('');
+  const [openOrders, setOpenOrders] = useState<PurchaseOrder[]>([]);
+  const [orderId, setOrderId] = useState('');
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [invoiceDate, setInvoiceDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [notes, setNotes] = useState('');
+  const [rows, setRows] = useState<GRNRow[]>([]);
+  const [medicines, setMedicines] = useState<Medicine[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [recentNotes, setRecentNotes] = useState<GoodsReceivedNote[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { addNotification, settings } = usePharmacyStore();
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    setOrderId('');
+    setRows([]);
+    if (!supplierId) {
+      setOpenOrders([]);
+      return;
+    }
+    PurchaseOrderService.getOpenOrders(supplierId)
+      .then(setOpenOrders)
+      .catch(error => console.error('Error loading open orders:', error));
+  }, [supplierId]);
+
+  const loadData = async () => {
+    try {
+      const [medicineList, notesList, supplierList] = await Promise.all([
+        db.medicines.toArray(),
+        GoodsReceiptService.getNotes(),
+        SupplierService.getSuppliers()
+      ]);
+      setMedicines(medicineList);
+      setRecentNotes(notesList);
+      setSuppliers(supplierList);
+    } catch (error) {
+      console.error('Error loading goods receipt data:', error);
+      addNotification('error', 'Failed to load goods receipt data');
+    }
+  };
+
+  const selectedOrder = openOrders.find(order => order.id === orderId);
+  const discrepancies = GoodsReceiptService.reconcile(selectedOrder, toLines(rows));
+
+  const newRow = (medicineId: string, medicineName: string, quantity: number, purchasePrice: number, purchaseOrderItemId?: string): GRNRow => ({
+    key: crypto.randomUUID(),
+    medicineId,
+    medicineName,
+    purchaseOrderItemId,
+    batchNumber: '',
+    expiryDate: '',
+    quantity,
+    purchasePrice,
+    mrp: 0,
+    sellingPrice: 0
+  });
+
+  const selectOrder = (id: string) => {
+    setOrderId(id);
+    const order = openOrders.find(o => o.id === id);
+    setRows(order
+      ? order.items
+          .filter(item => item.receivedQuantity < item.orderedQuantity)
+          .map(item => newRow(item.medicineId, item.medicineName, item.orderedQuantity - item.receivedQuantity, item.expectedPrice, item.id))
+      : []);
+  };
+
+  const addMedicine = (medicine: Medicine) => {
+    // A medicine on the order is matched to its line, so a second batch of it counts against the same quantity
+    const orderItem = selectedOrder?.items.find(item => item.medicineId === medicine.id);
+    setRows(prev => [
+      ...prev,
+      newRow(medicine.id, medicine.brandName || medicine.name, 0, orderItem?.expectedPrice ?? 0, orderItem?.id)
+    ]);
+    setSearchQuery('');
+  };
+
+  const updateRow = (key: string, changes: Partial<GRNRow>) => {
+    setRows(prev => prev.map(row => {
+      if (row.key !== key) return row;
+      const updated = { ...row, ...changes };
+      if (changes.mrp !== undefined) {
+        updated.sellingPrice = Math.round(changes.mrp * settings.sellingPriceRatio * 100) / 100;
+      }
+      return updated;
+    }));
+  };
+
+  const removeRow = (key: string) => {
+    setRows(prev => prev.filter(row => row.key !== key));
+  };
+
+  const resetForm = () => {
+    setOrderId('');
+    setInvoiceNumber('');
+    setInvoiceDate(format(new Date(), 'yyyy-MM-dd'));
+    setNotes('');
+    setRows([]);
+  };
+
+  const postGRN = async () => {
+    setSaving(true);
+    try {
+      const note = await GoodsReceiptService.createGRN({
+        supplierId,
+        purchaseOrderId: orderId || undefined,
+        supplierInvoiceNumber: invoiceNumber,
+        supplierInvoiceDate: new Date(invoiceDate),
+        lines: toLines(rows),
+        notes
+      });
+      addNotification(
+        note.discrepancies.length > 0 ? 'warning' : 'success',
+        note.discrepancies.length > 0
+          ? `${note.grnNumber} posted with ${note.discrepancies.length} discrepancies`
+          : `${note.grnNumber} posted, ${note.items.length} batches added to stock`
+      );
+      resetForm();
+      setOpenOrders(await PurchaseOrderService.getOpenOrders(supplierId));
+      setRecentNotes(await GoodsReceiptService.getNotes());
+    } catch (error) {
+      console.error('Error posting GRN:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to post GRN');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const searchResults = searchQuery.length < 2 ? [] : medicines
+    .filter(medicine =>
+      medicine.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      medicine.brandName?.toLowerCase().includes(searchQuery.toLowerCase())
+    )
+    .slice(0, 8);
+
+  const totalAmount = rows.reduce((sum, row) => sum + row.quantity * row.purchasePrice, 0);
+  const supplierName = (id: string) => suppliers.find(supplier => supplier.id === id)?.name || id;
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const cellInputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+          <PackageCheck className="w-6 h-6 text-green-600" />
+          <span>Goods Received</span>
+        </h1>
+        <p className="text-gray-600">Enter the supplier bill, match it against an open purchase order and add the batches to stock</p>
+      </div>
+
+      {/* Supplier Bill */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Supplier *</label>
+            <SupplierSelect value={supplierId} onChange={setSupplierId} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Purchase Order</label>
+            <select
+              value={orderId}
+              onChange={(e) => selectOrder(e.target.value)}
+              disabled={!supplierId}
+              className={inputClass}
+            >
+              <option value="">No order</option>
+              {openOrders.map((order) => (
+                <option key={order.id} value={order.id}>
+                  {order.orderNumber} ({format(new Date(order.createdAt), 'dd MMM')})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Supplier Invoice No. *</label>
+            <input
+              type="text"
+              value={invoiceNumber}
+              onChange={(e) => setInvoiceNumber(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Invoice Date *</label>
+            <input
+              type="date"
+              value={invoiceDate}
+              onChange={(e) => setInvoiceDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Bill Lines */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Add a medicine from the bill..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              disabled={!supplierId}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            {searchResults.length > 0 && (
+              <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg">
+                {searchResults.map((medicine) => (
+                  <button
+                    key={medicine.id}
+                    onClick={() => addMedicine(medicine)}
+                    className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                  >
+                    <p className="font-medium text-gray-900">{medicine.brandName || medicine.name}</p>
+                    <p className="text-xs text-gray-500">{medicine.name} · {medicine.manufacturer}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">Pick an open purchase order or add medicines from the bill</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-3 text-left font-medium text-gray-600">Medicine</th>
+                  <th className="px-3 py-3 text-left font-medium text-gray-600">Batch No.</th>
+                  <th className="px-3 py-3 text-left font-medium text-gray-600">Expiry</th>
+                  <th className="px-3 py-3 text-left font-medium text-gray-600">Qty</th>
+                  <th className="px-3 py-3 text-left font-medium text-gray-600">Rate</th>
+                  <th className="px-3 py-3 text-left font-medium text-gray-600">MRP</th>
+                  <th className="px-3 py-3 text-left font-medium text-gray-600">Selling</th>
+                  <th className="px-3 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map((row) => (
+                  <tr key={row.key}>
+                    <td className="px-3 py-2">
+                      <p className="font-medium text-gray-900">{row.medicineName}</p>
+                      {selectedOrder && !row.purchaseOrderItemId && (
+                        <p className="text-xs text-orange-600">Not on order</p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={row.batchNumber}
+                        onChange={(e) => updateRow(row.key, { batchNumber: e.target.value })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="date"
+                        value={row.expiryDate}
+                        onChange={(e) => updateRow(row.key, { expiryDate: e.target.value })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-24">
+                      <input
+                        type="number"
+                        min="0"
+                        value={row.quantity}
+                        onChange={(e) => updateRow(row.key, { quantity: Math.max(parseInt(e.target.value) || 0, 0) })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-24">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.purchasePrice}
+                        onChange={(e) => updateRow(row.key, { purchasePrice: parseFloat(e.target.value) || 0 })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-24">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.mrp}
+                        onChange={(e) => updateRow(row.key, { mrp: parseFloat(e.target.value) || 0 })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-24">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.sellingPrice}
+                        onChange={(e) => updateRow(row.key, { sellingPrice: parseFloat(e.target.value) || 0 })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <button onClick={() => removeRow(row.key)} className="text-red-600 hover:text-red-800">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={4} className="px-3 py-3 text-right font-medium text-gray-700">Bill Total</td>
+                  <td colSpan={4} className="px-3 py-3 font-bold text-gray-900">₹{totalAmount.toFixed(2)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Reconciliation */}
+      {selectedOrder && rows.length > 0 && (
+        <div className={`rounded-lg border p-4 ${discrepancies.length > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'}`}>
+          {discrepancies.length === 0 ? (
+            <div className="flex items-center space-x-2 text-green-800">
+              <CheckCircle className="w-5 h-5" />
+              <span className="font-medium">Bill matches {selectedOrder.orderNumber}</span>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center space-x-2 text-yellow-800 mb-3">
+                <AlertTriangle className="w-5 h-5" />
+                <span className="font-medium">{discrepancies.length} differences against {selectedOrder.orderNumber}</span>
+              </div>
+              <ul className="space-y-1 text-sm text-yellow-900">
+                {discrepancies.map((discrepancy, index) => (
+                  <li key={index}>
+                    <span className="font-medium">{DISCREPANCY_LABELS[discrepancy.type]}:</span>{' '}
+                    {discrepancy.medicineName} —{' '}
+                    {discrepancy.type === 'PRICE'
+                      ? `ordered at ₹${discrepancy.expected.toFixed(2)}, billed at ₹${discrepancy.actual.toFixed(2)}`
+                      : `expected ${discrepancy.expected}, received ${discrepancy.actual}`}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="flex justify-end items-end space-x-3">
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes (optional)"
+            className="flex-1 max-w-md px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={postGRN}
+            disabled={saving || !supplierId || !invoiceNumber.trim()}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <PackageCheck className="w-4 h-4" />
+            <span>{saving ? 'Posting...' : 'Post GRN'}</span>
+          </button>
+        </div>
+      )}
+
+      {/* Recent GRNs */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Recent GRNs</h2>
+        </div>
+        {recentNotes.length === 0 ? (
+          <p className="text-center text-gray-600 py-8">No goods received yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">GRN No.</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Received</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Supplier</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Supplier Invoice</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-600">Batches</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-600">Amount</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Reconciliation</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {recentNotes.map((note) => (
+                  <tr key={note.id}>
+                    <td className="px-4 py-3 font-mono text-gray-900">{note.grnNumber}</td>
+                    <td className="px-4 py-3 text-gray-700">{format(new Date(note.receivedAt), 'dd MMM yyyy')}</td>
+                    <td className="px-4 py-3 text-gray-700">{supplierName(note.supplierId)}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {note.supplierInvoiceNumber} · {format(new Date(note.supplierInvoiceDate), 'dd MMM yyyy')}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-700">{note.items.length}</td>
+                    <td className="px-4 py-3 text-right text-gray-900">₹{note.totalAmount.toFixed(2)}</td>
+                    <td className="px-4 py-3">
+                      {!note.purchaseOrderId ? (
+                        <span className="text-gray-500">No order</span>
+                      ) : note.discrepancies.length === 0 ? (
+                        <span className="text-green-600">Matched</span>
+                      ) : (
+                        <span className="text-yellow-700" title={note.discrepancies.map(d => `${DISCREPANCY_LABELS[d.type]}: ${d.medicineName}`).join('\n')}>
+                          {note.discrepancies.length} differences
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardList, Send, Download, PackageCheck, XCircle, Trash2, FileText } from 'lucide-react';
+import { PurchaseOrder, Supplier } from '../../types';
+import { PurchaseOrderService, PURCHASE_ORDER_STATUS_LABELS } from '../../services/purchaseOrders';
+import { SupplierService } from '../../services/suppliers';
+import { usePharmacyStore } from '../../store';
+import { downloadBlob } from '../../utils/download';
+import { ReceivePurchaseOrderModal } from './ReceivePurchaseOrderModal';
+import { format } from 'date-fns';
+
+const STATUS_STYLES: Record<PurchaseOrder['status'], string> = {
+  DRAFT: 'bg-gray-100 text-gray-800',
+  SENT: 'bg-blue-100 text-blue-800',
+  PARTIALLY_RECEIVED: 'bg-yellow-100 text-yellow-800',
+  RECEIVED: 'bg-green-100 text-green-800',
+  CLOSED: 'bg-purple-100 text-purple-800'
+};
+
+export const PurchaseOrdersPage: React.FC = () => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrder['status'] | ''>('');
+  const [selected, setSelected] = useState<PurchaseOrder | null>(null);
+  const [showReceive, setShowReceive] = useState(false);
+  const [working, setWorking] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadOrders();
+  }, [statusFilter]);
+
+  const loadOrders = async (selectId?: string) => {
+    try {
+      const [ordersList, suppliersList] = await Promise.all([
+        PurchaseOrderService.getOrders(statusFilter || undefined),
+        SupplierService.getSuppliers()
+      ]);
+      setOrders(ordersList);
+      setSuppliers(suppliersList);
+      if (selectId) {
+        setSelected(ordersList.find(order => order.id === selectId) || null);
+      }
+    } catch (error) {
+      console.error('Error loading purchase orders:', error);
+      addNotification('error', 'Failed to load purchase orders');
+    }
+  };
+
+  const supplierName = (supplierId: string) =>
+    suppliers.find(supplier => supplier.id === supplierId)?.name || supplierId;
+
+  const runAction = async (action: () => Promise<void>, success: string, keepSelection = true) => {
+    if (!selected) return;
+    setWorking(true);
+    try {
+      await action();
+      addNotification('success', success);
+      if (keepSelection) {
+        await loadOrders(selected.id);
+      } else {
+        setSelected(null);
+        await loadOrders();
+      }
+    } catch (error) {
+      console.error('Error updating purchase order:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to update purchase order');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const downloadOrder = async (order: PurchaseOrder) => {
+    try {
+      const blob = await PurchaseOrderService.generatePDF(order);
+      downloadBlob(blob, `${order.orderNumber.replace(/\//g, '-')}.pdf`);
+    } catch (error) {
+      console.error('Error generating purchase order PDF:', error);
+      addNotification('error', 'Failed to generate purchase order PDF');
+    }
+  };
+
+  const handleReceived = async () => {
+    setShowReceive(false);
+    if (selected) await loadOrders(selected.id);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+            <ClipboardList className="w-6 h-6 text-blue-600" />
+            <span>Purchase Orders</span>
+          </h1>
+          <p className="text-gray-600">Orders raised from restock suggestions and the restock cart</p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as PurchaseOrder['status'] | '')}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">All statuses</option>
+          {Object.entries(PURCHASE_ORDER_STATUS_LABELS).map(([status, label]) => (
+            <option key={status} value={status}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Order List */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          {orders.length === 0 ? (
+            <div className="text-center py-12">
+              <ClipboardList className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No purchase orders found</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200 max-h-[70vh] overflow-y-auto">
+              {orders.map((order) => (
+                <button
+                  key={order.id}
+                  onClick={() => setSelected(order)}
+                  className={`w-full text-left p-4 hover:bg-gray-50 ${selected?.id === order.id ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="flex justify-between items-center">
+                    <p className="font-medium font-mono text-gray-900">{order.orderNumber}</p>
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[order.status]}`}>
+                      {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">{supplierName(order.supplierId)}</p>
+                  <p className="text-xs text-gray-500">
+                    {format(new Date(order.createdAt), 'dd MMM yyyy')} · {order.items.length} items · ₹{order.totalAmount.toFixed(2)}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Order Details */}
+        <div className="lg:col-span-2">
+          {!selected ? (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 text-center py-12">
+              <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">Select an order to see its items and receive stock</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-start">
+                <div className="space-y-1">
+                  <h2 className="text-lg font-semibold font-mono text-gray-900">{selected.orderNumber}</h2>
+                  <p className="text-sm text-gray-600">{supplierName(selected.supplierId)}</p>
+                  <p className="text-xs text-gray-500">
+                    Created {format(new Date(selected.createdAt), 'dd MMM yyyy, hh:mm a')}
+                    {selected.sentAt && ` · Sent ${format(new Date(selected.sentAt), 'dd MMM yyyy')}`}
+                    {selected.closedAt && ` · Closed ${format(new Date(selected.closedAt), 'dd MMM yyyy')}`}
+                  </p>
+                  {selected.notes && <p className="text-sm text-gray-600">{selected.notes}</p>}
+                </div>
+                <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[selected.status]}`}>
+                  {PURCHASE_ORDER_STATUS_LABELS[selected.status]}
+                </span>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-medium text-gray-600">Medicine</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-600">Ordered</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-600">Received</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-600">Rate</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-600">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {selected.items.map((item) => (
+                      <tr key={item.id}>
+                        <td className="px-4 py-3 font-medium text-gray-900">{item.medicineName}</td>
+                        <td className="px-4 py-3 text-right text-gray-700">{item.orderedQuantity}</td>
+                        <td className={`px-4 py-3 text-right ${
+                          item.receivedQuantity >= item.orderedQuantity ? 'text-green-600' : 'text-gray-700'
+                        }`}>
+                          {item.receivedQuantity}
+                        </td>
+                        <td className="px-4 py-3 text-right text-gray-700">₹{item.expectedPrice.toFixed(2)}</td>
+                        <td className="px-4 py-3 text-right text-gray-900">
+                          ₹{(item.orderedQuantity * item.expectedPrice).toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="bg-gray-50">
+                    <tr>
+                      <td colSpan={4} className="px-4 py-3 text-right font-medium text-gray-700">Estimated Total</td>
+                      <td className="px-4 py-3 text-right font-bold text-gray-900">₹{selected.totalAmount.toFixed(2)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+
+              <div className="p-6 border-t border-gray-200 flex flex-wrap gap-3 justify-end">
+                <button
+                  onClick={() => downloadOrder(selected)}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-2"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Download PDF</span>
+                </button>
+                {selected.status === 'DRAFT' && (
+                  <>
+                    <button
+                      onClick={() => runAction(() => PurchaseOrderService.deleteDraft(selected.id), `${selected.orderNumber} deleted`, false)}
+                      disabled={working}
+                      className="px-4 py-2 text-red-700 bg-red-50 rounded-lg hover:bg-red-100 disabled:opacity-50 transition-colors flex items-center space-x-2"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span>Delete Draft</span>
+                    </button>
+                    <button
+                      onClick={() => runAction(() => PurchaseOrderService.markSent(selected.id), `${selected.orderNumber} marked as sent`)}
+                      disabled={working}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center space-x-2"
+                    >
+                      <Send className="w-4 h-4" />
+                      <span>Mark as Sent</span>
+                    </button>
+                  </>
+                )}
+                {(selected.status === 'SENT' || selected.status === 'PARTIALLY_RECEIVED' || selected.status === 'RECEIVED') && (
+                  <button
+                    onClick={() => runAction(() => PurchaseOrderService.close(selected.id), `${selected.orderNumber} closed`)}
+                    disabled={working}
+                    className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors flex items-center space-x-2"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    <span>Close Order</span>
+                  </button>
+                )}
+                {(selected.status === 'SENT' || selected.status === 'PARTIALLY_RECEIVED') && (
+                  <button
+                    onClick={() => setShowReceive(true)}
+                    disabled={working}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors flex items-center space-x-2"
+                  >
+                    <PackageCheck className="w-4 h-4" />
+                    <span>Receive Stock</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showReceive && selected && (
+        <ReceivePurchaseOrderModal
+          order={selected}
+          onClose={() => setShowReceive(false)}
+          onReceived={handleReceived}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { X, PackageCheck } from 'lucide-react';
+import { Batch, PurchaseOrder } from '../../types';
+import { PurchaseOrderService } from '../../services/purchaseOrders';
+import { usePharmacyStore } from '../../store';
+
+interface ReceivePurchaseOrderModalProps {
+  order: PurchaseOrder;
+  onClose: () => void;
+  onReceived: () => void;
+}
+
+interface ReceiptRow {
+  itemId: string;
+  medicineId: string;
+  medicineName: string;
+  outstanding: number;
+  quantity: number;
+  batchNumber: string;
+  expiryDate: string;
+  mrp: number;
+  purchasePrice: number;
+  sellingPrice: number;
+}
+
+export const ReceivePurchaseOrderModal: React.FC<ReceivePurchaseOrderModalProps> = ({ order, onClose, onReceived }) => {
+  const { addNotification, settings } = usePharmacyStore();
+  const [saving, setSaving] = useState(false);
+  const [rows, setRows] = useState<ReceiptRow[]>(() =>
+    order.items
+      .filter(item => item.receivedQuantity < item.orderedQuantity)
+      .map(item => ({
+        itemId: item.id,
+        medicineId: item.medicineId,
+        medicineName: item.medicineName,
+        outstanding: item.orderedQuantity - item.receivedQuantity,
+        quantity: item.orderedQuantity - item.receivedQuantity,
+        batchNumber: '',
+        expiryDate: '',
+        mrp: 0,
+        purchasePrice: item.expectedPrice,
+        sellingPrice: 0
+      }))
+  );
+
+  const updateRow = (itemId: string, changes: Partial<ReceiptRow>) => {
+    setRows(prev => prev.map(row => {
+      if (row.itemId !== itemId) return row;
+      const updated = { ...row, ...changes };
+      if (changes.mrp !== undefined) {
+        updated.sellingPrice = Math.round(changes.mrp * settings.sellingPriceRatio * 100) / 100;
+      }
+      return updated;
+    }));
+  };
+
+  const handleReceive = async () => {
+    const receiving = rows.filter(row => row.quantity > 0);
+    if (receiving.length === 0) {
+      addNotification('error', 'Enter a received quantity for at least one item');
+      return;
+    }
+    const incomplete = receiving.find(row => !row.batchNumber.trim() || !row.expiryDate || row.mrp <= 0);
+    if (incomplete) {
+      addNotification('error', `Enter batch number, expiry and MRP for ${incomplete.medicineName}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const receivedDate = new Date();
+      const deliveries = receiving.map(row => {
+        const batch: Batch = {
+          id: crypto.randomUUID(),
+          medicineId: row.medicineId,
+          batchNumber: row.batchNumber.trim(),
+          expiryDate: new Date(row.expiryDate),
+          mrp: row.mrp,
+          purchasePrice: row.purchasePrice,
+          sellingPrice: row.sellingPrice || row.mrp,
+          currentStock: row.quantity,
+          supplierId: order.supplierId,
+          receivedDate
+        };
+        return { itemId: row.itemId, batch };
+      });
+
+      const updated = await PurchaseOrderService.receive(order.id, deliveries);
+      addNotification(
+        'success',
+        updated.status === 'RECEIVED'
+          ? `${order.orderNumber} fully received`
+          : `${order.orderNumber} partially received`
+      );
+      onReceived();
+    } catch (error) {
+      console.error('Error receiving purchase order:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to receive stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+              <PackageCheck className="w-5 h-5 text-green-600" />
+              <span>Receive Stock</span>
+            </h2>
+            <p className="text-sm text-gray-600 font-mono">{order.orderNumber}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-3 text-left font-medium text-gray-600">Medicine</th>
+                <th className="px-3 py-3 text-right font-medium text-gray-600">Pending</th>
+                <th className="px-3 py-3 text-left font-medium text-gray-600">Received</th>
+                <th className="px-3 py-3 text-left font-medium text-gray-600">Batch No.</th>
+                <th className="px-3 py-3 text-left font-medium text-gray-600">Expiry</th>
+                <th className="px-3 py-3 text-left font-medium text-gray-600">MRP</th>
+                <th className="px-3 py-3 text-left font-medium text-gray-600">Purchase</th>
+                <th className="px-3 py-3 text-left font-medium text-gray-600">Selling</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map((row) => (
+                <tr key={row.itemId}>
+                  <td className="px-3 py-2 font-medium text-gray-900">{row.medicineName}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{row.outstanding}</td>
+                  <td className="px-3 py-2 w-24">
+                    <input
+                      type="number"
+                      min="0"
+                      value={row.quantity}
+                      onChange={(e) => updateRow(row.itemId, { quantity: Math.max(parseInt(e.target.value) || 0, 0) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      value={row.batchNumber}
+                      onChange={(e) => updateRow(row.itemId, { batchNumber: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="date"
+                      value={row.expiryDate}
+                      onChange={(e) => updateRow(row.itemId, { expiryDate: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-2 w-24">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={row.mrp}
+                      onChange={(e) => updateRow(row.itemId, { mrp: parseFloat(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-2 w-24">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={row.purchasePrice}
+                      onChange={(e) => updateRow(row.itemId, { purchasePrice: parseFloat(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-2 w-24">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={row.sellingPrice}
+                      onChange={(e) => updateRow(row.itemId, { sellingPrice: parseFloat(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleReceive}
+            disabled={saving}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <PackageCheck className="w-4 h-4" />
+            <span>{saving ? 'Receiving...' : 'Receive into Stock'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
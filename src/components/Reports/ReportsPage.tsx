@@ -0,0 +1,206 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Download, Calendar, RefreshCw, FileSpreadsheet } from 'lucide-react';
+import { ReportsService, Report, ReportType } from '../../services/reports';
+import { usePharmacyStore } from '../../store';
+import { downloadBlob } from '../../utils/download';
+import { format, startOfMonth } from 'date-fns';
+
+const REPORT_OPTIONS: Array<{ type: ReportType; label: string; description: string }> = [
+  { type: 'daily-sales', label: 'Daily Sales', description: 'Invoices, discount, GST and net takings per day' },
+  { type: 'monthly-sales', label: 'Monthly Sales', description: 'Invoices, discount, GST and net takings per month' },
+  { type: 'payment-methods', label: 'Payment Methods', description: 'Takings split by cash, card, UPI and credit' },
+  { type: 'gst-summary', label: 'GST Summary', description: 'Taxable value with CGST/SGST split per rate' },
+  { type: 'margin', label: 'Gross Margin', description: 'Revenue against purchase cost per medicine' },
+  { type: 'stock-valuation', label: 'Stock Valuation', description: 'Closing stock at cost and at MRP' }
+];
+
+export const ReportsPage: React.FC = () => {
+  const [reportType, setReportType] = useState<ReportType>('daily-sales');
+  const [fromDate, setFromDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadReport();
+  }, [reportType, fromDate, toDate]);
+
+  const getRange = () => {
+    const from = new Date(`${fromDate}T00:00:00`);
+    const to = new Date(`${toDate}T23:59:59.999`);
+    return { from, to };
+  };
+
+  const loadReport = async () => {
+    const { from, to } = getRange();
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      setReport(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setReport(await ReportsService.generate(reportType, from, to));
+    } catch (error) {
+      console.error('Error generating report:', error);
+      addNotification('error', 'Failed to generate report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportReport = (kind: 'csv' | 'pdf') => {
+    if (!report) return;
+
+    const filename = `${reportType}-${fromDate}-to-${toDate}.${kind}`;
+    const blob = kind === 'csv' ? ReportsService.toCSV(report) : ReportsService.toPDF(report);
+    downloadBlob(blob, filename);
+  };
+
+  const formatCell = (cell: string | number) =>
+    typeof cell === 'number' && !Number.isInteger(cell) ? cell.toFixed(2) : cell;
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+            <FileText className="w-6 h-6 text-purple-600" />
+            <span>Reports</span>
+          </h1>
+          <p className="text-gray-600">Sales, tax, margin and stock reports for any period</p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => exportReport('csv')}
+            disabled={!report || report.rows.length === 0}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Export CSV
+          </button>
+          <button
+            onClick={() => exportReport('pdf')}
+            disabled={!report || report.rows.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            Export PDF
+          </button>
+        </div>
+      </div>
+
+      {/* Report Selection */}
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        {REPORT_OPTIONS.map((option) => (
+          <button
+            key={option.type}
+            onClick={() => setReportType(option.type)}
+            className={`text-left bg-white border rounded-lg p-4 transition-shadow ${
+              reportType === option.type ? 'border-blue-500 ring-2 ring-blue-500 shadow-md' : 'border-gray-200 hover:shadow-sm'
+            }`}
+          >
+            <p className="font-medium text-gray-900">{option.label}</p>
+            <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+          </button>
+        ))}
+      </div>
+
+      {/* Date Range */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Calendar className="w-4 h-4 inline mr-1" />
+              From
+            </label>
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Calendar className="w-4 h-4 inline mr-1" />
+              To
+            </label>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            onClick={loadReport}
+            className="flex items-center justify-center space-x-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span>Refresh</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Report Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">{report?.title || 'Report'}</h2>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Generating report...</p>
+          </div>
+        ) : !report || report.rows.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No data for the selected period</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {report.columns.map((column, index) => (
+                    <th key={column} className={`px-4 py-3 font-medium text-gray-600 ${index === 0 ? 'text-left' : 'text-right'}`}>
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {report.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="hover:bg-gray-50">
+                    {row.map((cell, index) => (
+                      <td key={index} className={`px-4 py-3 ${index === 0 ? 'text-left font-medium text-gray-900' : 'text-right text-gray-700'}`}>
+                        {formatCell(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              {report.totals && (
+                <tfoot className="bg-gray-50 border-t-2 border-gray-300">
+                  <tr>
+                    {report.totals.map((cell, index) => (
+                      <td key={index} className={`px-4 py-3 font-semibold text-gray-900 ${index === 0 ? 'text-left' : 'text-right'}`}>
+                        {formatCell(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { RotateCcw, Search, FileText, CheckCircle } from 'lucide-react';
+import { CreditNote, Sale } from '../../types';
+import { ReturnsService } from '../../services/returns';
+import { InvoiceService } from '../../services/invoice';
+import { usePharmacyStore } from '../../store';
+import { openBlob } from '../../utils/download';
+import { format } from 'date-fns';
+
+export const ReturnsPage: React.FC = () => {
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [sale, setSale] = useState<Sale | null>(null);
+  const [returned, setReturned] = useState<Map<string, number>>(new Map());
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  const loadSale = async (found: Sale) => {
+    const [returnedQuantities, notes] = await Promise.all([
+      ReturnsService.getReturnedQuantities(found.id),
+      ReturnsService.getCreditNotes(found.id)
+    ]);
+    setSale(found);
+    setReturned(returnedQuantities);
+    setCreditNotes(notes);
+    setQuantities({});
+    setReason('');
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invoiceNumber.trim()) return;
+
+    setSearching(true);
+    try {
+      const found = await ReturnsService.findSale(invoiceNumber);
+      if (!found) {
+        setSale(null);
+        addNotification('error', `No sale found with invoice ${invoiceNumber.trim()}`);
+        return;
+      }
+      await loadSale(found);
+    } catch (error) {
+      console.error('Error looking up sale:', error);
+      addNotification('error', 'Failed to look up sale');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const printCreditNote = async (note: CreditNote) => {
+    try {
+      openBlob(await InvoiceService.generateCreditNote(note));
+    } catch (error) {
+      console.error('Error generating credit note:', error);
+      addNotification('error', 'Failed to generate credit note');
+    }
+  };
+
+  const handleReturn = async () => {
+    if (!sale) return;
+
+    setProcessing(true);
+    try {
+      const note = await ReturnsService.processReturn(
+        sale.id,
+        Object.entries(quantities).map(([saleItemId, quantity]) => ({ saleItemId, quantity })),
+        reason
+      );
+      addNotification('success', `Credit note ${note.creditNoteNumber} issued for ₹${note.totalAmount.toFixed(2)}`);
+      await loadSale(sale);
+    } catch (error) {
+      console.error('Error processing return:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to process return');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const selectedCount = Object.values(quantities).filter(quantity => quantity > 0).length;
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+          <RotateCcw className="w-6 h-6 text-orange-600" />
+          <span>Sales Returns</span>
+        </h1>
+        <p className="text-gray-600">Take back sold items, restock the original batch and issue a credit note</p>
+      </div>
+
+      {/* Invoice Lookup */}
+      <form onSubmit={handleSearch} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Invoice Number</label>
+        <div className="flex space-x-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              value={invoiceNumber}
+              onChange={(e) => setInvoiceNumber(e.target.value)}
+              placeholder="e.g. INV-26-27/00001"
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={searching || !invoiceNumber.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {searching ? 'Searching...' : 'Find Sale'}
+          </button>
+        </div>
+      </form>
+
+      {sale && (
+        <>
+          {/* Sale Lines */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-6 border-b border-gray-200 flex justify-between items-start">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 font-mono">{sale.invoiceNumber}</h2>
+                <p className="text-sm text-gray-600">
+                  {format(new Date(sale.saleDate), 'dd MMM yyyy HH:mm')} · {sale.customerName || 'Walk-in Customer'} · {sale.paymentMethod}
+                </p>
+              </div>
+              <p className="text-lg font-semibold text-gray-900">₹{sale.totalAmount.toFixed(2)}</p>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium text-gray-600">Medicine</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-600">Batch</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-600">Sold</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-600">Returned</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-600">Rate</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-600">Return Qty</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {sale.items.map((item) => {
+                    const alreadyReturned = returned.get(item.id) || 0;
+                    const returnable = item.quantity - alreadyReturned;
+                    return (
+                      <tr key={item.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 font-medium text-gray-900">{item.medicineName}</td>
+                        <td className="px-4 py-3 text-gray-700">{item.batchNumber}</td>
+                        <td className="px-4 py-3 text-right text-gray-700">{item.quantity}</td>
+                        <td className="px-4 py-3 text-right text-gray-700">{alreadyReturned}</td>
+                        <td className="px-4 py-3 text-right text-gray-700">₹{item.unitPrice.toFixed(2)}</td>
+                        <td className="px-4 py-3 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            max={returnable}
+                            disabled={returnable === 0}
+                            value={quantities[item.id] ?? 0}
+                            onChange={(e) => {
+                              const quantity = Math.min(Math.max(parseInt(e.target.value) || 0, 0), returnable);
+                              setQuantities(prev => ({ ...prev, [item.id]: quantity }));
+                            }}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-right disabled:bg-gray-100"
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex flex-col md:flex-row md:items-end gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Unopened strip, wrong medicine"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <button
+                onClick={handleReturn}
+                disabled={processing || selectedCount === 0}
+                className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>{processing ? 'Processing...' : 'Issue Credit Note'}</span>
+              </button>
+            </div>
+          </div>
+
+          {/* Credit Notes */}
+          {creditNotes.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Credit Notes</h2>
+              <div className="divide-y divide-gray-200">
+                {creditNotes.map((note) => (
+                  <div key={note.id} className="py-3 flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <CheckCircle className="w-5 h-5 text-green-600" />
+                      <div>
+                        <p className="font-mono font-medium text-gray-900">{note.creditNoteNumber}</p>
+                        <p className="text-xs text-gray-500">
+                          {format(new Date(note.createdAt), 'dd MMM yyyy HH:mm')} · {note.items.reduce((sum, item) => sum + item.quantity, 0)} units
+                          {note.reason && ` · ${note.reason}`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      <span className="font-medium text-gray-900">₹{note.totalAmount.toFixed(2)}</span>
+                      <button
+                        onClick={() => printCreditNote(note)}
+                        className="flex items-center space-x-1 px-2 py-1 text-blue-600 hover:bg-blue-50 rounded"
+                      >
+                        <FileText className="w-4 h-4" />
+                        <span>Print</span>
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
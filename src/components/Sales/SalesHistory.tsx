@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { Receipt, Search, Printer, FileText, Calendar } from 'lucide-react';
+import { db } from '../../database';
+import { Sale } from '../../types';
+import { InvoiceService } from '../../services/invoice';
+import { usePharmacyStore } from '../../store';
+import { openBlob } from '../../utils/download';
+import { PrescriptionViewer } from '../Prescriptions/PrescriptionViewer';
+import { format, startOfMonth } from 'date-fns';
+
+export const SalesHistory: React.FC = () => {
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [fromDate, setFromDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [printingId, setPrintingId] = useState<string | null>(null);
+  const [viewingPrescriptionId, setViewingPrescriptionId] = useState<string | null>(null);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadSales();
+  }, [fromDate, toDate]);
+
+  const loadSales = async () => {
+    const from = new Date(`${fromDate}T00:00:00`);
+    const to = new Date(`${toDate}T23:59:59.999`);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      setSales([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const results = await db.sales
+        .where('saleDate')
+        .between(from, to, true, true)
+        .reverse()
+        .sortBy('saleDate');
+      setSales(results);
+    } catch (error) {
+      console.error('Error loading sales:', error);
+      addNotification('error', 'Failed to load sales history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const printInvoice = async (sale: Sale, layout: 'a4' | 'thermal') => {
+    setPrintingId(sale.id);
+    try {
+      const blob = layout === 'a4'
+        ? await InvoiceService.generateA4(sale)
+        : await InvoiceService.generateThermal(sale);
+      openBlob(blob);
+    } catch (error) {
+      console.error('Error generating invoice:', error);
+      addNotification('error', 'Failed to generate invoice');
+    } finally {
+      setPrintingId(null);
+    }
+  };
+
+  const filteredSales = sales.filter(sale => {
+    const query = searchQuery.toLowerCase();
+    return !query ||
+      sale.invoiceNumber.toLowerCase().includes(query) ||
+      sale.customerName?.toLowerCase().includes(query) ||
+      sale.customerPhone?.includes(query);
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+          <Receipt className="w-6 h-6 text-green-600" />
+          <span>Sales History</span>
+        </h1>
+        <p className="text-gray-600">Completed sales with invoice reprint</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Search className="w-4 h-4 inline mr-1" />
+              Invoice / Customer
+            </label>
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Invoice number, name or phone"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Calendar className="w-4 h-4 inline mr-1" />
+              From
+            </label>
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Calendar className="w-4 h-4 inline mr-1" />
+              To
+            </label>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Sales Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading sales...</p>
+          </div>
+        ) : filteredSales.length === 0 ? (
+          <div className="text-center py-12">
+            <Receipt className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No sales found for the selected period</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Invoice</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Date</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Customer</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-600">Items</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Payment</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-600">Total</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-600">Reprint</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredSales.map((sale) => (
+                  <tr key={sale.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 font-mono text-gray-900">{sale.invoiceNumber}</td>
+                    <td className="px-4 py-3 text-gray-700">{format(new Date(sale.saleDate), 'dd MMM yyyy HH:mm')}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {sale.customerName || 'Walk-in Customer'}
+                      {sale.customerPhone && <p className="text-xs text-gray-500">{sale.customerPhone}</p>}
+                      {sale.prescriptionId ? (
+                        <button
+                          onClick={() => setViewingPrescriptionId(sale.prescriptionId!)}
+                          className="text-xs text-blue-600 hover:underline flex items-center space-x-1"
+                        >
+                          <FileText className="w-3 h-3" />
+                          <span>Rx {sale.prescriptionNumber}</span>
+                        </button>
+                      ) : sale.prescriptionNumber && (
+                        <p className="text-xs text-gray-500">Rx {sale.prescriptionNumber}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-700">{sale.items.length}</td>
+                    <td className="px-4 py-3 text-gray-700">{sale.paymentMethod}</td>
+                    <td className="px-4 py-3 text-right font-medium text-gray-900">₹{sale.totalAmount.toFixed(2)}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => printInvoice(sale, 'a4')}
+                          disabled={printingId === sale.id}
+                          className="flex items-center space-x-1 px-2 py-1 text-blue-600 hover:bg-blue-50 rounded disabled:text-gray-400"
+                          title="A4 tax invoice"
+                        >
+                          <FileText className="w-4 h-4" />
+                          <span>A4</span>
+                        </button>
+                        <button
+                          onClick={() => printInvoice(sale, 'thermal')}
+                          disabled={printingId === sale.id}
+                          className="flex items-center space-x-1 px-2 py-1 text-green-600 hover:bg-green-50 rounded disabled:text-gray-400"
+                          title="80mm receipt"
+                        >
+                          <Printer className="w-4 h-4" />
+                          <span>Receipt</span>
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {viewingPrescriptionId && (
+        <PrescriptionViewer prescriptionId={viewingPrescriptionId} onClose={() => setViewingPrescriptionId(null)} />
+      )}
+    </div>
+  );
+};
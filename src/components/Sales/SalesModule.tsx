@@ -1,11 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Plus, ShoppingCart, Trash2, Calculator, Package } from 'lucide-react';
+import { Search, Plus, ShoppingCart, Trash2, Calculator, Package, Printer, FileText, MapPin, Paperclip, X } from 'lucide-react';
 import { db } from '../../database';
-import { Medicine, Batch, Sale, SaleItem } from '../../types';
+import { Medicine, Batch, Sale, Customer, Prescription } from '../../types';
 import { FEFOService } from '../../services/fefo';
 import { AuditService } from '../../services/audit';
-import { ScheduleH1Service } from '../../services/scheduleH1';
+import { CheckoutService, PRESCRIPTION_FIELD_LABELS } from '../../services/checkout';
+import { CustomerService } from '../../services/customers';
+import { InvoiceService } from '../../services/invoice';
+import { MAX_UNAPPROVED_DISCOUNT, OverrideApproval, Permission, PermissionError, PermissionService } from '../../services/permissions';
 import { usePharmacyStore } from '../../store';
+import { openBlob } from '../../utils/download';
+import { formatStorageLocation } from '../../utils/location';
+import { OverrideModal } from '../Auth/OverrideModal';
+import { PrescriptionModal } from '../Prescriptions/PrescriptionModal';
+import { PrescriptionViewer } from '../Prescriptions/PrescriptionViewer';
 import { format } from 'date-fns';
 
 export const SalesModule: React.FC = () => {
@@ -15,11 +23,21 @@ export const SalesModule: React.FC = () => {
   const [customerPhone, setCustomerPhone] = useState('');
   const [prescriptionNumber, setPrescriptionNumber] = useState('');
   const [doctorName, setDoctorName] = useState('');
+  const [doctorRegistrationNumber, setDoctorRegistrationNumber] = useState('');
+  const [patientAddress, setPatientAddress] = useState('');
+  const [duplicateCopyReference, setDuplicateCopyReference] = useState('');
+  const [prescription, setPrescription] = useState<Prescription | null>(null);
+  const [showPrescriptionModal, setShowPrescriptionModal] = useState(false);
+  const [viewingPrescription, setViewingPrescription] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<'CASH' | 'CARD' | 'UPI' | 'CREDIT'>('CASH');
   const [discount, setDiscount] = useState(0);
   const [processing, setProcessing] = useState(false);
   const [showRestockPrompt, setShowRestockPrompt] = useState(false);
   const [completedSaleItems, setCompletedSaleItems] = useState<any[]>([]);
+  const [completedSale, setCompletedSale] = useState<Sale | null>(null);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  // Checkout waiting on an approval, with the approvals already given for this sale
+  const [pendingApproval, setPendingApproval] = useState<{ permission: Permission; approvals: OverrideApproval[] } | null>(null);
   
   const { addNotification, cartItems, addToCart, removeFromCart, clearCart } = usePharmacyStore();
 
@@ -31,6 +49,29 @@ export const SalesModule: React.FC = () => {
     }
   }, [searchQuery]);
 
+  useEffect(() => {
+    if (CustomerService.normalizePhone(customerPhone).length >= 10) {
+      lookupCustomer();
+    } else {
+      setCustomer(null);
+    }
+  }, [customerPhone]);
+
+  const lookupCustomer = async () => {
+    try {
+      const found = await CustomerService.findByPhone(customerPhone);
+      setCustomer(found || null);
+      if (found && !customerName) {
+        setCustomerName(found.name);
+      }
+      if (found?.address && !patientAddress) {
+        setPatientAddress(found.address);
+      }
+    } catch (error) {
+      console.error('Error looking up customer:', error);
+    }
+  };
+
   const searchMedicines = async () => {
     try {
       const results = await db.medicines
@@ -80,88 +121,46 @@ export const SalesModule: React.FC = () => {
     }
   };
 
-  const calculateTotals = () => {
-    const subtotal = cartItems.reduce((sum, item) => sum + (item.quantity * item.batch.sellingPrice), 0);
-    const discountAmount = (subtotal * discount) / 100;
-    const gstAmount = cartItems.reduce((sum, item) => {
-      const itemTotal = (item.quantity * item.batch.sellingPrice) - ((item.quantity * item.batch.sellingPrice) * discount / 100);
-      return sum + (itemTotal * item.medicine.gst / 100);
-    }, 0);
-    const total = subtotal - discountAmount + gstAmount;
+  const calculateTotals = () => CheckoutService.calculateTotals(cartItems, discount);
 
-    return { subtotal, discountAmount, gstAmount, total };
-  };
+  const requiredPrescriptionFields = CheckoutService.requiredPrescriptionFields(cartItems);
+  const missingPrescriptionFields = CheckoutService.missingPrescriptionFields({
+    items: cartItems,
+    customerName,
+    prescriptionNumber,
+    doctorName,
+    doctorRegistrationNumber,
+    patientAddress,
+    duplicateCopyReference
+  });
 
-  const processSale = async () => {
+  const processSale = async (approvals: OverrideApproval[] = []) => {
     if (cartItems.length === 0) {
       addNotification('error', 'Cart is empty');
       return;
     }
+    if (missingPrescriptionFields.length > 0) {
+      addNotification('error', `Enter the prescription details first: ${missingPrescriptionFields.map(field => PRESCRIPTION_FIELD_LABELS[field]).join(', ')}`);
+      return;
+    }
 
     setProcessing(true);
 
     try {
-      const { subtotal, discountAmount, gstAmount, total } = calculateTotals();
-      const invoiceNumber = `INV-${Date.now()}`;
-
-      // Create sale items
-      const saleItems: SaleItem[] = cartItems.map(item => ({
-        id: crypto.randomUUID(),
-        medicineId: item.medicine.id,
-        medicineName: item.medicine.brandName,
-        batchId: item.batch.id,
-        batchNumber: item.batch.batchNumber,
-        quantity: item.quantity,
-        unitPrice: item.batch.sellingPrice,
-        totalPrice: item.quantity * item.batch.sellingPrice,
-        gstAmount: (item.totalPrice * item.medicine.gst) / 100
-      }));
-
-      // Create sale record
-      const sale: Sale = {
-        id: crypto.randomUUID(),
-        invoiceNumber,
-        customerName: customerName || undefined,
-        customerPhone: customerPhone || undefined,
-        prescriptionId: prescriptionNumber || undefined,
-        items: saleItems,
-        totalAmount: total,
-        gstAmount,
-        discountAmount,
+      const sale = await CheckoutService.checkout({
+        items: cartItems,
+        discountPercent: discount,
         paymentMethod,
-        saleDate: new Date(),
-        pharmacistId: 'system-user'
-      };
-
-      // Save sale
-      await db.sales.add(sale);
-
-      // Update stock levels
-      for (const item of cartItems) {
-        const batch = await db.batches.get(item.batch.id);
-        if (batch) {
-          await db.batches.update(item.batch.id, {
-            currentStock: batch.currentStock - item.quantity
-          });
-        }
-      }
-
-      // Add Schedule H1 entries if needed
-      for (const item of cartItems) {
-        if (item.medicine.scheduleType === 'H1') {
-          await ScheduleH1Service.addEntry({
-            medicineId: item.medicine.id,
-            medicineName: item.medicine.brandName,
-            batchNumber: item.batch.batchNumber,
-            customerName: customerName || 'Walk-in Customer',
-            doctorName: doctorName || 'Not specified',
-            prescriptionNumber: prescriptionNumber || 'Not provided',
-            quantityDispensed: item.quantity,
-            dispensedDate: new Date(),
-            pharmacistSignature: 'System'
-          });
-        }
-      }
+        customerName,
+        customerPhone,
+        prescriptionNumber,
+        doctorName,
+        doctorRegistrationNumber,
+        patientAddress,
+        duplicateCopyReference,
+        prescriptionId: prescription?.id,
+        approvals
+      });
 
       // Clear form
       clearCart();
@@ -177,22 +176,42 @@ export const SalesModule: React.FC = () => {
       
       setCustomerName('');
       setCustomerPhone('');
+      setCustomer(null);
       setPrescriptionNumber('');
       setDoctorName('');
+      setDoctorRegistrationNumber('');
+      setPatientAddress('');
+      setDuplicateCopyReference('');
+      setPrescription(null);
       setDiscount(0);
 
-      addNotification('success', `Sale completed! Invoice: ${invoiceNumber}`);
+      setCompletedSale(sale);
+      addNotification('success', `Sale completed! Invoice: ${sale.invoiceNumber}`);
       
       // Show restock prompt
       setShowRestockPrompt(true);
     } catch (error) {
+      if (error instanceof PermissionError) {
+        setPendingApproval({ permission: error.permission, approvals });
+        return;
+      }
       console.error('Error processing sale:', error);
-      addNotification('error', 'Failed to process sale');
+      addNotification('error', error instanceof Error ? error.message : 'Failed to process sale');
     } finally {
       setProcessing(false);
     }
   };
 
+  const attachPrescription = (attached: Prescription) => {
+    setPrescription(attached);
+    setPrescriptionNumber(attached.prescriptionNumber);
+    setDoctorName(attached.doctorName);
+    setDoctorRegistrationNumber(attached.doctorRegistrationNumber || '');
+    if (attached.patientAddress) setPatientAddress(attached.patientAddress);
+    if (!customerName) setCustomerName(attached.patientName);
+    setShowPrescriptionModal(false);
+  };
+
   const handleAddToRestock = () => {
     // Store items in localStorage for restock page to pick up
     const restockItems = completedSaleItems
@@ -216,6 +235,20 @@ export const SalesModule: React.FC = () => {
     setCompletedSaleItems([]);
   };
 
+  const printInvoice = async (layout: 'a4' | 'thermal') => {
+    if (!completedSale) return;
+
+    try {
+      const blob = layout === 'a4'
+        ? await InvoiceService.generateA4(completedSale)
+        : await InvoiceService.generateThermal(completedSale);
+      openBlob(blob);
+    } catch (error) {
+      console.error('Error generating invoice:', error);
+      addNotification('error', 'Failed to generate invoice');
+    }
+  };
+
   const { subtotal, discountAmount, gstAmount, total } = calculateTotals();
 
   return (
@@ -295,6 +328,10 @@ export const SalesModule: React.FC = () => {
                     <div className="flex-1">
                       <h3 className="font-medium text-gray-900">{item.medicine.brandName}</h3>
                       <p className="text-sm text-gray-600">Batch: {item.batch.batchNumber}</p>
+                      <p className="text-sm text-gray-600 flex items-center">
+                        <MapPin className="w-3 h-3 mr-1" />
+                        {formatStorageLocation(item.batch.storageLocation)}
+                      </p>
                       <p className="text-sm text-gray-600">
                         Exp: {format(new Date(item.batch.expiryDate), 'MMM yyyy')}
                       </p>
@@ -340,13 +377,14 @@ export const SalesModule: React.FC = () => {
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Customer Name
+                  {requiredPrescriptionFields.has('customerName') && <span className="text-red-500"> *</span>}
                 </label>
                 <input
                   type="text"
                   value={customerName}
                   onChange={(e) => setCustomerName(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Optional"
+                  placeholder={requiredPrescriptionFields.has('customerName') ? 'Patient named on the prescription' : 'Optional'}
                 />
               </div>
               
@@ -359,13 +397,72 @@ export const SalesModule: React.FC = () => {
                   value={customerPhone}
                   onChange={(e) => setCustomerPhone(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Optional"
+                  placeholder={paymentMethod === 'CREDIT' ? 'Required for credit sales' : 'Optional'}
                 />
+                {customer ? (
+                  <p className="mt-1 text-xs text-gray-600">
+                    Registered customer
+                    {customer.creditBalance > 0 && (
+                      <span className="text-orange-600 font-medium"> · ₹{customer.creditBalance.toFixed(2)} due</span>
+                    )}
+                  </p>
+                ) : CustomerService.normalizePhone(customerPhone).length >= 10 && (
+                  <p className="mt-1 text-xs text-gray-500">New customer will be registered with this sale</p>
+                )}
               </div>
+
+              {requiredPrescriptionFields.has('patientAddress') && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Patient Address<span className="text-red-500"> *</span>
+                  </label>
+                  <textarea
+                    value={patientAddress}
+                    onChange={(e) => setPatientAddress(e.target.value)}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="As written on the prescription"
+                  />
+                </div>
+              )}
               
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Prescription</label>
+                {prescription ? (
+                  <div className="flex items-center justify-between px-3 py-2 bg-blue-50 border border-blue-200 rounded-lg text-sm">
+                    <button
+                      type="button"
+                      onClick={() => setViewingPrescription(true)}
+                      className="text-blue-700 hover:underline flex items-center space-x-1 text-left"
+                    >
+                      <FileText className="w-4 h-4 flex-shrink-0" />
+                      <span>{prescription.prescriptionNumber} · {prescription.patientName}</span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setPrescription(null)}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Detach prescription"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setShowPrescriptionModal(true)}
+                    className="w-full px-3 py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-blue-400 hover:text-blue-600 flex items-center justify-center space-x-2 transition-colors"
+                  >
+                    <Paperclip className="w-4 h-4" />
+                    <span>Attach prescription</span>
+                  </button>
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Prescription Number
+                  {requiredPrescriptionFields.has('prescriptionNumber') && <span className="text-red-500"> *</span>}
                 </label>
                 <input
                   type="text"
@@ -379,15 +476,47 @@ export const SalesModule: React.FC = () => {
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Doctor Name
+                  {requiredPrescriptionFields.has('doctorName') && <span className="text-red-500"> *</span>}
                 </label>
                 <input
                   type="text"
                   value={doctorName}
                   onChange={(e) => setDoctorName(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="For Schedule H1 medicines"
+                  placeholder="For Schedule H1/X medicines"
                 />
               </div>
+
+              {requiredPrescriptionFields.has('doctorRegistrationNumber') && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Doctor Registration Number<span className="text-red-500"> *</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={doctorRegistrationNumber}
+                    onChange={(e) => setDoctorRegistrationNumber(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Medical council registration"
+                  />
+                </div>
+              )}
+
+              {requiredPrescriptionFields.has('duplicateCopyReference') && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Duplicate Copy Filed As<span className="text-red-500"> *</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={duplicateCopyReference}
+                    onChange={(e) => setDuplicateCopyReference(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="e.g. Schedule X file 2024/014"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Schedule X prescriptions are kept in duplicate for two years</p>
+                </div>
+              )}
             </div>
           </div>
 
@@ -424,6 +553,9 @@ export const SalesModule: React.FC = () => {
                   onChange={(e) => setDiscount(parseFloat(e.target.value) || 0)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
+                {discount > MAX_UNAPPROVED_DISCOUNT && !PermissionService.canCurrentUser('discount.above10') && (
+                  <p className="mt-1 text-xs text-yellow-700">Discounts above {MAX_UNAPPROVED_DISCOUNT}% need approval</p>
+                )}
               </div>
 
               {/* Bill Summary */}
@@ -446,9 +578,15 @@ export const SalesModule: React.FC = () => {
                 </div>
               </div>
 
+              {missingPrescriptionFields.length > 0 && (
+                <p className="text-xs text-red-600">
+                  Scheduled medicines need: {missingPrescriptionFields.map(field => PRESCRIPTION_FIELD_LABELS[field]).join(', ')}
+                </p>
+              )}
+
               <button
-                onClick={processSale}
-                disabled={cartItems.length === 0 || processing}
+                onClick={() => processSale()}
+                disabled={cartItems.length === 0 || processing || missingPrescriptionFields.length > 0}
                 className="w-full bg-green-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
               >
                 {processing ? (
@@ -465,6 +603,42 @@ export const SalesModule: React.FC = () => {
         </div>
       </div>
 
+      {showPrescriptionModal && (
+        <PrescriptionModal
+          defaults={{
+            patientName: customerName,
+            patientAddress,
+            doctorName,
+            doctorRegistrationNumber,
+            prescriptionNumber,
+            items: cartItems
+              .filter((item, index) => cartItems.findIndex(other => other.medicine.id === item.medicine.id) === index)
+              .map(item => ({ medicineId: item.medicine.id, name: item.medicine.brandName }))
+          }}
+          onAttached={attachPrescription}
+          onClose={() => setShowPrescriptionModal(false)}
+        />
+      )}
+
+      {viewingPrescription && prescription && (
+        <PrescriptionViewer prescriptionId={prescription.id} onClose={() => setViewingPrescription(false)} />
+      )}
+
+      {pendingApproval && (
+        <OverrideModal
+          permission={pendingApproval.permission}
+          reason={pendingApproval.permission === 'discount.above10'
+            ? `${discount}% discount on a ₹${subtotal.toFixed(2)} bill`
+            : `Schedule H1 items for ${customerName || 'Walk-in Customer'}`}
+          onClose={() => setPendingApproval(null)}
+          onApproved={(approval) => {
+            const approvals = [...pendingApproval.approvals, approval];
+            setPendingApproval(null);
+            processSale(approvals);
+          }}
+        />
+      )}
+
       {/* Restock Prompt Modal */}
       {showRestockPrompt && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -475,9 +649,33 @@ export const SalesModule: React.FC = () => {
               </div>
               <div>
                 <h3 className="text-lg font-semibold text-gray-900">Restock Suggestion</h3>
-                <p className="text-sm text-gray-600">Sale completed successfully!</p>
+                <p className="text-sm text-gray-600">
+                  Sale completed successfully!{completedSale && ` Invoice: ${completedSale.invoiceNumber}`}
+                </p>
               </div>
             </div>
+
+            {completedSale && (
+              <div className="flex items-center justify-between mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+                <span className="text-sm font-medium text-green-900">Print invoice for the customer</span>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => printInvoice('a4')}
+                    className="px-3 py-2 bg-white border border-green-300 text-green-700 rounded-lg hover:bg-green-100 transition-colors flex items-center space-x-2 text-sm"
+                  >
+                    <FileText className="w-4 h-4" />
+                    <span>A4 Invoice</span>
+                  </button>
+                  <button
+                    onClick={() => printInvoice('thermal')}
+                    className="px-3 py-2 bg-white border border-green-300 text-green-700 rounded-lg hover:bg-green-100 transition-colors flex items-center space-x-2 text-sm"
+                  >
+                    <Printer className="w-4 h-4" />
+                    <span>Receipt</span>
+                  </button>
+                </div>
+              </div>
+            )}
             
             <div className="mb-6">
               <p className="text-gray-700 mb-3">
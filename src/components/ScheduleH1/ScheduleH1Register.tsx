@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { Shield, Download, Search, Calendar, RefreshCw, User, Stethoscope, FileText } from 'lucide-react';
+import { ScheduleH1Entry } from '../../types';
+import { ScheduleH1Service } from '../../services/scheduleH1';
+import { usePharmacyStore } from '../../store';
+import { downloadBlob } from '../../utils/download';
+import { PrescriptionViewer } from '../Prescriptions/PrescriptionViewer';
+import { format } from 'date-fns';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export const ScheduleH1Register: React.FC = () => {
+  const today = new Date();
+  const [month, setMonth] = useState(today.getMonth() + 1);
+  const [year, setYear] = useState(today.getFullYear());
+  const [entries, setEntries] = useState<ScheduleH1Entry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const [medicineFilter, setMedicineFilter] = useState('');
+  const [doctorFilter, setDoctorFilter] = useState('');
+  const [customerFilter, setCustomerFilter] = useState('');
+  const [viewingPrescriptionId, setViewingPrescriptionId] = useState<string | null>(null);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadEntries();
+  }, [month, year]);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    try {
+      const monthlyEntries = await ScheduleH1Service.getMonthlyEntries(month, year);
+      setEntries(monthlyEntries);
+    } catch (error) {
+      console.error('Error loading Schedule H1 entries:', error);
+      addNotification('error', 'Failed to load Schedule H1 register');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadReport = async () => {
+    setDownloading(true);
+    try {
+      const blob = await ScheduleH1Service.generateMonthlyReport(month, year);
+      downloadBlob(blob, `schedule-h1-register-${year}-${String(month).padStart(2, '0')}.pdf`);
+    } catch (error) {
+      console.error('Error generating Schedule H1 report:', error);
+      addNotification('error', 'Failed to generate Schedule H1 report');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const filteredEntries = entries.filter(entry =>
+    entry.medicineName.toLowerCase().includes(medicineFilter.toLowerCase()) &&
+    entry.doctorName.toLowerCase().includes(doctorFilter.toLowerCase()) &&
+    entry.customerName.toLowerCase().includes(customerFilter.toLowerCase())
+  );
+
+  const totalQuantity = filteredEntries.reduce((sum, entry) => sum + entry.quantityDispensed, 0);
+  const years = Array.from({ length: 5 }, (_, i) => today.getFullYear() - i);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+            <Shield className="w-6 h-6 text-red-600" />
+            <span>Schedule H1 Register</span>
+          </h1>
+          <p className="text-gray-600">As per Rule 65(15) of Drugs Rules, 1945</p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={loadEntries}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </button>
+          <button
+            onClick={downloadReport}
+            disabled={downloading}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            {downloading ? 'Generating...' : 'Download PDF'}
+          </button>
+        </div>
+      </div>
+
+      {/* Period & Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="relative">
+            <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <select
+              value={month}
+              onChange={(e) => setMonth(parseInt(e.target.value))}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none"
+            >
+              {MONTHS.map((label, index) => (
+                <option key={label} value={index + 1}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <select
+            value={year}
+            onChange={(e) => setYear(parseInt(e.target.value))}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {years.map(y => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Medicine..."
+              value={medicineFilter}
+              onChange={(e) => setMedicineFilter(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="relative">
+            <Stethoscope className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Doctor..."
+              value={doctorFilter}
+              onChange={(e) => setDoctorFilter(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="relative">
+            <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Customer..."
+              value={customerFilter}
+              onChange={(e) => setCustomerFilter(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Register */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {MONTHS[month - 1]} {year} ({filteredEntries.length} entries)
+          </h2>
+          <p className="text-sm text-gray-600">Total dispensed: {totalQuantity} units</p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading register...</p>
+          </div>
+        ) : filteredEntries.length === 0 ? (
+          <div className="text-center py-12">
+            <Shield className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No Schedule H1 entries for this period</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Date</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Medicine</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Batch</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Customer</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Doctor</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Prescription</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-600">Qty</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Pharmacist</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredEntries.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-gray-900">{format(new Date(entry.dispensedDate), 'MMM dd, yyyy HH:mm')}</td>
+                    <td className="px-4 py-3 font-medium text-gray-900">{entry.medicineName}</td>
+                    <td className="px-4 py-3 text-gray-600">{entry.batchNumber}</td>
+                    <td className="px-4 py-3 text-gray-600">
+                      <p>{entry.customerName}</p>
+                      {entry.customerAddress && <p className="text-xs text-gray-500">{entry.customerAddress}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      <p>{entry.doctorName}</p>
+                      {entry.doctorRegistrationNumber && <p className="text-xs text-gray-500">Reg. {entry.doctorRegistrationNumber}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {entry.prescriptionId ? (
+                        <button
+                          onClick={() => setViewingPrescriptionId(entry.prescriptionId!)}
+                          className="text-blue-600 hover:underline flex items-center space-x-1"
+                          title="View prescription"
+                        >
+                          <FileText className="w-4 h-4" />
+                          <span>{entry.prescriptionNumber}</span>
+                        </button>
+                      ) : entry.prescriptionNumber}
+                    </td>
+                    <td className="px-4 py-3 text-right font-medium text-gray-900">{entry.quantityDispensed}</td>
+                    <td className="px-4 py-3 text-gray-600">{entry.pharmacistSignature}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {viewingPrescriptionId && (
+        <PrescriptionViewer prescriptionId={viewingPrescriptionId} onClose={() => setViewingPrescriptionId(null)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, FolderOpen, HardDrive, Play, CheckCircle, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { BackupRun, BackupSchedule, BackupTarget } from '../../types';
+import { BACKUP_TARGET_LABELS, BackupSchedulerService } from '../../services/backupScheduler';
+import { MIN_PASSPHRASE_LENGTH } from '../../services/backup';
+import { usePharmacyStore } from '../../store';
+
+export const AutoBackupPanel: React.FC = () => {
+  const [schedule, setSchedule] = useState<BackupSchedule | undefined>();
+  const [runs, setRuns] = useState<BackupRun[]>([]);
+  const [target, setTarget] = useState<BackupTarget>('OPFS');
+  const [retention, setRetention] = useState(7);
+  const [directoryHandle, setDirectoryHandle] = useState<FileSystemDirectoryHandle | undefined>();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [working, setWorking] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadSchedule();
+  }, []);
+
+  const loadSchedule = async () => {
+    try {
+      const [saved, recentRuns] = await Promise.all([
+        BackupSchedulerService.getSchedule(),
+        BackupSchedulerService.getRuns()
+      ]);
+      setSchedule(saved);
+      setRuns(recentRuns);
+      if (saved) {
+        setTarget(saved.target);
+        setRetention(saved.retention);
+        setDirectoryHandle(saved.directoryHandle);
+      }
+    } catch (error) {
+      console.error('Error loading backup schedule:', error);
+    }
+  };
+
+  const handleChooseFolder = async () => {
+    try {
+      setDirectoryHandle(await BackupSchedulerService.chooseFolder());
+    } catch (error) {
+      // Closing the picker is not an error worth reporting
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Error choosing backup folder:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to choose folder');
+    }
+  };
+
+  const handleSave = async () => {
+    if (passphrase !== confirmPassphrase) {
+      addNotification('error', 'The passphrases do not match');
+      return;
+    }
+
+    setWorking(true);
+    try {
+      await BackupSchedulerService.saveSchedule({ target, retention, directoryHandle, passphrase: passphrase || undefined });
+      setPassphrase('');
+      setConfirmPassphrase('');
+      addNotification('success', 'Automatic backups are on');
+      await loadSchedule();
+    } catch (error) {
+      console.error('Error saving backup schedule:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to save backup schedule');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setWorking(true);
+    try {
+      await BackupSchedulerService.disable();
+      addNotification('info', 'Automatic backups are off');
+      await loadSchedule();
+    } catch (error) {
+      console.error('Error disabling backups:', error);
+      addNotification('error', 'Failed to turn off automatic backups');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleBackupNow = async () => {
+    setWorking(true);
+    try {
+      const run = await BackupSchedulerService.runBackup('MANUAL', true);
+      if (run.status === 'SUCCESS') {
+        addNotification('success', `Backup saved as ${run.fileName}`);
+      } else {
+        addNotification('error', run.error || 'Backup failed');
+      }
+      await loadSchedule();
+    } catch (error) {
+      console.error('Error running backup:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Backup failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const enabled = !!schedule?.enabled;
+  const needsPassphrase = !schedule;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <Clock className="w-5 h-5 text-blue-600" />
+          <span>Automatic Backups</span>
+        </h2>
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+          {enabled ? 'On' : 'Off'}
+        </span>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        An encrypted snapshot is saved once a day and when the app is closed. Restore one with the passphrase below.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Save Backups To</label>
+          <select value={target} onChange={(e) => setTarget(e.target.value as BackupTarget)} className={inputClass}>
+            {(Object.keys(BACKUP_TARGET_LABELS) as BackupTarget[]).map(option => (
+              <option key={option} value={option} disabled={!BackupSchedulerService.isTargetSupported(option)}>
+                {BACKUP_TARGET_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          {target === 'OPFS' && (
+            <p className="mt-1 text-xs text-gray-500">Kept inside this browser; clearing site data removes them too.</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Backups to Keep</label>
+          <input
+            type="number"
+            min="1"
+            value={retention}
+            onChange={(e) => setRetention(parseInt(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+        {target === 'FOLDER' && (
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Folder</label>
+            <div className="flex items-center space-x-3">
+              <button
+                type="button"
+                onClick={handleChooseFolder}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+              >
+                <FolderOpen className="w-4 h-4" />
+                <span>Choose Folder</span>
+              </button>
+              <span className="text-sm text-gray-600">{directoryHandle?.name ?? 'No folder chosen'}</span>
+            </div>
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {needsPassphrase ? 'Passphrase *' : 'New Passphrase'}
+          </label>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className={inputClass}
+            placeholder={needsPassphrase ? `At least ${MIN_PASSPHRASE_LENGTH} characters` : 'Leave blank to keep the current one'}
+            autoComplete="new-password"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Confirm Passphrase</label>
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            className={inputClass}
+            autoComplete="new-password"
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3 mt-4">
+        {enabled && (
+          <>
+            <button
+              type="button"
+              onClick={handleDisable}
+              disabled={working}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              Turn Off
+            </button>
+            <button
+              type="button"
+              onClick={handleBackupNow}
+              disabled={working}
+              className="px-4 py-2 border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors flex items-center space-x-2"
+            >
+              <Play className="w-4 h-4" />
+              <span>Back Up Now</span>
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={working || (needsPassphrase && passphrase.length < MIN_PASSPHRASE_LENGTH)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <HardDrive className="w-4 h-4" />
+          <span>{enabled ? 'Update Schedule' : 'Turn On'}</span>
+        </button>
+      </div>
+
+      {runs.length > 0 && (
+        <div className="mt-6 border-t border-gray-200 pt-4">
+          <h3 className="font-medium text-gray-900 mb-2">Recent Backups</h3>
+          <div className="divide-y divide-gray-100 text-sm">
+            {runs.map(run => (
+              <div key={run.id} className="py-2 flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  {run.status === 'SUCCESS'
+                    ? <CheckCircle className="w-4 h-4 text-green-600" />
+                    : <XCircle className="w-4 h-4 text-red-600" />}
+                  <span className="text-gray-900">{format(new Date(run.startedAt), 'dd MMM yyyy, HH:mm')}</span>
+                  <span className="text-gray-500">
+                    {BACKUP_TARGET_LABELS[run.target]} · {run.trigger.toLowerCase()}
+                  </span>
+                </div>
+                <span className={run.status === 'SUCCESS' ? 'text-gray-500' : 'text-red-600'}>
+                  {run.status === 'SUCCESS'
+                    ? `${((run.size ?? 0) / 1024).toFixed(0)} KB${run.prunedAt ? ' · removed' : ''}`
+                    : run.error}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
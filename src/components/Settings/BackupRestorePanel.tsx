@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Download, Upload, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { BackupService, MIN_PASSPHRASE_LENGTH, RestoreMode, RestoreSummary } from '../../services/backup';
+import { PermissionService } from '../../services/permissions';
+import { SettingsService } from '../../services/settings';
+import { usePharmacyStore } from '../../store';
+import { downloadBlob } from '../../utils/download';
+
+export const BackupRestorePanel: React.FC = () => {
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [lastRestore, setLastRestore] = useState<RestoreSummary | null>(null);
+  const { addNotification, setSettings, currentUser } = usePharmacyStore();
+  const canRestoreBackups = PermissionService.can(currentUser, 'backup.restore');
+
+  const handleBackup = async () => {
+    if (backupPassphrase !== confirmPassphrase) {
+      addNotification('error', 'The passphrases do not match');
+      return;
+    }
+
+    setWorking(true);
+    try {
+      const backup = await BackupService.createBackup(backupPassphrase);
+      downloadBlob(backup, BackupService.getFileName());
+      setBackupPassphrase('');
+      setConfirmPassphrase('');
+      addNotification('success', 'Backup downloaded. Keep the passphrase safe; the backup cannot be opened without it.');
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to create backup');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreFile) return;
+
+    setWorking(true);
+    try {
+      const summary = await BackupService.restoreBackup(restoreFile, restorePassphrase, restoreMode);
+      setSettings(await SettingsService.getSettings());
+      setLastRestore(summary);
+      setRestoreFile(null);
+      setRestorePassphrase('');
+      setConfirmReplace(false);
+      addNotification('success', `Backup from ${format(new Date(summary.exportedAt), 'dd MMM yyyy, HH:mm')} restored`);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const canRestore = !!restoreFile && restorePassphrase.length > 0 && (restoreMode === 'merge' || confirmReplace);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1 flex items-center space-x-2">
+        <ShieldCheck className="w-5 h-5 text-blue-600" />
+        <span>Backup &amp; Restore</span>
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        All data is stored only in this browser. Download an encrypted backup regularly so that clearing the browser does not lose your records.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Backup */}
+        <div className="space-y-3">
+          <h3 className="font-medium text-gray-900">Create Backup</h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Passphrase</label>
+            <input
+              type="password"
+              value={backupPassphrase}
+              onChange={(e) => setBackupPassphrase(e.target.value)}
+              className={inputClass}
+              placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+              autoComplete="new-password"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Confirm Passphrase</label>
+            <input
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              className={inputClass}
+              autoComplete="new-password"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleBackup}
+            disabled={working || backupPassphrase.length < MIN_PASSPHRASE_LENGTH}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <Download className="w-4 h-4" />
+            <span>{working ? 'Working...' : 'Download Encrypted Backup'}</span>
+          </button>
+        </div>
+
+        {/* Restore */}
+        <div className="space-y-3">
+          <h3 className="font-medium text-gray-900">Restore Backup</h3>
+          {!canRestoreBackups && (
+            <p className="text-sm text-yellow-700">Only the owner can restore a backup.</p>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Backup File</label>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => setRestoreFile(e.target.files?.[0] ?? null)}
+              className="w-full text-sm text-gray-700"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Passphrase</label>
+            <input
+              type="password"
+              value={restorePassphrase}
+              onChange={(e) => setRestorePassphrase(e.target.value)}
+              className={inputClass}
+              autoComplete="off"
+            />
+          </div>
+          <div className="space-y-2 text-sm">
+            <label className="flex items-start space-x-2">
+              <input
+                type="radio"
+                checked={restoreMode === 'merge'}
+                onChange={() => setRestoreMode('merge')}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium text-gray-900">Merge</span>
+                <span className="text-gray-500"> — add records missing from this device; existing records are kept</span>
+              </span>
+            </label>
+            <label className="flex items-start space-x-2">
+              <input
+                type="radio"
+                checked={restoreMode === 'replace'}
+                onChange={() => setRestoreMode('replace')}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium text-gray-900">Replace</span>
+                <span className="text-gray-500"> — erase everything on this device and load the backup</span>
+              </span>
+            </label>
+          </div>
+          {restoreMode === 'replace' && (
+            <label className="flex items-start space-x-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+              <input
+                type="checkbox"
+                checked={confirmReplace}
+                onChange={(e) => setConfirmReplace(e.target.checked)}
+                className="mt-1"
+              />
+              <span className="flex items-start space-x-1">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>I understand that all current sales, stock and settings on this device will be replaced.</span>
+              </span>
+            </label>
+          )}
+          <button
+            type="button"
+            onClick={handleRestore}
+            disabled={working || !canRestore || !canRestoreBackups}
+            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <Upload className="w-4 h-4" />
+            <span>{working ? 'Working...' : 'Restore Backup'}</span>
+          </button>
+        </div>
+      </div>
+
+      {lastRestore && (
+        <div className="mt-6 border-t border-gray-200 pt-4">
+          <h3 className="font-medium text-gray-900 mb-2">
+            Last Restore ({lastRestore.mode === 'replace' ? 'Replace' : 'Merge'})
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+            {Object.entries(lastRestore.tables).map(([table, counts]) => (
+              <div key={table} className="bg-gray-50 rounded px-3 py-2">
+                <p className="text-gray-700">{table}</p>
+                <p className="text-gray-500">
+                  {counts.restored} restored{counts.skipped > 0 && `, ${counts.skipped} already present`}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
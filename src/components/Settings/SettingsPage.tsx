@@ -0,0 +1,317 @@
+import React, { useState, useEffect } from 'react';
+import { Settings, Save, Store, FileText, Percent, Package } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { SettingsService } from '../../services/settings';
+import { InvoiceNumberService } from '../../services/invoiceNumber';
+import { PermissionService } from '../../services/permissions';
+import { usePharmacyStore } from '../../store';
+import { SupplierSelect } from '../Suppliers/SupplierSelect';
+import { BackupRestorePanel } from './BackupRestorePanel';
+import { AutoBackupPanel } from './AutoBackupPanel';
+
+const settingsSchema = z.object({
+  shopName: z.string().min(1, 'Shop name is required'),
+  address: z.string(),
+  phone: z.string().optional(),
+  drugLicenseNumbers: z.string(),
+  gstin: z.string().regex(/^$|^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, 'Enter a valid 15-character GSTIN'),
+  invoicePrefix: z.string()
+    .min(1, 'Invoice prefix is required')
+    .max(5, 'GST invoice numbers are limited to 16 characters; keep the prefix to 5')
+    .regex(/^[A-Za-z0-9/-]+$/, 'Only letters, digits, "-" and "/" are allowed'),
+  defaultSupplierId: z.string(),
+  sellingPriceRatio: z.number().gt(0, 'Must be greater than 0').max(1, 'Cannot exceed MRP'),
+  purchasePriceRatio: z.number().gt(0, 'Must be greater than 0').max(1, 'Cannot exceed selling price'),
+  defaultMinStock: z.number().int().min(0, 'Minimum stock must be positive'),
+  defaultMaxStock: z.number().int().min(0, 'Maximum stock must be positive'),
+  expiryAlertDays: z.number().int().min(1, 'Alert window must be at least 1 day'),
+  defaultLeadTimeDays: z.number().int().min(0, 'Lead time must be positive'),
+  orderCoverDays: z.number().int().min(1, 'Orders must cover at least 1 day')
+});
+
+type SettingsFormData = z.infer<typeof settingsSchema>;
+
+export const SettingsPage: React.FC = () => {
+  const [saving, setSaving] = useState(false);
+  const [nextInvoiceNumber, setNextInvoiceNumber] = useState('');
+  const [startNumber, setStartNumber] = useState('');
+  const { addNotification, settings, setSettings, currentUser } = usePharmacyStore();
+  const canEdit = PermissionService.can(currentUser, 'settings.edit');
+
+  useEffect(() => {
+    loadNextInvoiceNumber();
+  }, [settings.invoicePrefix]);
+
+  const loadNextInvoiceNumber = async () => {
+    try {
+      setNextInvoiceNumber(await InvoiceNumberService.peekNext());
+    } catch (error) {
+      console.error('Error loading next invoice number:', error);
+      addNotification('error', 'Failed to load the next invoice number');
+    }
+  };
+
+  const handleStartNumbering = async () => {
+    try {
+      const next = await InvoiceNumberService.startNumberingAt(Number(startNumber));
+      setNextInvoiceNumber(next);
+      setStartNumber('');
+      addNotification('success', `The next invoice will be ${next}`);
+    } catch (error) {
+      console.error('Error changing invoice numbering:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to change invoice numbering');
+    }
+  };
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isDirty },
+    reset,
+    watch,
+    setValue
+  } = useForm<SettingsFormData>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: {
+      shopName: settings.shopName,
+      address: settings.address,
+      phone: settings.phone,
+      drugLicenseNumbers: settings.drugLicenseNumbers,
+      gstin: settings.gstin,
+      invoicePrefix: settings.invoicePrefix,
+      defaultSupplierId: settings.defaultSupplierId,
+      sellingPriceRatio: settings.sellingPriceRatio,
+      purchasePriceRatio: settings.purchasePriceRatio,
+      defaultMinStock: settings.defaultMinStock,
+      defaultMaxStock: settings.defaultMaxStock,
+      expiryAlertDays: settings.expiryAlertDays,
+      defaultLeadTimeDays: settings.defaultLeadTimeDays,
+      orderCoverDays: settings.orderCoverDays
+    }
+  });
+
+  const onSubmit = async (data: SettingsFormData) => {
+    if (data.defaultMaxStock < data.defaultMinStock) {
+      addNotification('error', 'Maximum stock cannot be below minimum stock');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await SettingsService.saveSettings({ ...data, gstin: data.gstin.toUpperCase() });
+      setSettings(saved);
+      reset(data);
+      addNotification('success', 'Settings saved');
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+            <Settings className="w-6 h-6 text-gray-700" />
+            <span>Settings</span>
+          </h1>
+          <p className="text-gray-600">Shop profile, invoicing, inventory defaults and backups</p>
+        </div>
+      </div>
+
+      {!canEdit && (
+        <p className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+          Only the owner can change these settings.
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <fieldset disabled={!canEdit} className="space-y-6">
+          {/* Shop Profile */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+              <Store className="w-5 h-5 text-blue-600" />
+              <span>Shop Profile</span>
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Shop Name *</label>
+                <input {...register('shopName')} className={inputClass} />
+                {errors.shopName && (
+                  <p className="mt-1 text-sm text-red-600">{errors.shopName.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                <input {...register('phone')} type="tel" className={inputClass} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+                <textarea {...register('address')} rows={2} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Drug Licence Numbers</label>
+                <input {...register('drugLicenseNumbers')} className={inputClass} placeholder="e.g. 20B/XX/1234, 21B/XX/1234" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">GSTIN</label>
+                <input {...register('gstin')} className={`${inputClass} uppercase`} placeholder="15-character GSTIN" />
+                {errors.gstin && (
+                  <p className="mt-1 text-sm text-red-600">{errors.gstin.message}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Invoicing */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+              <FileText className="w-5 h-5 text-blue-600" />
+              <span>Invoice Numbering</span>
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Invoice Prefix *</label>
+                <input {...register('invoicePrefix')} className={inputClass} />
+                {errors.invoicePrefix && (
+                  <p className="mt-1 text-sm text-red-600">{errors.invoicePrefix.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Next Invoice Number</label>
+                <p className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg font-mono text-gray-900">{nextInvoiceNumber}</p>
+                <p className="mt-1 text-xs text-gray-500">
+                  FY {InvoiceNumberService.getFinancialYear()}. Numbers run consecutively and restart each April.
+                </p>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start Numbering At</label>
+                <div className="flex space-x-2">
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={startNumber}
+                    onChange={(e) => setStartNumber(e.target.value)}
+                    className={`${inputClass} max-w-xs`}
+                    placeholder="e.g. 1250"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleStartNumbering}
+                    disabled={!startNumber}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Apply
+                  </button>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  For continuing the sequence from a previous billing system. Numbers already issued cannot be reused.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Pricing */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+              <Percent className="w-5 h-5 text-blue-600" />
+              <span>Default Margins</span>
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Selling Price (fraction of MRP)</label>
+                <input {...register('sellingPriceRatio', { valueAsNumber: true })} type="number" step="0.01" min="0" max="1" className={inputClass} />
+                {errors.sellingPriceRatio && (
+                  <p className="mt-1 text-sm text-red-600">{errors.sellingPriceRatio.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Purchase Price (fraction of selling price)</label>
+                <input {...register('purchasePriceRatio', { valueAsNumber: true })} type="number" step="0.01" min="0" max="1" className={inputClass} />
+                {errors.purchasePriceRatio && (
+                  <p className="mt-1 text-sm text-red-600">{errors.purchasePriceRatio.message}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Inventory Defaults */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+              <Package className="w-5 h-5 text-blue-600" />
+              <span>Inventory Defaults</span>
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Default Supplier</label>
+                <SupplierSelect
+                  value={watch('defaultSupplierId')}
+                  onChange={(supplierId) => setValue('defaultSupplierId', supplierId, { shouldDirty: true })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Expiry Alert Window (days)</label>
+                <input {...register('expiryAlertDays', { valueAsNumber: true })} type="number" min="1" className={inputClass} />
+                {errors.expiryAlertDays && (
+                  <p className="mt-1 text-sm text-red-600">{errors.expiryAlertDays.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Default Minimum Stock</label>
+                <input {...register('defaultMinStock', { valueAsNumber: true })} type="number" min="0" className={inputClass} />
+                {errors.defaultMinStock && (
+                  <p className="mt-1 text-sm text-red-600">{errors.defaultMinStock.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Default Maximum Stock</label>
+                <input {...register('defaultMaxStock', { valueAsNumber: true })} type="number" min="0" className={inputClass} />
+                {errors.defaultMaxStock && (
+                  <p className="mt-1 text-sm text-red-600">{errors.defaultMaxStock.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Default Supplier Lead Time (days)</label>
+                <input {...register('defaultLeadTimeDays', { valueAsNumber: true })} type="number" min="0" className={inputClass} />
+                {errors.defaultLeadTimeDays && (
+                  <p className="mt-1 text-sm text-red-600">{errors.defaultLeadTimeDays.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reorder Cover (days of sales)</label>
+                <input {...register('orderCoverDays', { valueAsNumber: true })} type="number" min="1" className={inputClass} />
+                {errors.orderCoverDays && (
+                  <p className="mt-1 text-sm text-red-600">{errors.orderCoverDays.message}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || !isDirty}
+              className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2 font-medium"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saving ? 'Saving...' : 'Save Settings'}</span>
+            </button>
+          </div>
+        </fieldset>
+      </form>
+
+      <BackupRestorePanel />
+      <AutoBackupPanel />
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { X, Save, Building2 } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Supplier } from '../../types';
+import { GSTIN_PATTERN, SupplierService } from '../../services/suppliers';
+import { usePharmacyStore } from '../../store';
+
+const supplierSchema = z.object({
+  name: z.string().min(1, 'Supplier name is required'),
+  gstin: z.string().refine(gstin => !gstin || GSTIN_PATTERN.test(gstin.toUpperCase()), 'Enter a valid 15-character GSTIN'),
+  drugLicenseNumber: z.string().optional(),
+  contactPerson: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().regex(/^$|^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Enter a valid email address'),
+  address: z.string().optional(),
+  paymentTermsDays: z.number().int().min(0, 'Payment terms must be positive'),
+  leadTimeDays: z.number().int().min(0, 'Lead time must be positive').optional()
+});
+
+type SupplierFormData = z.infer<typeof supplierSchema>;
+
+interface SupplierFormModalProps {
+  supplier?: Supplier;
+  onClose: () => void;
+  onSaved: (supplier: Supplier) => void;
+}
+
+export const SupplierFormModal: React.FC<SupplierFormModalProps> = ({ supplier, onClose, onSaved }) => {
+  const [saving, setSaving] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<SupplierFormData>({
+    resolver: zodResolver(supplierSchema),
+    defaultValues: {
+      name: supplier?.name || '',
+      gstin: supplier?.gstin || '',
+      drugLicenseNumber: supplier?.drugLicenseNumber || '',
+      contactPerson: supplier?.contactPerson || '',
+      phone: supplier?.phone || '',
+      email: supplier?.email || '',
+      address: supplier?.address || '',
+      paymentTermsDays: supplier?.paymentTermsDays ?? 30,
+      leadTimeDays: supplier?.leadTimeDays
+    }
+  });
+
+  const onSubmit = async (data: SupplierFormData) => {
+    setSaving(true);
+    try {
+      const saved = await SupplierService.saveSupplier(
+        {
+          name: data.name,
+          gstin: data.gstin || undefined,
+          drugLicenseNumber: data.drugLicenseNumber || undefined,
+          contactPerson: data.contactPerson || undefined,
+          phone: data.phone || undefined,
+          email: data.email || undefined,
+          address: data.address || undefined,
+          paymentTermsDays: data.paymentTermsDays,
+          leadTimeDays: data.leadTimeDays
+        },
+        supplier?.id
+      );
+      addNotification('success', `${saved.name} ${supplier ? 'updated' : 'added'}`);
+      onSaved(saved);
+    } catch (error) {
+      console.error('Error saving supplier:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to save supplier');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+            <Building2 className="w-5 h-5 text-blue-600" />
+            <span>{supplier ? 'Edit Supplier' : 'Add Supplier'}</span>
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input {...register('name')} className={inputClass} />
+              {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">GSTIN</label>
+              <input {...register('gstin')} className={`${inputClass} uppercase`} />
+              {errors.gstin && <p className="mt-1 text-sm text-red-600">{errors.gstin.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Drug Licence Number</label>
+              <input {...register('drugLicenseNumber')} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Contact Person</label>
+              <input {...register('contactPerson')} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+              <input {...register('phone')} type="tel" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+              <input {...register('email')} type="email" className={inputClass} />
+              {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Payment Terms (days)</label>
+              <input {...register('paymentTermsDays', { valueAsNumber: true })} type="number" min="0" className={inputClass} />
+              {errors.paymentTermsDays && <p className="mt-1 text-sm text-red-600">{errors.paymentTermsDays.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Lead Time (days)</label>
+              <input
+                {...register('leadTimeDays', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                type="number"
+                min="0"
+                placeholder="Shop default"
+                className={inputClass}
+              />
+              {errors.leadTimeDays && <p className="mt-1 text-sm text-red-600">{errors.leadTimeDays.message}</p>}
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+              <textarea {...register('address')} rows={2} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saving ? 'Saving...' : 'Save'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
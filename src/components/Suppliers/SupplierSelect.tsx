@@ -0,0 +1,34 @@
+import React, { useState, useEffect } from 'react';
+import { Supplier } from '../../types';
+import { SupplierService } from '../../services/suppliers';
+
+interface SupplierSelectProps {
+  value: string;
+  onChange: (supplierId: string) => void;
+  className?: string;
+}
+
+export const SupplierSelect: React.FC<SupplierSelectProps> = ({ value, onChange, className }) => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+
+  useEffect(() => {
+    SupplierService.getSuppliers()
+      .then(setSuppliers)
+      .catch(error => console.error('Error loading suppliers:', error));
+  }, []);
+
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+      <option value="">Select supplier</option>
+      {suppliers.map((supplier) => (
+        <option key={supplier.id} value={supplier.id}>
+          {supplier.name}{supplier.gstin ? ` (${supplier.gstin})` : ''}
+        </option>
+      ))}
+      {/* Keep an id that has no supplier record selectable rather than silently clearing it */}
+      {value && suppliers.length > 0 && !suppliers.some(supplier => supplier.id === value) && (
+        <option value={value}>{value}</option>
+      )}
+    </select>
+  );
+};
@@ -0,0 +1,389 @@
+import React, { useState, useEffect } from 'react';
+import { Building2, Search, Plus, Edit, Trash2, IndianRupee, Package, BookOpen } from 'lucide-react';
+import { db } from '../../database';
+import { Batch, Supplier, SupplierLedgerEntry } from '../../types';
+import { SupplierService } from '../../services/suppliers';
+import { usePharmacyStore } from '../../store';
+import { SupplierFormModal } from './SupplierFormModal';
+import { format } from 'date-fns';
+
+const LEDGER_LABELS: Record<SupplierLedgerEntry['type'], string> = {
+  PURCHASE: 'Purchase',
+  PAYMENT: 'Payment',
+  RETURN: 'Vendor Return'
+};
+
+export const SuppliersPage: React.FC = () => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selected, setSelected] = useState<Supplier | null>(null);
+  const [batches, setBatches] = useState<Array<Batch & { medicineName: string }>>([]);
+  const [ledger, setLedger] = useState<SupplierLedgerEntry[]>([]);
+  const [activeView, setActiveView] = useState<'batches' | 'ledger'>('batches');
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<Supplier | undefined>();
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<SupplierLedgerEntry['paymentMethod']>('BANK_TRANSFER');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [recording, setRecording] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  useEffect(() => {
+    loadSuppliers();
+  }, []);
+
+  const loadSuppliers = async () => {
+    try {
+      setSuppliers(await SupplierService.getSuppliers());
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+      addNotification('error', 'Failed to load suppliers');
+    }
+  };
+
+  const selectSupplier = async (supplier: Supplier) => {
+    setSelected(supplier);
+    try {
+      const [supplierBatches, entries] = await Promise.all([
+        SupplierService.getBatches(supplier.id),
+        SupplierService.getLedger(supplier.id)
+      ]);
+      const medicines = await db.medicines.bulkGet(supplierBatches.map(batch => batch.medicineId));
+      setBatches(supplierBatches.map((batch, index) => ({
+        ...batch,
+        medicineName: medicines[index]?.brandName || medicines[index]?.name || 'Unknown'
+      })));
+      setLedger(entries);
+    } catch (error) {
+      console.error('Error loading supplier details:', error);
+      addNotification('error', 'Failed to load supplier details');
+    }
+  };
+
+  const refreshSelected = async (supplierId: string) => {
+    const suppliersList = await SupplierService.getSuppliers();
+    setSuppliers(suppliersList);
+    const refreshed = suppliersList.find(supplier => supplier.id === supplierId);
+    if (refreshed) await selectSupplier(refreshed);
+  };
+
+  const handleSaved = async (supplier: Supplier) => {
+    setShowForm(false);
+    setEditing(undefined);
+    await refreshSelected(supplier.id);
+  };
+
+  const deleteSupplier = async () => {
+    if (!selected) return;
+
+    try {
+      await SupplierService.deleteSupplier(selected.id);
+      addNotification('success', `${selected.name} deleted`);
+      setSelected(null);
+      await loadSuppliers();
+    } catch (error) {
+      console.error('Error deleting supplier:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to delete supplier');
+    }
+  };
+
+  const recordPayment = async () => {
+    if (!selected) return;
+
+    const amount = parseFloat(paymentAmount);
+    if (!amount || amount <= 0) {
+      addNotification('error', 'Enter a valid payment amount');
+      return;
+    }
+
+    setRecording(true);
+    try {
+      await SupplierService.recordPayment(selected.id, amount, paymentMethod, paymentReference);
+      addNotification('success', `Payment of ₹${amount.toFixed(2)} recorded for ${selected.name}`);
+      setPaymentAmount('');
+      setPaymentReference('');
+      await refreshSelected(selected.id);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to record payment');
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const filteredSuppliers = suppliers.filter(supplier => {
+    const query = searchQuery.toLowerCase();
+    return !query ||
+      supplier.name.toLowerCase().includes(query) ||
+      supplier.gstin?.toLowerCase().includes(query) ||
+      supplier.phone?.includes(query);
+  });
+
+  const totalPayable = suppliers.reduce((sum, supplier) => sum + Math.max(supplier.outstandingBalance, 0), 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+            <Building2 className="w-6 h-6 text-indigo-600" />
+            <span>Suppliers</span>
+          </h1>
+          <p className="text-gray-600">
+            Supplier master, received batches and payables · ₹{totalPayable.toFixed(2)} owed
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditing(undefined);
+            setShowForm(true);
+          }}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Supplier
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Supplier List */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-4 border-b border-gray-200">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <input
+                type="text"
+                placeholder="Search by name, GSTIN or phone..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+          {filteredSuppliers.length === 0 ? (
+            <div className="text-center py-12">
+              <Building2 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No suppliers found</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200 max-h-[60vh] overflow-y-auto">
+              {filteredSuppliers.map((supplier) => (
+                <button
+                  key={supplier.id}
+                  onClick={() => selectSupplier(supplier)}
+                  className={`w-full text-left p-4 hover:bg-gray-50 flex justify-between items-center ${
+                    selected?.id === supplier.id ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">{supplier.name}</p>
+                    <p className="text-sm text-gray-600">{supplier.gstin || supplier.phone || `${supplier.paymentTermsDays} day terms`}</p>
+                  </div>
+                  {supplier.outstandingBalance > 0 && (
+                    <span className="text-sm font-medium text-red-600">₹{supplier.outstandingBalance.toFixed(2)}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Supplier Details */}
+        <div className="lg:col-span-2 space-y-6">
+          {!selected ? (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 text-center py-12">
+              <Package className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">Select a supplier to see received batches and payables</p>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex justify-between items-start">
+                  <div className="space-y-1">
+                    <h2 className="text-lg font-semibold text-gray-900">{selected.name}</h2>
+                    {selected.gstin && <p className="text-sm text-gray-600">GSTIN: {selected.gstin}</p>}
+                    {selected.drugLicenseNumber && <p className="text-sm text-gray-600">D.L. No: {selected.drugLicenseNumber}</p>}
+                    <p className="text-sm text-gray-600">
+                      {[selected.contactPerson, selected.phone, selected.email].filter(Boolean).join(' · ')}
+                    </p>
+                    {selected.address && <p className="text-sm text-gray-500">{selected.address}</p>}
+                    <p className="text-xs text-gray-500">
+                      Payment terms: {selected.paymentTermsDays} days
+                      {selected.leadTimeDays !== undefined && ` · Lead time: ${selected.leadTimeDays} days`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm text-gray-600">We Owe</p>
+                    <p className={`text-2xl font-bold ${selected.outstandingBalance > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      ₹{selected.outstandingBalance.toFixed(2)}
+                    </p>
+                    <button
+                      onClick={() => {
+                        setEditing(selected);
+                        setShowForm(true);
+                      }}
+                      className="mt-2 text-sm text-blue-600 hover:text-blue-800 flex items-center space-x-1 ml-auto"
+                    >
+                      <Edit className="w-4 h-4" />
+                      <span>Edit</span>
+                    </button>
+                    <button
+                      onClick={deleteSupplier}
+                      className="mt-1 text-sm text-red-600 hover:text-red-800 flex items-center space-x-1 ml-auto"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span>Delete</span>
+                    </button>
+                  </div>
+                </div>
+
+                {/* Record Payment */}
+                <div className="mt-6 pt-6 border-t border-gray-200 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Amount (₹)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={paymentAmount}
+                      onChange={(e) => setPaymentAmount(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                    <select
+                      value={paymentMethod}
+                      onChange={(e) => setPaymentMethod(e.target.value as SupplierLedgerEntry['paymentMethod'])}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="BANK_TRANSFER">Bank Transfer</option>
+                      <option value="CHEQUE">Cheque</option>
+                      <option value="UPI">UPI</option>
+                      <option value="CASH">Cash</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+                    <input
+                      type="text"
+                      value={paymentReference}
+                      onChange={(e) => setPaymentReference(e.target.value)}
+                      placeholder="Cheque / UTR no."
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <button
+                    onClick={recordPayment}
+                    disabled={recording || !paymentAmount}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+                  >
+                    <IndianRupee className="w-4 h-4" />
+                    <span>{recording ? 'Saving...' : 'Record Payment'}</span>
+                  </button>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+                <div className="flex border-b border-gray-200">
+                  <button
+                    onClick={() => setActiveView('batches')}
+                    className={`px-6 py-3 text-sm font-medium flex items-center space-x-2 ${
+                      activeView === 'batches' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <Package className="w-4 h-4" />
+                    <span>Batches Received ({batches.length})</span>
+                  </button>
+                  <button
+                    onClick={() => setActiveView('ledger')}
+                    className={`px-6 py-3 text-sm font-medium flex items-center space-x-2 ${
+                      activeView === 'ledger' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <BookOpen className="w-4 h-4" />
+                    <span>Account ({ledger.length})</span>
+                  </button>
+                </div>
+
+                <div className="overflow-x-auto">
+                  {activeView === 'batches' ? (
+                    batches.length === 0 ? (
+                      <p className="text-center py-8 text-gray-600">No batches received from this supplier</p>
+                    ) : (
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-3 text-left font-medium text-gray-600">Received</th>
+                            <th className="px-4 py-3 text-left font-medium text-gray-600">Medicine</th>
+                            <th className="px-4 py-3 text-left font-medium text-gray-600">Batch</th>
+                            <th className="px-4 py-3 text-left font-medium text-gray-600">Expiry</th>
+                            <th className="px-4 py-3 text-right font-medium text-gray-600">In Stock</th>
+                            <th className="px-4 py-3 text-right font-medium text-gray-600">Purchase Price</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {batches.map((batch) => (
+                            <tr key={batch.id} className="hover:bg-gray-50">
+                              <td className="px-4 py-3 text-gray-700">{format(new Date(batch.receivedDate), 'dd MMM yyyy')}</td>
+                              <td className="px-4 py-3 font-medium text-gray-900">{batch.medicineName}</td>
+                              <td className="px-4 py-3 text-gray-700">{batch.batchNumber}</td>
+                              <td className="px-4 py-3 text-gray-700">{format(new Date(batch.expiryDate), 'MMM yyyy')}</td>
+                              <td className="px-4 py-3 text-right text-gray-700">{batch.currentStock}</td>
+                              <td className="px-4 py-3 text-right text-gray-700">₹{batch.purchasePrice.toFixed(2)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )
+                  ) : ledger.length === 0 ? (
+                    <p className="text-center py-8 text-gray-600">No transactions recorded</p>
+                  ) : (
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-medium text-gray-600">Date</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-600">Type</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-600">Reference</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-600">Due</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-600">Amount</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-600">Balance</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {ledger.map((entry) => (
+                          <tr key={entry.id} className="hover:bg-gray-50">
+                            <td className="px-4 py-3 text-gray-700">{format(new Date(entry.date), 'dd MMM yyyy')}</td>
+                            <td className="px-4 py-3 text-gray-900">{LEDGER_LABELS[entry.type]}</td>
+                            <td className="px-4 py-3 text-gray-700">{entry.reference || entry.paymentMethod}</td>
+                            <td className="px-4 py-3 text-gray-700">{entry.dueDate ? format(new Date(entry.dueDate), 'dd MMM yyyy') : ''}</td>
+                            <td className={`px-4 py-3 text-right ${entry.amount < 0 ? 'text-green-700' : 'text-gray-700'}`}>
+                              {entry.amount < 0 ? '-' : ''}₹{Math.abs(entry.amount).toFixed(2)}
+                            </td>
+                            <td className="px-4 py-3 text-right font-medium text-gray-900">₹{entry.balanceAfter.toFixed(2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {showForm && (
+        <SupplierFormModal
+          supplier={editing}
+          onClose={() => {
+            setShowForm(false);
+            setEditing(undefined);
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { X, Save, UserCog } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { User, UserRole } from '../../types';
+import { USER_ROLE_LABELS, UserService } from '../../services/users';
+import { usePharmacyStore } from '../../store';
+
+const userSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  role: z.enum(['OWNER', 'PHARMACIST', 'CASHIER']),
+  registrationNumber: z.string().optional(),
+  active: z.boolean(),
+  pin: z.string().regex(/^$|^\d{4,6}$/, 'The PIN must be 4 to 6 digits'),
+  confirmPin: z.string()
+}).refine(data => data.pin === data.confirmPin, {
+  message: 'The PINs do not match',
+  path: ['confirmPin']
+});
+
+type UserFormData = z.infer<typeof userSchema>;
+
+interface UserFormModalProps {
+  user?: User;
+  /** Setting up the first account: always an active owner and cannot be cancelled */
+  firstOwner?: boolean;
+  onClose: () => void;
+  onSaved: (user: User) => void;
+}
+
+export const UserFormModal: React.FC<UserFormModalProps> = ({ user, firstOwner = false, onClose, onSaved }) => {
+  const [saving, setSaving] = useState(false);
+  const { addNotification } = usePharmacyStore();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<UserFormData>({
+    resolver: zodResolver(userSchema),
+    defaultValues: {
+      name: user?.name || '',
+      role: user?.role || (firstOwner ? 'OWNER' : 'CASHIER'),
+      registrationNumber: user?.registrationNumber || '',
+      active: user?.active ?? true,
+      pin: '',
+      confirmPin: ''
+    }
+  });
+
+  const onSubmit = async (data: UserFormData) => {
+    if (!user && !data.pin) {
+      addNotification('error', 'Set a PIN for the new user');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await UserService.saveUser(
+        {
+          name: data.name,
+          role: data.role,
+          registrationNumber: data.registrationNumber,
+          active: data.active,
+          pin: data.pin || undefined
+        },
+        user?.id
+      );
+      addNotification('success', `${saved.name} ${user ? 'updated' : 'added'}`);
+      onSaved(saved);
+    } catch (error) {
+      console.error('Error saving user:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Failed to save user');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+            <UserCog className="w-5 h-5 text-blue-600" />
+            <span>{firstOwner ? 'Create Owner Account' : user ? 'Edit User' : 'Add User'}</span>
+          </h2>
+          {!firstOwner && (
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-4">
+          {firstOwner && (
+            <p className="text-sm text-gray-600">
+              Create the first account. The owner can add pharmacists and cashiers afterwards.
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input {...register('name')} className={inputClass} autoFocus />
+              {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+              {firstOwner ? (
+                <p className="px-3 py-2 text-gray-900">{USER_ROLE_LABELS.OWNER}</p>
+              ) : (
+                <select {...register('role')} className={inputClass}>
+                  {(Object.keys(USER_ROLE_LABELS) as UserRole[]).map(role => (
+                    <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Pharmacist Reg. No.</label>
+              <input {...register('registrationNumber')} className={inputClass} placeholder="Signed on the H1 register" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{user ? 'New PIN' : 'PIN *'}</label>
+              <input
+                {...register('pin')}
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                placeholder={user ? 'Leave blank to keep' : '4 to 6 digits'}
+                autoComplete="new-password"
+                className={inputClass}
+              />
+              {errors.pin && <p className="mt-1 text-sm text-red-600">{errors.pin.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Confirm PIN</label>
+              <input
+                {...register('confirmPin')}
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                autoComplete="new-password"
+                className={inputClass}
+              />
+              {errors.confirmPin && <p className="mt-1 text-sm text-red-600">{errors.confirmPin.message}</p>}
+            </div>
+            {!firstOwner && (
+              <label className="md:col-span-2 flex items-center space-x-2 text-sm text-gray-700">
+                <input type="checkbox" {...register('active')} />
+                <span>Active (can sign in)</span>
+              </label>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            {!firstOwner && (
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saving ? 'Saving...' : 'Save'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
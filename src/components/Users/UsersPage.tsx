@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { UserCog, Plus, Edit } from 'lucide-react';
+import { User } from '../../types';
+import { USER_ROLE_LABELS, UserService } from '../../services/users';
+import { usePharmacyStore } from '../../store';
+import { UserFormModal } from './UserFormModal';
+import { format } from 'date-fns';
+
+export const UsersPage: React.FC = () => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<User | undefined>();
+  const { addNotification, currentUser, setCurrentUser } = usePharmacyStore();
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await UserService.getUsers());
+    } catch (error) {
+      console.error('Error loading users:', error);
+      addNotification('error', 'Failed to load users');
+    }
+  };
+
+  const handleSaved = async (user: User) => {
+    setShowForm(false);
+    setEditing(undefined);
+    // Keep the header in step when owners edit their own account
+    if (user.id === currentUser?.id) setCurrentUser(user);
+    await loadUsers();
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+            <UserCog className="w-6 h-6 text-gray-700" />
+            <span>Users</span>
+          </h1>
+          <p className="text-gray-600">Staff accounts and sign-in PINs</p>
+        </div>
+        <button
+          onClick={() => { setEditing(undefined); setShowForm(true); }}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add User
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium">Name</th>
+              <th className="px-4 py-3 text-left font-medium">Role</th>
+              <th className="px-4 py-3 text-left font-medium">Reg. No.</th>
+              <th className="px-4 py-3 text-left font-medium">Last Sign-in</th>
+              <th className="px-4 py-3 text-left font-medium">Status</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {users.map(user => (
+              <tr key={user.id} className={user.active ? '' : 'text-gray-400'}>
+                <td className="px-4 py-3 font-medium">{user.name}</td>
+                <td className="px-4 py-3">{USER_ROLE_LABELS[user.role]}</td>
+                <td className="px-4 py-3">{user.registrationNumber || '—'}</td>
+                <td className="px-4 py-3">
+                  {user.lastLoginAt ? format(new Date(user.lastLoginAt), 'dd MMM yyyy, HH:mm') : 'Never'}
+                </td>
+                <td className="px-4 py-3">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    user.active ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+                  }`}>
+                    {user.active ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <button
+                    onClick={() => { setEditing(user); setShowForm(true); }}
+                    className="text-blue-600 hover:text-blue-800"
+                    title="Edit user"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {showForm && (
+        <UserFormModal
+          user={editing}
+          onClose={() => { setShowForm(false); setEditing(undefined); }}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
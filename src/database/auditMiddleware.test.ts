@@ -0,0 +1,96 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { db } from './index';
+import { setChangeReason } from './auditMiddleware';
+import { Batch, Medicine } from '../types';
+import { AuditService } from '../services/audit';
+
+const medicine: Medicine = {
+  id: 'med-1',
+  name: 'Paracetamol 500mg',
+  brandName: 'Crocin',
+  manufacturer: 'GSK',
+  scheduleType: 'GENERAL',
+  hsn: '30049099',
+  gst: 12,
+  minStock: 10,
+  maxStock: 100,
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date('2024-04-01T10:00:00Z')
+};
+
+const batch: Batch = {
+  id: 'batch-1',
+  medicineId: 'med-1',
+  batchNumber: 'PCM001',
+  expiryDate: new Date('2027-01-31'),
+  mrp: 25,
+  purchasePrice: 18,
+  sellingPrice: 23,
+  currentStock: 40,
+  supplierId: 'sup-1',
+  receivedDate: new Date('2024-04-01')
+};
+
+const entriesFor = async (entityId: string) =>
+  (await db.auditLogs.orderBy('sequence').toArray()).filter(entry => entry.entityId === entityId);
+
+describe('change audit middleware', () => {
+  afterEach(async () => {
+    // Clearing the audited tables is itself logged, so the log is cleared last
+    await Promise.all([db.medicines.clear(), db.batches.clear()]);
+    await db.auditLogs.clear();
+  });
+
+  it('records creates and updates with the fields that changed', async () => {
+    await db.medicines.add(medicine);
+    await db.medicines.update('med-1', { minStock: 20, updatedAt: new Date() });
+
+    const [created, updated] = await entriesFor('med-1');
+    expect(created).toMatchObject({ action: 'CREATE', entityType: 'MEDICINE', newData: { brandName: 'Crocin' } });
+    expect(updated.action).toBe('UPDATE');
+    expect(updated.changes).toEqual([{ field: 'minStock', from: 10, to: 20 }]);
+  });
+
+  it('skips saves that change nothing', async () => {
+    await db.medicines.add(medicine);
+    await db.medicines.put({ ...medicine, updatedAt: new Date() });
+
+    expect(await entriesFor('med-1')).toHaveLength(1);
+  });
+
+  it('records deletes made through a query', async () => {
+    await db.batches.add(batch);
+    await db.batches.where('medicineId').equals('med-1').delete();
+
+    const [, deleted] = await entriesFor('batch-1');
+    expect(deleted).toMatchObject({ action: 'DELETE', entityType: 'BATCH', oldData: { batchNumber: 'PCM001' } });
+  });
+
+  it('records the reason given for the changes in a transaction', async () => {
+    await db.batches.add(batch);
+    await db.transaction('rw', db.batches, async (tx) => {
+      setChangeReason(tx, 'Expiry clearance at 40% off MRP');
+      await db.batches.update('batch-1', { sellingPrice: 15 });
+    });
+
+    const [created, updated] = await entriesFor('batch-1');
+    expect(created.reason).toBeUndefined();
+    expect(updated).toMatchObject({ reason: 'Expiry clearance at 40% off MRP', changes: [{ field: 'sellingPrice', from: 23, to: 15 }] });
+  });
+
+  it('rolls the entry back with the change and keeps the chain intact', async () => {
+    await db.batches.add(batch);
+    await expect(db.transaction('rw', db.batches, async () => {
+      await db.batches.update('batch-1', { currentStock: 0 });
+      throw new Error('Sale failed');
+    })).rejects.toThrow('Sale failed');
+    await db.transaction('rw', db.medicines, db.batches, async () => {
+      await Promise.all([db.medicines.add(medicine), db.batches.update('batch-1', { sellingPrice: 20 })]);
+    });
+
+    expect((await entriesFor('batch-1')).map(entry => entry.action)).toEqual(['CREATE', 'UPDATE']);
+    expect((await db.batches.get('batch-1'))?.currentStock).toBe(40);
+    expect((await AuditService.verifyChain()).breaks).toEqual([]);
+  });
+});
@@ -0,0 +1,202 @@
+import { DBCore, DBCoreKeyRange, DBCoreMutateRequest, DBCoreMutateResponse, DBCoreRangeType, DBCoreTable, DBCoreTransaction, Middleware, Transaction } from 'dexie';
+import { AuditFieldChange, AuditLog } from '../types';
+import { usePharmacyStore } from '../store';
+import { UnsealedAuditLog, canonicalJson, sealAuditEntries } from '../utils/auditChain';
+
+// Tables where every row change is recorded, and the entity type it is recorded under
+const AUDITED_TABLES: Record<string, AuditLog['entityType']> = {
+  medicines: 'MEDICINE',
+  batches: 'BATCH'
+};
+
+// Bookkeeping that changes on every save without saying anything about the change
+const IGNORED_FIELDS = ['updatedAt'];
+
+// DBCoreRangeType.Any; const enums cannot be read at runtime under isolatedModules
+const ANY_RANGE: DBCoreKeyRange = { type: 3 as DBCoreRangeType, lower: undefined, upper: undefined };
+
+const unaudited = new WeakSet<object>();
+const reasons = new WeakMap<object, string>();
+
+/**
+ * Stop recording row changes for the rest of a transaction. Only for bulk loads that
+ * bring their own audit log with them, such as restoring a backup.
+ */
+export const skipChangeAudit = (transaction: Transaction) => {
+  unaudited.add(transaction.idbtrans);
+};
+
+/**
+ * Record why the rest of a transaction's row changes are being made, for changes that would
+ * otherwise look like a manual edit (e.g. a clearance markdown of a selling price)
+ */
+export const setChangeReason = (transaction: Transaction, reason: string) => {
+  reasons.set(transaction.idbtrans, reason);
+};
+
+/**
+ * Top-level fields whose values differ, compared by content so dates and nested objects match
+ */
+export const diffFields = (oldData: Record<string, unknown> = {}, newData: Record<string, unknown> = {}): AuditFieldChange[] =>
+  [...new Set([...Object.keys(oldData), ...Object.keys(newData)])]
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => canonicalJson(oldData[field]) !== canonicalJson(newData[field]))
+    .sort()
+    .map(field => ({ field, from: oldData[field], to: newData[field] }));
+
+/**
+ * Rows a request is about to overwrite or delete, in request order
+ */
+const readExisting = async (table: DBCoreTable, req: DBCoreMutateRequest): Promise<unknown[]> => {
+  switch (req.type) {
+    case 'add':
+      return [];
+    case 'put':
+      return await table.getMany({
+        trans: req.trans,
+        keys: req.keys ?? req.values.map(value => table.schema.primaryKey.extractKey?.(value))
+      });
+    case 'delete':
+      return await table.getMany({ trans: req.trans, keys: req.keys });
+    case 'deleteRange':
+      return (await table.query({
+        trans: req.trans,
+        values: true,
+        query: { index: table.schema.primaryKey, range: req.range }
+      })).result;
+  }
+};
+
+const describeChanges = (
+  entityType: AuditLog['entityType'],
+  req: DBCoreMutateRequest,
+  existing: unknown[],
+  response: DBCoreMutateResponse
+): Omit<UnsealedAuditLog, 'id' | 'userId' | 'timestamp'>[] => {
+  if (req.type === 'delete' || req.type === 'deleteRange') {
+    return (existing.filter(Boolean) as Record<string, unknown>[]).map(oldData => ({
+      action: 'DELETE',
+      entityType,
+      entityId: String(oldData.id),
+      oldData,
+      changes: diffFields(oldData, undefined)
+    }));
+  }
+
+  return req.values.flatMap((value: Record<string, unknown>, index) => {
+    if (response.failures[index]) return [];
+
+    const oldData = existing[index] as Record<string, unknown> | undefined;
+    const changes = diffFields(oldData, value);
+    if (oldData && changes.length === 0) return [];
+    return [{
+      action: oldData ? 'UPDATE' as const : 'CREATE' as const,
+      entityType,
+      entityId: String(value.id ?? response.results?.[index]),
+      oldData,
+      newData: value,
+      changes
+    }];
+  });
+};
+
+/**
+ * Wait for work that is not an IndexedDB request without letting the transaction commit,
+ * by keeping a trivial read in flight until it is done
+ */
+const holdOpen = <T>(trans: IDBTransaction, work: Promise<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    let settle: (() => void) | undefined;
+    work.then(value => { settle = () => resolve(value); }, error => { settle = () => reject(error); });
+
+    const store = trans.objectStore('auditLogs');
+    // Settling inside a success callback lets the caller issue its next request while the transaction is active
+    const spin = () => {
+      if (settle) settle();
+      else store.get(-Infinity).onsuccess = spin;
+    };
+    spin();
+  });
+
+const pendingAppends = new WeakMap<object, Promise<void>>();
+
+/**
+ * Chain entries onto the audit log inside the transaction that made the change
+ */
+const writeEntries = async (down: DBCore, trans: DBCoreTransaction, entries: UnsealedAuditLog[]) => {
+  const auditLogs = down.table('auditLogs');
+  const sequenceIndex = auditLogs.schema.getIndexByKeyPath('sequence');
+  if (!sequenceIndex) {
+    throw new Error('The audit log has no sequence index');
+  }
+
+  const cursor = await auditLogs.openCursor({ trans, values: true, reverse: true, query: { index: sequenceIndex, range: ANY_RANGE } });
+  const sealed = await holdOpen(trans as unknown as IDBTransaction, sealAuditEntries(entries, cursor?.value));
+  const response = await auditLogs.mutate({ type: 'add', trans, values: sealed });
+  if (response.numFailures > 0) {
+    throw new Error('Failed to record the change in the audit log');
+  }
+};
+
+/**
+ * Writes within one transaction can run side by side (e.g. Promise.all over several tables),
+ * so appends are queued to keep each one reading the entry written before it
+ */
+const appendToLog = (down: DBCore, trans: DBCoreTransaction, entries: UnsealedAuditLog[]): Promise<void> => {
+  const previous = pendingAppends.get(trans) ?? Promise.resolve();
+  const append = previous.then(() => writeEntries(down, trans, entries));
+  pendingAppends.set(trans, append.catch(() => undefined));
+  return append;
+};
+
+/**
+ * Records a CREATE, UPDATE or DELETE entry with a field diff for every row written to an
+ * audited table, whichever code path wrote it. The entry is part of the same transaction,
+ * so a change and its audit entry are saved or rolled back together.
+ */
+export const changeAuditMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'changeAudit',
+  // Directly above IndexedDB: Dexie's own layers expect its transaction zone, which is lost across the awaits below
+  level: -1,
+  create: (down) => ({
+    ...down,
+    transaction: (stores, mode, options) => {
+      const audited = mode === 'readwrite' && stores.some(store => store in AUDITED_TABLES);
+      return down.transaction(audited && !stores.includes('auditLogs') ? [...stores, 'auditLogs'] : stores, mode, options);
+    },
+    table: (name) => {
+      const table = down.table(name);
+      const entityType = AUDITED_TABLES[name];
+      if (!entityType) return table;
+
+      return {
+        ...table,
+        mutate: async (req) => {
+          // Schema upgrades rewrite rows without anyone making a change
+          const idbtrans = req.trans as unknown as IDBTransaction;
+          if (idbtrans.mode === 'versionchange' || unaudited.has(idbtrans)) {
+            return await table.mutate(req);
+          }
+
+          const existing = await readExisting(table, req);
+          const response = await table.mutate(req);
+          const userId = usePharmacyStore.getState().currentUser?.id || 'system-user';
+          const timestamp = new Date();
+          const entries = describeChanges(entityType, req, existing, response).map(entry => ({
+            ...entry,
+            reason: reasons.get(idbtrans),
+            id: crypto.randomUUID(),
+            userId,
+            timestamp
+          }));
+
+          if (entries.length > 0) {
+            await appendToLog(down, req.trans, entries);
+          }
+          return response;
+        }
+      };
+    }
+  })
+};
@@ -1,5 +1,7 @@
 import Dexie, { Table } from 'dexie';
-import { Medicine, Batch, Sale, ScheduleH1Entry, AuditLog } from '../types';
+import { applyMigrations } from './migrations';
+import { changeAuditMiddleware } from './auditMiddleware';
+import { Medicine, Batch, Sale, ScheduleH1Entry, AuditLog, ShopSettings, InvoiceCounter, CreditNote, Customer, CustomerLedgerEntry, Supplier, SupplierLedgerEntry, PurchaseOrder, GoodsReceivedNote, BackupSchedule, BackupRun, User, AuditSigningKey, Prescription } from '../types';
 
 export class PharmacyDatabase extends Dexie {
   medicines!: Table<Medicine>;
@@ -7,17 +9,25 @@ export class PharmacyDatabase extends Dexie {
   sales!: Table<Sale>;
   scheduleH1Entries!: Table<ScheduleH1Entry>;
   auditLogs!: Table<AuditLog>;
+  settings!: Table<ShopSettings>;
+  invoiceCounters!: Table<InvoiceCounter>;
+  creditNotes!: Table<CreditNote>;
+  customers!: Table<Customer>;
+  customerLedger!: Table<CustomerLedgerEntry>;
+  suppliers!: Table<Supplier>;
+  supplierLedger!: Table<SupplierLedgerEntry>;
+  purchaseOrders!: Table<PurchaseOrder>;
+  goodsReceivedNotes!: Table<GoodsReceivedNote>;
+  backupSchedule!: Table<BackupSchedule>;
+  backupRuns!: Table<BackupRun>;
+  users!: Table<User>;
+  auditKeys!: Table<AuditSigningKey>;
+  prescriptions!: Table<Prescription>;
 
-  constructor() {
-    super('PharmacyDB');
-    
-    this.version(1).stores({
-      medicines: 'id, name, brandName, manufacturer, scheduleType, hsn, medicineType',
-      batches: 'id, medicineId, batchNumber, expiryDate, currentStock, minStock',
-      sales: 'id, invoiceNumber, customerName, customerPhone, saleDate, pharmacistId',
-      scheduleH1Entries: 'id, medicineId, customerName, dispensedDate',
-      auditLogs: 'id, userId, action, entityType, timestamp'
-    });
+  constructor(name: string = 'PharmacyDB') {
+    super(name);
+    applyMigrations(this);
+    this.use(changeAuditMiddleware);
   }
 }
 
@@ -42,6 +52,8 @@ export const initializeDatabase = async () => {
         hsn: '30049099',
         gst: 12,
         description: 'Pain relief and fever reducer',
+        minStock: 20,
+        maxStock: 500,
         createdAt: new Date(),
         updatedAt: new Date()
       },
@@ -57,6 +69,8 @@ export const initializeDatabase = async () => {
         hsn: '30049099',
         gst: 12,
         description: 'Anti-anxiety medication',
+        minStock: 10,
+        maxStock: 200,
         createdAt: new Date(),
         updatedAt: new Date()
       },
@@ -72,6 +86,8 @@ export const initializeDatabase = async () => {
         hsn: '30049099',
         gst: 12,
         description: 'Antibiotic for bacterial infections',
+        minStock: 15,
+        maxStock: 300,
         createdAt: new Date(),
         updatedAt: new Date()
       }
@@ -87,8 +103,6 @@ export const initializeDatabase = async () => {
         purchasePrice: 18,
         sellingPrice: 23,
         currentStock: 100,
-        minStock: 20,
-        maxStock: 500,
         supplierId: 'SUP001',
         receivedDate: new Date()
       },
@@ -101,8 +115,6 @@ export const initializeDatabase = async () => {
         purchasePrice: 35,
         sellingPrice: 42,
         currentStock: 50,
-        minStock: 10,
-        maxStock: 200,
         supplierId: 'SUP002',
         receivedDate: new Date()
       },
@@ -115,14 +127,34 @@ export const initializeDatabase = async () => {
         purchasePrice: 65,
         sellingPrice: 78,
         currentStock: 75,
-        minStock: 15,
-        maxStock: 300,
         supplierId: 'SUP001',
         receivedDate: new Date()
       }
     ];
 
+    const sampleSuppliers: Supplier[] = [
+      {
+        id: 'SUP001',
+        name: 'Sample Pharma Distributors',
+        contactPerson: 'Sales Desk',
+        paymentTermsDays: 30,
+        outstandingBalance: 0,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      },
+      {
+        id: 'SUP002',
+        name: 'Sample Medical Agencies',
+        contactPerson: 'Sales Desk',
+        paymentTermsDays: 15,
+        outstandingBalance: 0,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }
+    ];
+
     await db.medicines.bulkPut(sampleMedicines);
     await db.batches.bulkPut(sampleBatches);
+    await db.suppliers.bulkPut(sampleSuppliers);
   }
 };
\ No newline at end of file
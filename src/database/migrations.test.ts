@@ -0,0 +1,185 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, describe, expect, it } from 'vitest';
+import { applyMigrations, LATEST_VERSION, MIGRATIONS } from './migrations';
+import { PharmacyDatabase } from './index';
+import { AUDIT_GENESIS_HASH } from '../utils/auditChain';
+
+const openAt = async (name: string, version: number): Promise<Dexie> => {
+  const database = new Dexie(name);
+  applyMigrations(database, version);
+  await database.open();
+  return database;
+};
+
+/**
+ * A database as the first release left it: reorder levels on each batch and
+ * free-text supplier ids with no supplier records.
+ */
+const seedVersion1 = async (name: string) => {
+  const database = await openAt(name, 1);
+  await database.table('medicines').bulkAdd([
+    { id: 'med-1', name: 'Paracetamol 500mg', brandName: 'Crocin', manufacturer: 'GSK', scheduleType: 'GENERAL', hsn: '30049099', gst: 12 },
+    { id: 'med-2', name: 'Cetirizine 10mg', brandName: 'Cetzine', manufacturer: 'Dr Reddy', scheduleType: 'GENERAL', hsn: '30049099', gst: 12 }
+  ]);
+  await database.table('batches').bulkAdd([
+    {
+      id: 'batch-old', medicineId: 'med-1', batchNumber: 'PCM001', expiryDate: new Date('2030-01-31'),
+      mrp: 25, purchasePrice: 18, sellingPrice: 23, currentStock: 40, minStock: 20, maxStock: 500,
+      supplierId: 'ACME', receivedDate: new Date('2024-01-01')
+    },
+    {
+      id: 'batch-new', medicineId: 'med-1', batchNumber: 'PCM002', expiryDate: new Date('2029-06-30'),
+      mrp: 25, purchasePrice: 18, sellingPrice: 23, currentStock: 60, minStock: 30, maxStock: 400,
+      supplierId: 'Mehta Pharma', receivedDate: new Date('2024-03-01')
+    }
+  ]);
+  await database.table('sales').add({
+    id: 'sale-1', invoiceNumber: 'INV-0001', items: [], totalAmount: 0, saleDate: new Date('2024-03-05'), pharmacistId: 'system-user'
+  });
+  database.close();
+};
+
+describe('database migrations', () => {
+  const name = 'PharmacyDB-migration-test';
+
+  afterEach(async () => {
+    await Dexie.delete(name);
+  });
+
+  it('declares versions in strictly increasing order', () => {
+    const versions = MIGRATIONS.map(migration => migration.version);
+    expect(versions[0]).toBe(1);
+    versions.slice(1).forEach((version, index) => expect(version).toBeGreaterThan(versions[index]));
+  });
+
+  it('opens a new database at the latest version with every table', async () => {
+    const database = new PharmacyDatabase(name);
+    await database.open();
+
+    expect(database.verno).toBe(LATEST_VERSION);
+    expect(database.tables.map(table => table.name)).toEqual(
+      expect.arrayContaining(['medicines', 'batches', 'sales', 'suppliers', 'purchaseOrders', 'goodsReceivedNotes'])
+    );
+    database.close();
+  });
+
+  it('upgrades a version 1 database one step at a time', async () => {
+    await seedVersion1(name);
+
+    for (const migration of MIGRATIONS.slice(1)) {
+      const database = await openAt(name, migration.version);
+      expect(database.verno).toBe(migration.version);
+      // Data from the first release survives every step
+      expect(await database.table('sales').count()).toBe(1);
+      expect(await database.table('batches').count()).toBe(2);
+      database.close();
+    }
+  });
+
+  it('creates supplier records for free-text supplier ids (v6)', async () => {
+    await seedVersion1(name);
+    const database = await openAt(name, 6);
+
+    const suppliers = await database.table('suppliers').toArray();
+    expect(suppliers.map(supplier => supplier.id).sort()).toEqual(['ACME', 'Mehta Pharma']);
+    expect(suppliers.every(supplier => supplier.outstandingBalance === 0 && supplier.paymentTermsDays === 30)).toBe(true);
+    expect(await database.table('batches').where('supplierId').equals('ACME').count()).toBe(1);
+    database.close();
+  });
+
+  it('moves reorder levels from batches to medicines (v9)', async () => {
+    await seedVersion1(name);
+    const database = await openAt(name, 9);
+
+    const [withBatches, withoutBatches] = await database.table('medicines').bulkGet(['med-1', 'med-2']);
+    // Levels come from the most recently received batch
+    expect(withBatches).toMatchObject({ minStock: 30, maxStock: 400 });
+    // No batches and no saved settings falls back to the shop defaults
+    expect(withoutBatches).toMatchObject({ minStock: 10, maxStock: 100 });
+
+    const batches = await database.table('batches').toArray();
+    expect(batches.every(batch => !('minStock' in batch) && !('maxStock' in batch))).toBe(true);
+    database.close();
+  });
+
+  it('uses saved default reorder levels for medicines without batches (v9)', async () => {
+    await seedVersion1(name);
+    const v2 = await openAt(name, 2);
+    await v2.table('settings').put({ id: 'shop', defaultMinStock: 5, defaultMaxStock: 50 });
+    v2.close();
+
+    const database = await openAt(name, 9);
+    expect(await database.table('medicines').get('med-2')).toMatchObject({ minStock: 5, maxStock: 50 });
+    database.close();
+  });
+
+  it('returns batches in expiry order from the compound index (v10)', async () => {
+    await seedVersion1(name);
+    const database = await openAt(name, 10);
+
+    const batches = await database.table('batches')
+      .where('[medicineId+expiryDate]')
+      .between(['med-1', Dexie.minKey], ['med-1', Dexie.maxKey])
+      .toArray();
+    expect(batches.map(batch => batch.id)).toEqual(['batch-new', 'batch-old']);
+    database.close();
+  });
+
+  it('finds batches by storage area and leaves older batches unplaced (v11)', async () => {
+    await seedVersion1(name);
+    const database = await openAt(name, 11);
+
+    await database.table('batches').update('batch-new', { storageLocation: { area: 'PHARMACY-FLOOR', rack: '2' } });
+    const onFloor = await database.table('batches').where('storageLocation.area').equals('PHARMACY-FLOOR').toArray();
+    expect(onFloor.map(batch => batch.id)).toEqual(['batch-new']);
+    expect((await database.table('batches').get('batch-old')).storageLocation).toBeUndefined();
+    database.close();
+  });
+
+  it('chains existing audit entries in the order they were recorded (v14)', async () => {
+    const legacy = await openAt(name, 13);
+    await legacy.table('auditLogs').bulkAdd([
+      { id: 'log-b', userId: 'system-user', action: 'SALE', entityType: 'SALE', entityId: 'sale-1', timestamp: new Date('2024-03-05') },
+      { id: 'log-a', userId: 'system-user', action: 'CREATE', entityType: 'MEDICINE', entityId: 'med-1', timestamp: new Date('2024-03-01') }
+    ]);
+    legacy.close();
+
+    const database = await openAt(name, 14);
+    const entries = await database.table('auditLogs').orderBy('sequence').toArray();
+    expect(entries.map(entry => [entry.id, entry.sequence])).toEqual([['log-a', 1], ['log-b', 2]]);
+    expect(entries[0].previousHash).toBe(AUDIT_GENESIS_HASH);
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    database.close();
+  });
+
+  it('finds audit entries by entity (v15)', async () => {
+    const database = await openAt(name, 15);
+    await database.table('auditLogs').bulkAdd([
+      { id: 'log-1', entityId: 'med-1', sequence: 1, timestamp: new Date('2024-03-01') },
+      { id: 'log-2', entityId: 'batch-1', sequence: 2, timestamp: new Date('2024-03-02') },
+      { id: 'log-3', entityId: 'med-1', sequence: 3, timestamp: new Date('2024-03-03') }
+    ]);
+
+    const entries = await database.table('auditLogs').where('entityId').equals('med-1').primaryKeys();
+    expect(entries).toEqual(['log-1', 'log-3']);
+    database.close();
+  });
+
+  it('keeps typed prescription numbers apart from prescription records (v16)', async () => {
+    const before = await openAt(name, 15);
+    await before.table('sales').bulkAdd([
+      { id: 'sale-1', invoiceNumber: 'INV-0001', items: [], prescriptionId: 'RX-118', saleDate: new Date('2024-03-05') },
+      { id: 'sale-2', invoiceNumber: 'INV-0002', items: [], saleDate: new Date('2024-03-06') }
+    ]);
+    before.close();
+
+    const database = await openAt(name, 16);
+    const [withRx, withoutRx] = await database.table('sales').toArray();
+    expect(withRx.prescriptionNumber).toBe('RX-118');
+    expect(withRx.prescriptionId).toBeUndefined();
+    expect(withoutRx.prescriptionNumber).toBeUndefined();
+    expect(await database.table('prescriptions').count()).toBe(0);
+    database.close();
+  });
+});
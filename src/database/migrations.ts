@@ -0,0 +1,217 @@
+import Dexie, { Transaction } from 'dexie';
+import { AuditLog, Batch, Medicine, Sale, ShopSettings, Supplier } from '../types';
+import { sealAuditEntries } from '../utils/auditChain';
+
+export interface Migration {
+  version: number;
+  description: string;
+  /** Only the tables whose schema changes in this version; `null` drops a table */
+  stores: Record<string, string | null>;
+  /** Runs once when an existing database is opened at an older version */
+  upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+/**
+ * Every schema version the app has shipped, oldest first. Append new versions;
+ * never edit one that has been released, as browsers have already applied it.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      medicines: 'id, name, brandName, manufacturer, scheduleType, hsn, medicineType',
+      batches: 'id, medicineId, batchNumber, expiryDate, currentStock, minStock',
+      sales: 'id, invoiceNumber, customerName, customerPhone, saleDate, pharmacistId',
+      scheduleH1Entries: 'id, medicineId, customerName, dispensedDate',
+      auditLogs: 'id, userId, action, entityType, timestamp'
+    }
+  },
+  {
+    version: 2,
+    description: 'Shop settings',
+    stores: {
+      settings: 'id'
+    }
+  },
+  {
+    version: 3,
+    description: 'Unique invoice numbers and per-year counters',
+    stores: {
+      sales: 'id, &invoiceNumber, customerName, customerPhone, saleDate, pharmacistId',
+      invoiceCounters: 'id'
+    }
+  },
+  {
+    version: 4,
+    description: 'Credit notes for sales returns',
+    stores: {
+      creditNotes: 'id, &creditNoteNumber, saleId, invoiceNumber, createdAt'
+    }
+  },
+  {
+    version: 5,
+    description: 'Customer master and credit ledger',
+    stores: {
+      sales: 'id, &invoiceNumber, customerId, customerName, customerPhone, saleDate, pharmacistId',
+      customers: 'id, &phone, name',
+      customerLedger: 'id, customerId, date'
+    }
+  },
+  {
+    version: 6,
+    description: 'Supplier master and payables ledger',
+    stores: {
+      batches: 'id, medicineId, batchNumber, expiryDate, currentStock, minStock, supplierId',
+      suppliers: 'id, name',
+      supplierLedger: 'id, supplierId, date'
+    },
+    upgrade: async tx => {
+      // Give every free-text supplier id already on a batch a supplier record to edit
+      const supplierIds = new Set<string>();
+      await tx.table('batches').each((batch: Batch) => {
+        if (batch.supplierId) supplierIds.add(batch.supplierId);
+      });
+
+      const now = new Date();
+      await tx.table('suppliers').bulkPut([...supplierIds].map((id): Supplier => ({
+        id,
+        name: id,
+        paymentTermsDays: 30,
+        outstandingBalance: 0,
+        createdAt: now,
+        updatedAt: now
+      })));
+    }
+  },
+  {
+    version: 7,
+    description: 'Purchase orders',
+    stores: {
+      purchaseOrders: 'id, &orderNumber, supplierId, status, createdAt'
+    }
+  },
+  {
+    version: 8,
+    description: 'Goods received notes',
+    stores: {
+      batches: 'id, medicineId, batchNumber, expiryDate, currentStock, minStock, supplierId, grnId',
+      goodsReceivedNotes: 'id, &grnNumber, supplierId, purchaseOrderId, supplierInvoiceNumber, receivedAt'
+    }
+  },
+  {
+    version: 9,
+    description: 'Reorder levels move from batches to medicines',
+    stores: {
+      batches: 'id, medicineId, batchNumber, expiryDate, currentStock, supplierId, grnId'
+    },
+    upgrade: async tx => {
+      // The most recently received batch carries the levels last entered for the medicine, so its values win
+      type LegacyBatch = Batch & { minStock?: number; maxStock?: number };
+      const levels = new Map<string, { minStock: number; maxStock: number; receivedDate: Date }>();
+      await tx.table('batches').each((batch: LegacyBatch) => {
+        if (batch.minStock === undefined && batch.maxStock === undefined) return;
+        const current = levels.get(batch.medicineId);
+        if (!current || new Date(batch.receivedDate) >= new Date(current.receivedDate)) {
+          levels.set(batch.medicineId, {
+            minStock: batch.minStock ?? 0,
+            maxStock: batch.maxStock ?? 0,
+            receivedDate: batch.receivedDate
+          });
+        }
+      });
+
+      const settings: Partial<ShopSettings> | undefined = await tx.table('settings').get('shop');
+      await tx.table('medicines').toCollection().modify((medicine: Medicine) => {
+        const level = levels.get(medicine.id);
+        medicine.minStock = level?.minStock ?? settings?.defaultMinStock ?? 10;
+        medicine.maxStock = level?.maxStock ?? settings?.defaultMaxStock ?? 100;
+      });
+      await tx.table('batches').toCollection().modify((batch: LegacyBatch) => {
+        delete batch.minStock;
+        delete batch.maxStock;
+      });
+    }
+  },
+  {
+    version: 10,
+    description: 'Compound index for FEFO batch lookups',
+    stores: {
+      batches: 'id, medicineId, [medicineId+expiryDate], batchNumber, expiryDate, currentStock, supplierId, grnId'
+    }
+  },
+  {
+    version: 11,
+    description: 'Batch storage locations',
+    stores: {
+      batches: 'id, medicineId, [medicineId+expiryDate], batchNumber, expiryDate, currentStock, supplierId, grnId, storageLocation.area'
+    }
+  },
+  {
+    version: 12,
+    description: 'Automatic backup schedule and run history',
+    stores: {
+      backupSchedule: 'id',
+      backupRuns: 'id, startedAt, status'
+    }
+  },
+  {
+    version: 13,
+    description: 'Staff accounts with PIN login',
+    stores: {
+      users: 'id, name, role'
+    }
+  },
+  {
+    version: 14,
+    description: 'Hash-chained audit log and the device key that signs audit extracts',
+    stores: {
+      auditLogs: 'id, userId, action, entityType, timestamp, &sequence',
+      auditKeys: 'id'
+    },
+    upgrade: async (tx) => {
+      // Existing entries start the chain in the order they were recorded
+      const entries: AuditLog[] = await tx.table('auditLogs').orderBy('timestamp').toArray();
+      const sealed = await Dexie.waitFor(sealAuditEntries(entries));
+      await tx.table('auditLogs').bulkPut(sealed);
+    }
+  },
+  {
+    version: 15,
+    description: 'Audit entries by entity for history timelines',
+    stores: {
+      auditLogs: 'id, userId, action, entityType, entityId, timestamp, &sequence'
+    }
+  },
+  {
+    version: 16,
+    description: 'Prescription records linked from sales',
+    stores: {
+      sales: 'id, &invoiceNumber, customerId, customerName, customerPhone, saleDate, pharmacistId, prescriptionId',
+      prescriptions: 'id, prescriptionNumber, patientName, prescribedDate'
+    },
+    upgrade: async (tx) => {
+      // Sales used to keep the prescription number typed at the counter where the record id now goes
+      await tx.table('sales').toCollection().modify((sale: Sale) => {
+        if (sale.prescriptionId) {
+          sale.prescriptionNumber = sale.prescriptionId;
+          delete sale.prescriptionId;
+        }
+      });
+    }
+  }
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Declare every migration up to `targetVersion` on a Dexie instance before it is opened
+ */
+export const applyMigrations = (database: Dexie, targetVersion: number = LATEST_VERSION) => {
+  for (const migration of MIGRATIONS.filter(m => m.version <= targetVersion)) {
+    const version = database.version(migration.version).stores(migration.stores);
+    if (migration.upgrade) {
+      version.upgrade(migration.upgrade);
+    }
+  }
+};
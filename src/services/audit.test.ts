@@ -0,0 +1,75 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { db } from '../database';
+import { AuditService } from './audit';
+
+const logThree = async () => {
+  for (const entityId of ['med-1', 'med-2', 'med-3']) {
+    await AuditService.logAction({ action: 'UPDATE', entityType: 'MEDICINE', entityId, newData: { minStock: 10 } });
+  }
+  return await db.auditLogs.orderBy('sequence').toArray();
+};
+
+describe('AuditService', () => {
+  afterEach(async () => {
+    await Promise.all([db.auditLogs.clear(), db.auditKeys.clear()]);
+  });
+
+  it('links each entry to the one before it', async () => {
+    const entries = await logThree();
+
+    expect(entries.map(entry => entry.sequence)).toEqual([1, 2, 3]);
+    expect(entries[2].previousHash).toBe(entries[1].hash);
+    const result = await AuditService.verifyChain();
+    expect(result.breaks).toEqual([]);
+    expect(result.headHash).toBe(entries[2].hash);
+  });
+
+  it('lists the trail of one record, newest first', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    for (const [hour, entityId, minStock] of [[10, 'med-1', 10], [11, 'med-2', 15], [12, 'med-1', 20]] as const) {
+      vi.setSystemTime(new Date(`2024-05-01T${hour}:00:00Z`));
+      await AuditService.logAction({ action: 'UPDATE', entityType: 'MEDICINE', entityId, newData: { minStock } });
+    }
+    vi.useRealTimers();
+
+    const trail = await AuditService.getAuditTrail('med-1');
+    expect(trail.map(entry => entry.newData)).toEqual([{ minStock: 20 }, { minStock: 10 }]);
+  });
+
+  it('drops the entry with the change it records when the transaction fails', async () => {
+    await expect(db.transaction('rw', db.medicines, db.auditLogs, async () => {
+      await AuditService.logAction({ action: 'DELETE', entityType: 'MEDICINE', entityId: 'med-1' });
+      throw new Error('Delete failed');
+    })).rejects.toThrow('Delete failed');
+
+    expect(await db.auditLogs.count()).toBe(0);
+  });
+
+  it('reports edited, deleted and unchained entries', async () => {
+    const entries = await logThree();
+    await db.auditLogs.update(entries[0].id, { newData: { minStock: 0 } });
+    await db.auditLogs.delete(entries[1].id);
+    await db.auditLogs.add({ ...entries[2], id: 'forged', sequence: undefined as unknown as number });
+
+    const { breaks } = await AuditService.verifyChain();
+    expect(breaks).toEqual([
+      { sequence: 1, entryId: entries[0].id, problem: 'Changed after it was recorded' },
+      { sequence: 2, problem: 'Entry 2 is missing' },
+      { sequence: 4, problem: '1 entry was added outside the chain' }
+    ]);
+  });
+
+  it('signs extracts so later edits are detected', async () => {
+    await logThree();
+    const extract = await AuditService.exportExtract(new Date(0), new Date(Date.now() + 1000));
+
+    const check = await AuditService.checkExtract(extract);
+    expect(check).toMatchObject({ signatureValid: true, alteredEntries: 0, signedHere: true });
+
+    const edited = JSON.parse(await extract.text());
+    edited.entries[0].newData.minStock = 0;
+    const tampered = await AuditService.checkExtract(new Blob([JSON.stringify(edited)]));
+    expect(tampered).toMatchObject({ signatureValid: false, alteredEntries: 1 });
+  });
+});
@@ -1,16 +1,85 @@
+import Dexie from 'dexie';
 import { db } from '../database';
-import { AuditLog } from '../types';
+import { AuditLog, AuditSigningKey } from '../types';
+import { usePharmacyStore } from '../store';
+import { AUDIT_GENESIS_HASH, UnsealedAuditLog, canonicalJson, hashAuditEntry, sealAuditEntries, sha256Hex } from '../utils/auditChain';
+import { fromBase64, toBase64 } from '../utils/encoding';
+
+export interface AuditLogFilters {
+  userId?: string;
+  action?: AuditLog['action'];
+  entityType?: AuditLog['entityType'];
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditChainBreak {
+  sequence: number;
+  entryId?: string;
+  problem: string;
+}
+
+export interface AuditVerification {
+  checkedAt: Date;
+  entries: number;
+  headSequence: number;
+  headHash: string;
+  breaks: AuditChainBreak[];
+}
+
+/**
+ * A signed copy of the audit entries for a period, for inspectors or offsite keeping
+ */
+export interface AuditExtract {
+  format: typeof EXTRACT_FORMAT;
+  shopName: string;
+  generatedAt: Date;
+  generatedBy: string;
+  from: Date;
+  to: Date;
+  verification: AuditVerification;
+  entries: AuditLog[];
+  publicKey: JsonWebKey;
+  keyFingerprint: string;
+  signature: string;
+}
+
+export interface ExtractCheck {
+  signatureValid: boolean;
+  /** Entries whose hash no longer matches their contents */
+  alteredEntries: number;
+  keyFingerprint: string;
+  /** Whether this device's key signed the extract */
+  signedHere: boolean;
+}
+
+const EXTRACT_FORMAT = 'pharmacy-audit-extract';
+const SIGNING_KEY_ID = 'device';
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+// Entries are checked in pages so long logs are not loaded at once
+const VERIFY_PAGE_SIZE = 1000;
 
 export class AuditService {
-  static async logAction(action: Omit<AuditLog, 'id' | 'timestamp' | 'userId'> & { userId?: string }): Promise<void> {
-    const auditLog: AuditLog = {
+  static async logAction(action: Omit<UnsealedAuditLog, 'id' | 'timestamp' | 'userId'> & { userId?: string }): Promise<void> {
+    await this.appendEntries([{
       ...action,
-      userId: action.userId || 'system-user',
+      userId: action.userId || usePharmacyStore.getState().currentUser?.id || 'system-user',
       id: crypto.randomUUID(),
       timestamp: new Date()
-    };
-    
-    await db.auditLogs.add(auditLog);
+    }]);
+  }
+
+  /**
+   * Chain entries onto the end of the log. Inside a caller's transaction the entries
+   * commit or roll back with the change they record.
+   */
+  static async appendEntries(entries: UnsealedAuditLog[]): Promise<void> {
+    await db.transaction('rw', db.auditLogs, async () => {
+      const last = await db.auditLogs.orderBy('sequence').last();
+      // Hashing is not an IndexedDB request; waitFor keeps the transaction open meanwhile
+      const sealed = await Dexie.waitFor(sealAuditEntries(entries, last));
+      await db.auditLogs.bulkAdd(sealed);
+    });
   }
 
   static async getAuditTrail(entityId: string): Promise<AuditLog[]> {
@@ -28,4 +97,197 @@ export class AuditService {
       .limit(limit)
       .toArray();
   }
-}
\ No newline at end of file
+
+  /**
+   * Entries matching every given filter, newest first
+   */
+  static async searchLogs(filters: AuditLogFilters, limit: number = 500): Promise<AuditLog[]> {
+    return await db.auditLogs
+      .where('timestamp')
+      .between(filters.from ?? new Date(0), filters.to ?? new Date(8.64e15), true, true)
+      .reverse()
+      .filter(log =>
+        (!filters.userId || log.userId === filters.userId) &&
+        (!filters.action || log.action === filters.action) &&
+        (!filters.entityType || log.entityType === filters.entityType)
+      )
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * Every entry for a medicine and its batches, including batches since deleted, newest first
+   */
+  static async getMedicineHistory(medicineId: string): Promise<AuditLog[]> {
+    const batchIds = await db.batches.where('medicineId').equals(medicineId).primaryKeys();
+    const deletedBatches = await db.auditLogs
+      .where('action')
+      .equals('DELETE')
+      .filter(log => log.entityType === 'BATCH' && log.oldData?.medicineId === medicineId)
+      .toArray();
+
+    const entries = await db.auditLogs
+      .where('entityId')
+      .anyOf([medicineId, ...batchIds, ...deletedBatches.map(log => log.entityId)])
+      .toArray();
+    return entries.sort((a, b) => b.sequence - a.sequence);
+  }
+
+  /**
+   * Walk the chain from the first entry and report every entry that was changed,
+   * removed or inserted since it was written
+   */
+  static async verifyChain(): Promise<AuditVerification> {
+    const breaks: AuditChainBreak[] = [];
+    let previous: AuditLog | undefined;
+    let checked = 0;
+
+    for (;;) {
+      const page = await db.auditLogs
+        .where('sequence')
+        .above(previous?.sequence ?? 0)
+        .limit(VERIFY_PAGE_SIZE)
+        .toArray();
+
+      for (const entry of page) {
+        const expected = (previous?.sequence ?? 0) + 1;
+        if (entry.sequence !== expected) {
+          breaks.push({
+            sequence: expected,
+            problem: entry.sequence === expected + 1
+              ? `Entry ${expected} is missing`
+              : `Entries ${expected} to ${entry.sequence - 1} are missing`
+          });
+        } else if (entry.previousHash !== (previous?.hash ?? AUDIT_GENESIS_HASH)) {
+          breaks.push({ sequence: entry.sequence, entryId: entry.id, problem: 'Does not link to the entry before it' });
+        }
+        if (await hashAuditEntry(entry) !== entry.hash) {
+          breaks.push({ sequence: entry.sequence, entryId: entry.id, problem: 'Changed after it was recorded' });
+        }
+        previous = entry;
+        checked++;
+      }
+      if (page.length < VERIFY_PAGE_SIZE) break;
+    }
+
+    // Rows without a sequence are invisible to the walk above
+    const unchained = (await db.auditLogs.count()) - checked;
+    if (unchained > 0) {
+      breaks.push({ sequence: (previous?.sequence ?? 0) + 1, problem: `${unchained} ${unchained === 1 ? 'entry was' : 'entries were'} added outside the chain` });
+    }
+
+    return {
+      checkedAt: new Date(),
+      entries: checked,
+      headSequence: previous?.sequence ?? 0,
+      headHash: previous?.hash ?? AUDIT_GENESIS_HASH,
+      breaks
+    };
+  }
+
+  /**
+   * Export the entries recorded between two dates with the current verification result,
+   * signed with this device's key
+   */
+  static async exportExtract(from: Date, to: Date): Promise<Blob> {
+    const { settings, currentUser } = usePharmacyStore.getState();
+    const verification = await this.verifyChain();
+    const entries = await db.auditLogs.where('timestamp').between(from, to, true, true).sortBy('sequence');
+    const signingKey = await this.getSigningKey();
+
+    const unsigned: Omit<AuditExtract, 'signature'> = {
+      format: EXTRACT_FORMAT,
+      shopName: settings.shopName,
+      generatedAt: new Date(),
+      generatedBy: currentUser?.name ?? 'System',
+      from,
+      to,
+      verification,
+      entries,
+      publicKey: signingKey.publicKey,
+      keyFingerprint: signingKey.fingerprint
+    };
+    const signature = await crypto.subtle.sign(
+      SIGNATURE_ALGORITHM,
+      signingKey.privateKey,
+      new TextEncoder().encode(canonicalJson(unsigned))
+    );
+
+    const extract: AuditExtract = { ...unsigned, signature: toBase64(new Uint8Array(signature)) };
+    return new Blob([JSON.stringify(extract, null, 2)], { type: 'application/json' });
+  }
+
+  /**
+   * Check an exported extract against the public key it carries and re-hash its entries
+   */
+  static async checkExtract(file: Blob): Promise<ExtractCheck> {
+    let extract: AuditExtract;
+    try {
+      extract = JSON.parse(await file.text());
+    } catch {
+      throw new Error('This is not an audit extract');
+    }
+    if (extract?.format !== EXTRACT_FORMAT || !extract.signature || !extract.publicKey) {
+      throw new Error('This is not an audit extract');
+    }
+
+    const { signature, ...unsigned } = extract;
+    const publicKey = await crypto.subtle.importKey(
+      'jwk',
+      extract.publicKey,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const signatureValid = await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      publicKey,
+      fromBase64(signature),
+      new TextEncoder().encode(canonicalJson(unsigned))
+    );
+
+    let alteredEntries = 0;
+    for (const entry of extract.entries ?? []) {
+      if (await hashAuditEntry(entry) !== entry.hash) alteredEntries++;
+    }
+
+    const deviceKey = await db.auditKeys.get(SIGNING_KEY_ID);
+    const keyFingerprint = await this.fingerprint(extract.publicKey);
+    return {
+      signatureValid,
+      alteredEntries,
+      keyFingerprint,
+      signedHere: deviceKey?.fingerprint === keyFingerprint
+    };
+  }
+
+  static async getKeyFingerprint(): Promise<string> {
+    return (await this.getSigningKey()).fingerprint;
+  }
+
+  /**
+   * The device signing key, created on first use
+   */
+  private static async getSigningKey(): Promise<AuditSigningKey> {
+    const existing = await db.auditKeys.get(SIGNING_KEY_ID);
+    if (existing) return existing;
+
+    const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+    const publicKey = await crypto.subtle.exportKey('jwk', pair.publicKey);
+    const signingKey: AuditSigningKey = {
+      id: SIGNING_KEY_ID,
+      privateKey: pair.privateKey,
+      publicKey,
+      fingerprint: await this.fingerprint(publicKey),
+      createdAt: new Date()
+    };
+    await db.auditKeys.put(signingKey);
+    return signingKey;
+  }
+
+  private static async fingerprint(publicKey: JsonWebKey): Promise<string> {
+    // Only the curve point identifies the key; export metadata such as key_ops varies
+    const hex = await sha256Hex(canonicalJson({ crv: publicKey.crv, kty: publicKey.kty, x: publicKey.x, y: publicKey.y }));
+    return hex.slice(0, 32).replace(/(.{4})(?=.)/g, '$1 ').toUpperCase();
+  }
+}
@@ -0,0 +1,181 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../database';
+import { LATEST_VERSION } from '../database/migrations';
+import { usePharmacyStore } from '../store';
+import { Medicine, User } from '../types';
+import { AuditService } from './audit';
+import { BackupService } from './backup';
+import { PermissionError } from './permissions';
+
+const PASSPHRASE = 'correct horse battery';
+
+const medicine = (id: string, name: string): Medicine => ({
+  id,
+  name,
+  brandName: name,
+  manufacturer: 'GSK',
+  scheduleType: 'GENERAL',
+  hsn: '30049099',
+  gst: 12,
+  minStock: 10,
+  maxStock: 100,
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date('2024-04-01T10:00:00Z')
+});
+
+const owner: User = {
+  id: 'owner-1',
+  name: 'Asha Rao',
+  role: 'OWNER',
+  pinHash: '',
+  pinSalt: '',
+  active: true,
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date('2024-04-01T10:00:00Z')
+};
+
+describe('BackupService', () => {
+  beforeEach(() => {
+    usePharmacyStore.getState().setCurrentUser(owner);
+  });
+
+  afterEach(async () => {
+    usePharmacyStore.getState().setCurrentUser(null);
+    await db.transaction('rw', db.tables, async () => {
+      await Promise.all(db.tables.map(table => table.clear()));
+    });
+  });
+
+  it('restores every record, with dates intact, in replace mode', async () => {
+    await db.medicines.add(medicine('med-1', 'Crocin'));
+    await db.invoiceCounters.add({ id: 'INV-2024-25', lastNumber: 42, updatedAt: new Date() });
+    const backup = await BackupService.createBackup(PASSPHRASE);
+
+    await db.medicines.clear();
+    await db.medicines.add(medicine('med-2', 'Dolo'));
+    const summary = await BackupService.restoreBackup(backup, PASSPHRASE, 'replace');
+
+    expect(summary.tables.medicines).toEqual({ restored: 1, skipped: 0 });
+    expect(await db.medicines.toCollection().primaryKeys()).toEqual(['med-1']);
+    const restored = await db.medicines.get('med-1');
+    expect(restored?.createdAt).toBeInstanceOf(Date);
+    expect(restored?.createdAt.toISOString()).toBe('2024-04-01T10:00:00.000Z');
+    expect((await db.invoiceCounters.get('INV-2024-25'))?.lastNumber).toBe(42);
+    // The log comes back as it was in the backup, without entries for the restore's own writes,
+    // followed by one entry recording the restore itself
+    const log = await db.auditLogs.orderBy('sequence').toArray();
+    expect(log.map(entry => [entry.action, entry.entityId])).toEqual([['CREATE', 'med-1'], ['RESTORE', summary.exportedAt]]);
+    expect(log[1]).toMatchObject({
+      userId: 'owner-1',
+      newData: { mode: 'replace', exportedAt: summary.exportedAt, schemaVersion: LATEST_VERSION }
+    });
+    expect(log[1].previousHash).toBe(log[0].hash);
+  });
+
+  it('keeps local records and moves counters forward in merge mode', async () => {
+    await db.medicines.add(medicine('med-1', 'Crocin'));
+    await db.invoiceCounters.add({ id: 'INV-2024-25', lastNumber: 42, updatedAt: new Date() });
+    const backup = await BackupService.createBackup(PASSPHRASE);
+
+    await db.medicines.update('med-1', { name: 'Crocin Advance' });
+    await db.medicines.add(medicine('med-2', 'Dolo'));
+    await db.invoiceCounters.update('INV-2024-25', { lastNumber: 7 });
+    await BackupService.restoreBackup(backup, PASSPHRASE, 'merge');
+
+    expect((await db.medicines.get('med-1'))?.name).toBe('Crocin Advance');
+    expect(await db.medicines.count()).toBe(2);
+    expect((await db.invoiceCounters.get('INV-2024-25'))?.lastNumber).toBe(42);
+  });
+
+  it('restores prescription scans stored as blobs', async () => {
+    await db.prescriptions.add({
+      id: 'rx-1',
+      prescriptionNumber: 'RX-118',
+      patientName: 'Meena Iyer',
+      doctorName: 'Dr. Kulkarni',
+      prescribedDate: new Date('2024-04-01'),
+      items: [{ name: 'Alprax 0.5' }],
+      refillsAllowed: 1,
+      image: new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], { type: 'image/png' }),
+      createdAt: new Date('2024-04-01T10:00:00Z')
+    });
+    const backup = await BackupService.createBackup(PASSPHRASE);
+
+    await db.prescriptions.clear();
+    await BackupService.restoreBackup(backup, PASSPHRASE, 'replace');
+
+    const image = (await db.prescriptions.get('rx-1'))?.image;
+    expect(image?.type).toBe('image/png');
+    expect(new Uint8Array(await image!.arrayBuffer())).toEqual(new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+  });
+
+  it('leaves device-only backup tables out of the export', async () => {
+    const payload = await BackupService.exportTables();
+
+    expect(Object.keys(payload.tables)).toContain('medicines');
+    expect(Object.keys(payload.tables)).not.toContain('backupSchedule');
+    expect(Object.keys(payload.tables)).not.toContain('backupRuns');
+    expect(Object.keys(payload.tables)).not.toContain('auditKeys');
+  });
+
+  it('chains merged audit entries after the ones already on this device', async () => {
+    await AuditService.logAction({ action: 'CREATE', entityType: 'MEDICINE', entityId: 'med-1' });
+    const backup = await BackupService.createBackup(PASSPHRASE);
+
+    await db.auditLogs.clear();
+    await AuditService.logAction({ action: 'CREATE', entityType: 'MEDICINE', entityId: 'med-2' });
+    await BackupService.restoreBackup(backup, PASSPHRASE, 'merge');
+
+    const entries = await db.auditLogs.orderBy('sequence').toArray();
+    expect(entries.map(entry => [entry.action, entry.entityId])).toEqual([
+      ['CREATE', 'med-2'], ['CREATE', 'med-1'], ['RESTORE', entries[2].entityId]
+    ]);
+    expect((await AuditService.verifyChain()).breaks).toEqual([]);
+  });
+
+  it('only lets the owner restore a backup', async () => {
+    await db.medicines.add(medicine('med-1', 'Crocin'));
+    const backup = await BackupService.createBackup(PASSPHRASE);
+    usePharmacyStore.getState().setCurrentUser({ ...owner, id: 'cashier-1', role: 'CASHIER' });
+
+    await expect(BackupService.restoreBackup(backup, PASSPHRASE, 'replace')).rejects.toThrow(PermissionError);
+  });
+
+  it('rejects a wrong passphrase without touching the database', async () => {
+    await db.medicines.add(medicine('med-1', 'Crocin'));
+    const backup = await BackupService.createBackup(PASSPHRASE);
+
+    await expect(BackupService.restoreBackup(backup, 'not the passphrase', 'replace')).rejects.toThrow(/Wrong passphrase/);
+    expect(await db.medicines.count()).toBe(1);
+  });
+
+  it('rejects backups from a newer database version', async () => {
+    const backup = await BackupService.createBackup(PASSPHRASE);
+    const envelope = JSON.parse(await backup.text());
+    const newer = new Blob([JSON.stringify({ ...envelope, schemaVersion: LATEST_VERSION + 1 })]);
+
+    await expect(BackupService.readBackup(newer, PASSPHRASE)).rejects.toThrow(/Update the app/);
+  });
+
+  it('upgrades a backup taken on an older database version before restoring it', async () => {
+    const backup = await BackupService.sealBackup({
+      schemaVersion: 1,
+      exportedAt: new Date().toISOString(),
+      tables: {
+        medicines: [{ id: 'med-1', name: 'Paracetamol 500mg', brandName: 'Crocin', manufacturer: 'GSK', scheduleType: 'GENERAL', hsn: '30049099', gst: 12 }],
+        batches: [{
+          id: 'batch-1', medicineId: 'med-1', batchNumber: 'PCM001', expiryDate: new Date('2030-01-31'),
+          mrp: 25, purchasePrice: 18, sellingPrice: 23, currentStock: 40, minStock: 20, maxStock: 500,
+          supplierId: 'ACME', receivedDate: new Date('2024-01-01')
+        }]
+      }
+    }, await BackupService.createKey(PASSPHRASE));
+
+    const summary = await BackupService.restoreBackup(backup, PASSPHRASE, 'replace');
+
+    expect(summary.schemaVersion).toBe(1);
+    expect(await db.medicines.get('med-1')).toMatchObject({ minStock: 20, maxStock: 500 });
+    expect(await db.suppliers.get('ACME')).toMatchObject({ name: 'ACME' });
+  });
+});
@@ -0,0 +1,377 @@
+import Dexie, { Table } from 'dexie';
+import { format } from 'date-fns';
+import { db } from '../database';
+import { applyMigrations, LATEST_VERSION } from '../database/migrations';
+import { skipChangeAudit } from '../database/auditMiddleware';
+import { AuditLog } from '../types';
+import { fromBase64, toBase64 } from '../utils/encoding';
+import { AuditService } from './audit';
+import { PermissionService } from './permissions';
+
+export type RestoreMode = 'replace' | 'merge';
+
+/**
+ * What is written to disk: a plain JSON envelope around the AES-GCM encrypted table data
+ */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  createdAt: string;
+  encryption: {
+    algorithm: 'AES-GCM';
+    keyDerivation: 'PBKDF2-SHA-256';
+    iterations: number;
+    salt: string;
+    iv: string;
+  };
+  data: string;
+}
+
+export interface BackupPayload {
+  schemaVersion: number;
+  exportedAt: string;
+  tables: Record<string, unknown[]>;
+}
+
+export interface BackupKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
+
+export interface RestoreSummary {
+  mode: RestoreMode;
+  schemaVersion: number;
+  exportedAt: string;
+  tables: Record<string, { restored: number; skipped: number }>;
+}
+
+const BACKUP_FORMAT = 'pharmacy-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const PBKDF2_ITERATIONS = 250000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+// Tables describing this browser rather than the shop; they are neither exported nor overwritten
+const DEVICE_TABLES = ['backupSchedule', 'backupRuns', 'auditKeys'];
+
+// JSON has no Date type, so dates are tagged on the way out and revived on the way in
+function encodeDates(this: Record<string, unknown>, key: string, value: unknown) {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.getTime() } : value;
+}
+
+/**
+ * Blobs such as prescription scans are tagged the same way, as base64. Reading a Blob is
+ * asynchronous, so this is done row by row before the payload is serialised.
+ */
+const encodeBlobs = async (tables: Record<string, unknown[]>): Promise<Record<string, unknown[]>> => {
+  const encoded: Record<string, unknown[]> = {};
+  for (const [name, rows] of Object.entries(tables)) {
+    encoded[name] = await Promise.all(rows.map(async (row) => {
+      const fields = Object.entries(row as Record<string, unknown>).filter(([, value]) => value instanceof Blob);
+      if (fields.length === 0) return row;
+
+      const copy = { ...(row as Record<string, unknown>) };
+      for (const [field, value] of fields) {
+        const blob = value as Blob;
+        copy[field] = { $blob: toBase64(new Uint8Array(await blob.arrayBuffer())), type: blob.type };
+      }
+      return copy;
+    }));
+  }
+  return encoded;
+};
+
+const reviveTaggedValues = (_key: string, value: unknown) => {
+  if (value && typeof value === 'object' && '$date' in value && Object.keys(value).length === 1) {
+    const time = (value as { $date: number | null }).$date;
+    return new Date(time ?? NaN);
+  }
+  if (value && typeof value === 'object' && '$blob' in value && Object.keys(value).length === 2) {
+    const { $blob, type } = value as { $blob: string; type: string };
+    return new Blob([fromBase64($blob)], { type });
+  }
+  return value;
+};
+
+export class BackupService {
+  static getBackupTables(): Table[] {
+    return db.tables.filter(table => !DEVICE_TABLES.includes(table.name));
+  }
+
+  /**
+   * Snapshot every shop table of the database in a single read transaction
+   */
+  static async exportTables(): Promise<BackupPayload> {
+    const backupTables = this.getBackupTables();
+    return await db.transaction('r', backupTables, async () => {
+      const tables: Record<string, unknown[]> = {};
+      for (const table of backupTables) {
+        tables[table.name] = await table.toArray();
+      }
+      return { schemaVersion: db.verno, exportedAt: new Date().toISOString(), tables };
+    });
+  }
+
+  /**
+   * Export the whole database as one file encrypted with a key derived from the passphrase
+   */
+  static async createBackup(passphrase: string): Promise<Blob> {
+    return await this.sealBackup(await this.exportTables(), await this.createKey(passphrase));
+  }
+
+  /**
+   * Derive an encryption key from a passphrase with a fresh salt. The key can be kept
+   * (it is not extractable) to encrypt later backups without asking for the passphrase again.
+   */
+  static async createKey(passphrase: string): Promise<BackupKey> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`The backup passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    return {
+      key: await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS),
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS
+    };
+  }
+
+  /**
+   * Encrypt a table snapshot into the backup file format
+   */
+  static async sealBackup(payload: BackupPayload, backupKey: BackupKey): Promise<Blob> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      backupKey.key,
+      new TextEncoder().encode(JSON.stringify({ ...payload, tables: await encodeBlobs(payload.tables) }, encodeDates))
+    );
+
+    const file: BackupFile = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion: payload.schemaVersion,
+      createdAt: payload.exportedAt,
+      encryption: {
+        algorithm: 'AES-GCM',
+        keyDerivation: 'PBKDF2-SHA-256',
+        iterations: backupKey.iterations,
+        salt: backupKey.salt,
+        iv: toBase64(iv)
+      },
+      data: toBase64(new Uint8Array(ciphertext))
+    };
+
+    return new Blob([JSON.stringify(file)], { type: 'application/json' });
+  }
+
+  static getFileName(date: Date = new Date()): string {
+    return `pharmacy-backup-${format(date, 'yyyy-MM-dd-HHmmss')}.json`;
+  }
+
+  /**
+   * Decrypt a backup file and check it can be restored by this version of the app
+   */
+  static async readBackup(file: Blob, passphrase: string): Promise<BackupPayload> {
+    let envelope: Partial<BackupFile>;
+    try {
+      envelope = JSON.parse(await file.text());
+    } catch {
+      throw new Error('This is not a pharmacy backup file');
+    }
+
+    if (envelope?.format !== BACKUP_FORMAT || !envelope.encryption || typeof envelope.data !== 'string') {
+      throw new Error('This is not a pharmacy backup file');
+    }
+    if ((envelope.formatVersion ?? 0) > BACKUP_FORMAT_VERSION) {
+      throw new Error('This backup was made by a newer version of the app. Update the app before restoring it.');
+    }
+    if (typeof envelope.schemaVersion !== 'number' || envelope.schemaVersion < 1) {
+      throw new Error('The backup does not record its database version');
+    }
+    if (envelope.schemaVersion > LATEST_VERSION) {
+      throw new Error(
+        `The backup uses database version ${envelope.schemaVersion} but this app only supports up to ${LATEST_VERSION}. Update the app before restoring it.`
+      );
+    }
+
+    let payload: BackupPayload;
+    try {
+      const { iterations, salt, iv } = envelope.encryption;
+      const key = await this.deriveKey(passphrase, fromBase64(salt), iterations);
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(envelope.data));
+      payload = JSON.parse(new TextDecoder().decode(plaintext), reviveTaggedValues);
+    } catch {
+      throw new Error('Wrong passphrase, or the backup file is damaged');
+    }
+
+    if (payload.schemaVersion !== envelope.schemaVersion || !payload.tables || typeof payload.tables !== 'object') {
+      throw new Error('The backup file is damaged');
+    }
+    for (const [name, rows] of Object.entries(payload.tables)) {
+      if (!Array.isArray(rows)) {
+        throw new Error(`The backup file is damaged: table "${name}" is not a list of records`);
+      }
+    }
+
+    return payload;
+  }
+
+  /**
+   * Restore a backup into the database.
+   * `replace` wipes every table first; `merge` only adds records this device does not already have.
+   */
+  static async restoreBackup(file: Blob, passphrase: string, mode: RestoreMode): Promise<RestoreSummary> {
+    PermissionService.require('backup.restore');
+    const backup = await this.readBackup(file, passphrase);
+    const payload = await this.upgradePayload(backup);
+
+    const backupTables = this.getBackupTables();
+    const unknown = Object.keys(payload.tables).find(name => !backupTables.some(table => table.name === name));
+    if (unknown) {
+      throw new Error(`The backup contains an unknown table "${unknown}"`);
+    }
+
+    const summary: RestoreSummary = {
+      mode,
+      schemaVersion: backup.schemaVersion,
+      exportedAt: backup.exportedAt,
+      tables: {}
+    };
+
+    await db.transaction('rw', backupTables, async (tx) => {
+      // The restored audit log already holds the history of these rows
+      skipChangeAudit(tx);
+      for (const table of backupTables) {
+        const rows = payload.tables[table.name] ?? [];
+        summary.tables[table.name] = mode === 'replace'
+          ? await this.replaceTable(table, rows)
+          : await this.mergeTable(table, rows);
+      }
+
+      if (mode === 'merge') {
+        await this.rebalanceLedgers();
+      }
+
+      // A restore can roll the whole log back to an older, still valid chain, so it is recorded after it
+      await AuditService.logAction({
+        action: 'RESTORE',
+        entityType: 'BACKUP',
+        entityId: backup.exportedAt,
+        newData: { mode, exportedAt: backup.exportedAt, schemaVersion: backup.schemaVersion }
+      });
+    });
+
+    return summary;
+  }
+
+  private static async replaceTable(table: Table, rows: unknown[]) {
+    await table.clear();
+    await table.bulkAdd(rows);
+    return { restored: rows.length, skipped: 0 };
+  }
+
+  private static async mergeTable(table: Table, rows: unknown[]) {
+    const keyPath = table.schema.primKey.keyPath as string;
+    const records = rows as Record<string, unknown>[];
+    const existing = await table.bulkGet(records.map(row => row[keyPath] as string));
+
+    // Counters must never step back, or the next invoice would reuse a restored number
+    if (table.name === db.invoiceCounters.name) {
+      for (const [index, row] of records.entries()) {
+        const current = existing[index];
+        if (current && (row.lastNumber as number) > current.lastNumber) {
+          await table.put(row);
+        }
+      }
+    }
+
+    const missing = records.filter((_, index) => existing[index] === undefined);
+    // Audit entries from the backup are chained on after this device's own entries
+    if (table.name === db.auditLogs.name) {
+      const ordered = (missing as unknown as AuditLog[]).sort((a, b) => a.sequence - b.sequence);
+      await AuditService.appendEntries(ordered);
+      return { restored: missing.length, skipped: rows.length - missing.length };
+    }
+    try {
+      await table.bulkAdd(missing);
+    } catch (error) {
+      // Records clashing on a unique index (e.g. an invoice number reused on this device) are skipped
+      if (error instanceof Dexie.BulkError) {
+        return { restored: missing.length - error.failures.length, skipped: rows.length - missing.length + error.failures.length };
+      }
+      throw error;
+    }
+    return { restored: missing.length, skipped: rows.length - missing.length };
+  }
+
+  /**
+   * Merged ledger entries change what is owed, so balances are rebuilt from the ledgers
+   */
+  private static async rebalanceLedgers() {
+    const supplierBalances = new Map<string, number>();
+    await db.supplierLedger.each(entry => {
+      supplierBalances.set(entry.supplierId, (supplierBalances.get(entry.supplierId) ?? 0) + entry.amount);
+    });
+    await db.suppliers.toCollection().modify(supplier => {
+      supplier.outstandingBalance = supplierBalances.get(supplier.id) ?? 0;
+    });
+
+    const customerBalances = new Map<string, number>();
+    await db.customerLedger.each(entry => {
+      customerBalances.set(entry.customerId, (customerBalances.get(entry.customerId) ?? 0) + entry.amount);
+    });
+    await db.customers.toCollection().modify(customer => {
+      customer.creditBalance = customerBalances.get(customer.id) ?? 0;
+    });
+  }
+
+  /**
+   * Bring a backup from an older schema up to date by loading it into a scratch database
+   * at its own version and letting the regular migrations upgrade it
+   */
+  private static async upgradePayload(payload: BackupPayload): Promise<BackupPayload> {
+    if (payload.schemaVersion === LATEST_VERSION) return payload;
+
+    const name = `PharmacyDB-restore-${crypto.randomUUID()}`;
+    const staging = new Dexie(name);
+    const upgraded = new Dexie(name);
+    try {
+      applyMigrations(staging, payload.schemaVersion);
+      await staging.open();
+      await staging.transaction('rw', staging.tables, async () => {
+        for (const [tableName, rows] of Object.entries(payload.tables)) {
+          if (!staging.tables.some(table => table.name === tableName)) {
+            throw new Error(`The backup contains an unknown table "${tableName}"`);
+          }
+          await staging.table(tableName).bulkAdd(rows);
+        }
+      });
+      staging.close();
+
+      applyMigrations(upgraded);
+      await upgraded.open();
+      const tables: Record<string, unknown[]> = {};
+      for (const table of upgraded.tables.filter(table => !DEVICE_TABLES.includes(table.name))) {
+        tables[table.name] = await table.toArray();
+      }
+      return { ...payload, schemaVersion: upgraded.verno, tables };
+    } finally {
+      staging.close();
+      upgraded.close();
+      await Dexie.delete(name);
+    }
+  }
+
+  private static async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return await crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '../database';
+import { BackupSchedulerService } from './backupScheduler';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * In-memory stand-in for a File System Access directory, enough for writing and removing snapshots
+ */
+const fakeDirectory = () => {
+  const files = new Map<string, Blob>();
+  const handle = {
+    getFileHandle: async (name: string) => ({
+      createWritable: async () => ({
+        write: async (data: Blob) => {
+          files.set(name, data);
+        },
+        close: async () => {}
+      })
+    }),
+    removeEntry: async (name: string) => {
+      if (!files.delete(name)) throw new DOMException(`${name} not found`, 'NotFoundError');
+    },
+    getDirectoryHandle: async () => handle
+  };
+  return { files, handle: handle as unknown as FileSystemDirectoryHandle };
+};
+
+describe('BackupSchedulerService', () => {
+  let browserStorage: ReturnType<typeof fakeDirectory>;
+
+  beforeEach(() => {
+    browserStorage = fakeDirectory();
+    vi.stubGlobal('navigator', { storage: { getDirectory: async () => browserStorage.handle } });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-05-01T09:00:00'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await Promise.all([db.backupSchedule.clear(), db.backupRuns.clear()]);
+  });
+
+  const later = (hours: number) => vi.setSystemTime(new Date(Date.now() + hours * HOUR));
+
+  it('backs up once a day and waits an hour after a failure', async () => {
+    expect(await BackupSchedulerService.runIfDue('SCHEDULED')).toBeUndefined();
+    await BackupSchedulerService.saveSchedule({ target: 'OPFS', retention: 3, passphrase: 'correct horse battery' });
+
+    expect(await BackupSchedulerService.runIfDue('SCHEDULED')).toMatchObject({ status: 'SUCCESS', target: 'OPFS' });
+    later(23);
+    expect(await BackupSchedulerService.runIfDue('SCHEDULED')).toBeUndefined();
+
+    later(2);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('navigator', { storage: { getDirectory: async () => { throw new Error('Storage is full'); } } });
+    expect(await BackupSchedulerService.runIfDue('SCHEDULED')).toMatchObject({ status: 'FAILED', error: 'Storage is full' });
+    later(0.5);
+    expect(await BackupSchedulerService.runIfDue('SCHEDULED')).toBeUndefined();
+    // Closing the app does not wait for the retry interval
+    expect(await BackupSchedulerService.runIfDue('CLOSE')).toMatchObject({ status: 'FAILED' });
+
+    await BackupSchedulerService.disable();
+    later(48);
+    expect(await BackupSchedulerService.runIfDue('SCHEDULED')).toBeUndefined();
+    expect(await db.backupRuns.count()).toBe(3);
+  });
+
+  it('keeps only the newest snapshots', async () => {
+    await BackupSchedulerService.saveSchedule({ target: 'OPFS', retention: 2, passphrase: 'correct horse battery' });
+
+    for (let day = 0; day < 3; day++) {
+      await BackupSchedulerService.runBackup('MANUAL');
+      later(24);
+    }
+
+    const runs = await db.backupRuns.orderBy('startedAt').toArray();
+    expect(runs.map(run => Boolean(run.prunedAt))).toEqual([true, false, false]);
+    expect([...browserStorage.files.keys()].sort()).toEqual([runs[1].fileName, runs[2].fileName]);
+  });
+
+  it('removes the browser storage snapshots once backups go to a folder instead', async () => {
+    await BackupSchedulerService.saveSchedule({ target: 'OPFS', retention: 2, passphrase: 'correct horse battery' });
+    await BackupSchedulerService.runBackup('MANUAL');
+    later(24);
+    await BackupSchedulerService.runBackup('MANUAL');
+    later(24);
+
+    // Folder handles cannot be cloned outside a browser, so the stored schedule is patched in
+    const folder = fakeDirectory();
+    await db.backupSchedule.update('auto', { target: 'FOLDER' });
+    const stored = (await BackupSchedulerService.getSchedule())!;
+    vi.spyOn(BackupSchedulerService, 'getSchedule').mockResolvedValue({ ...stored, directoryHandle: folder.handle });
+
+    await BackupSchedulerService.runBackup('MANUAL');
+    expect(browserStorage.files.size).toBe(1);
+    later(24);
+    await BackupSchedulerService.runBackup('MANUAL');
+
+    expect(browserStorage.files.size).toBe(0);
+    expect(folder.files.size).toBe(2);
+    expect(await db.backupRuns.filter(run => !run.prunedAt).count()).toBe(2);
+  });
+});
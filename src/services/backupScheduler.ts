@@ -0,0 +1,259 @@
+import { db } from '../database';
+import { BackupRun, BackupSchedule, BackupTarget } from '../types';
+import { BackupService } from './backup';
+
+export interface BackupScheduleInput {
+  target: BackupTarget;
+  retention: number;
+  directoryHandle?: FileSystemDirectoryHandle;
+  /** Required when backups are first set up; otherwise replaces the key in use */
+  passphrase?: string;
+}
+
+export const BACKUP_TARGET_LABELS: Record<BackupTarget, string> = {
+  OPFS: 'Browser storage',
+  FOLDER: 'Folder on this computer'
+};
+
+const SCHEDULE_ID = 'auto';
+const OPFS_DIRECTORY = 'backups';
+const HOUR = 60 * 60 * 1000;
+// A successful snapshot older than this is due for replacement
+const BACKUP_INTERVAL = 24 * HOUR;
+// After a failure, wait this long before the scheduler tries again on its own
+const RETRY_INTERVAL = HOUR;
+// Switching tabs also hides the page, so hiding it only snapshots if the last backup is older than this
+const CLOSE_BACKUP_INTERVAL = 15 * 60 * 1000;
+const CHECK_INTERVAL = 15 * 60 * 1000;
+const STARTUP_DELAY = 60 * 1000;
+
+// The File System Access API is not in the TypeScript DOM library yet
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+};
+type PermissionedDirectoryHandle = FileSystemDirectoryHandle & {
+  queryPermission?: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+  requestPermission?: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+};
+
+let activeRun: Promise<BackupRun> | null = null;
+
+export class BackupSchedulerService {
+  static isTargetSupported(target: BackupTarget): boolean {
+    return target === 'OPFS'
+      ? typeof navigator.storage?.getDirectory === 'function'
+      : typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+  }
+
+  static async chooseFolder(): Promise<FileSystemDirectoryHandle> {
+    const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+    if (!picker) {
+      throw new Error('This browser cannot save backups to a folder; use browser storage instead');
+    }
+    return await picker({ id: 'pharmacy-backups', mode: 'readwrite' });
+  }
+
+  static async getSchedule(): Promise<BackupSchedule | undefined> {
+    return await db.backupSchedule.get(SCHEDULE_ID);
+  }
+
+  static async saveSchedule(input: BackupScheduleInput): Promise<BackupSchedule> {
+    if (!Number.isInteger(input.retention) || input.retention < 1) {
+      throw new Error('Keep at least one backup');
+    }
+    if (input.target === 'FOLDER' && !input.directoryHandle) {
+      throw new Error('Choose the folder to save backups in');
+    }
+
+    const backupKey = input.passphrase ? await BackupService.createKey(input.passphrase) : await this.getSchedule();
+    if (!backupKey) {
+      throw new Error('Set a passphrase to encrypt the backups with');
+    }
+
+    const schedule: BackupSchedule = {
+      id: SCHEDULE_ID,
+      enabled: true,
+      target: input.target,
+      retention: input.retention,
+      directoryHandle: input.target === 'FOLDER' ? input.directoryHandle : undefined,
+      key: backupKey.key,
+      salt: backupKey.salt,
+      iterations: backupKey.iterations,
+      updatedAt: new Date()
+    };
+    await db.backupSchedule.put(schedule);
+    return schedule;
+  }
+
+  static async disable(): Promise<void> {
+    await db.backupSchedule.update(SCHEDULE_ID, { enabled: false, updatedAt: new Date() });
+  }
+
+  static async getRuns(limit: number = 10): Promise<BackupRun[]> {
+    return await db.backupRuns.orderBy('startedAt').reverse().limit(limit).toArray();
+  }
+
+  static async getLastSuccess(): Promise<BackupRun | undefined> {
+    return await db.backupRuns.orderBy('startedAt').reverse().filter(run => run.status === 'SUCCESS').first();
+  }
+
+  /**
+   * Write an encrypted snapshot to the configured target and drop snapshots beyond the retention count.
+   * `interactive` runs come from a click, so the browser may be asked for folder access again.
+   */
+  static async runBackup(trigger: BackupRun['trigger'], interactive: boolean = false): Promise<BackupRun> {
+    if (!activeRun) {
+      activeRun = this.writeSnapshot(trigger, interactive).finally(() => {
+        activeRun = null;
+      });
+    }
+    return await activeRun;
+  }
+
+  /**
+   * Run a backup if the last successful one is older than `maxAge`
+   */
+  static async runIfDue(trigger: BackupRun['trigger'], maxAge: number = BACKUP_INTERVAL): Promise<BackupRun | undefined> {
+    const schedule = await this.getSchedule();
+    if (!schedule?.enabled) return undefined;
+
+    const now = Date.now();
+    const [lastSuccess, lastRun] = await Promise.all([
+      this.getLastSuccess(),
+      db.backupRuns.orderBy('startedAt').last()
+    ]);
+    if (lastSuccess && now - new Date(lastSuccess.startedAt).getTime() < maxAge) return undefined;
+    if (trigger === 'SCHEDULED' && lastRun?.status === 'FAILED' && now - new Date(lastRun.startedAt).getTime() < RETRY_INTERVAL) {
+      return undefined;
+    }
+
+    return await this.runBackup(trigger);
+  }
+
+  /**
+   * Check for a due backup periodically and when the app is closed or hidden.
+   * Returns a function that stops the scheduler.
+   */
+  static start(): () => void {
+    const check = () => {
+      this.runIfDue('SCHEDULED').catch(error => console.error('Error running scheduled backup:', error));
+    };
+    const onHide = () => {
+      if (document.visibilityState === 'hidden') {
+        this.runIfDue('CLOSE', CLOSE_BACKUP_INTERVAL).catch(error => console.error('Error running backup on close:', error));
+      }
+    };
+
+    const startup = setTimeout(check, STARTUP_DELAY);
+    const interval = setInterval(check, CHECK_INTERVAL);
+    document.addEventListener('visibilitychange', onHide);
+    window.addEventListener('pagehide', onHide);
+
+    return () => {
+      clearTimeout(startup);
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onHide);
+      window.removeEventListener('pagehide', onHide);
+    };
+  }
+
+  private static async writeSnapshot(trigger: BackupRun['trigger'], interactive: boolean): Promise<BackupRun> {
+    const schedule = await this.getSchedule();
+    if (!schedule?.enabled) {
+      throw new Error('Automatic backups are not set up');
+    }
+
+    const startedAt = new Date();
+    let run: BackupRun;
+    let directory: FileSystemDirectoryHandle | undefined;
+    try {
+      directory = await this.getDirectory(schedule, interactive);
+      const backup = await BackupService.sealBackup(await BackupService.exportTables(), schedule);
+      const fileName = BackupService.getFileName(startedAt);
+
+      const handle = await directory.getFileHandle(fileName, { create: true });
+      const writable = await handle.createWritable();
+      await writable.write(backup);
+      await writable.close();
+
+      run = { id: crypto.randomUUID(), trigger, target: schedule.target, status: 'SUCCESS', fileName, size: backup.size, startedAt, finishedAt: new Date() };
+      await db.backupRuns.add(run);
+    } catch (error) {
+      console.error('Error writing backup snapshot:', error);
+      run = {
+        id: crypto.randomUUID(),
+        trigger,
+        target: schedule.target,
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : 'Backup failed',
+        startedAt,
+        finishedAt: new Date()
+      };
+      await db.backupRuns.add(run);
+    }
+
+    if (directory && run.status === 'SUCCESS') {
+      // The snapshot is safely written; failing to tidy up old ones does not fail the backup
+      await this.prune(schedule, directory).catch(error => console.error('Error removing old backups:', error));
+    }
+    return run;
+  }
+
+  private static async getDirectory(schedule: BackupSchedule, interactive: boolean): Promise<FileSystemDirectoryHandle> {
+    if (schedule.target === 'OPFS') {
+      return await this.getBrowserDirectory();
+    }
+
+    const handle = schedule.directoryHandle as PermissionedDirectoryHandle | undefined;
+    if (!handle) {
+      throw new Error('No backup folder has been chosen');
+    }
+    // Browsers forget folder access between sessions; it can only be granted again from a click
+    let permission = (await handle.queryPermission?.({ mode: 'readwrite' })) ?? 'granted';
+    if (permission !== 'granted' && interactive) {
+      permission = (await handle.requestPermission?.({ mode: 'readwrite' })) ?? 'denied';
+    }
+    if (permission !== 'granted') {
+      throw new Error('Access to the backup folder has lapsed. Click "Back Up Now" in Settings to allow it again.');
+    }
+    return handle;
+  }
+
+  private static async getBrowserDirectory(): Promise<FileSystemDirectoryHandle> {
+    const root = await navigator.storage.getDirectory();
+    return await root.getDirectoryHandle(OPFS_DIRECTORY, { create: true });
+  }
+
+  /**
+   * Delete the oldest snapshots beyond the retention count. The count spans targets, so after a
+   * switch to a folder the snapshots left in browser storage are removed as new ones replace them.
+   * A folder no longer configured cannot be reached, and its snapshots are left where they are.
+   */
+  private static async prune(schedule: BackupSchedule, directory: FileSystemDirectoryHandle) {
+    const kept = await db.backupRuns
+      .orderBy('startedAt')
+      .reverse()
+      .filter(run => run.status === 'SUCCESS' && !run.prunedAt)
+      .toArray();
+
+    for (const run of kept.slice(schedule.retention)) {
+      if (!run.fileName) continue;
+
+      let runDirectory: FileSystemDirectoryHandle | undefined;
+      if (run.target === schedule.target) {
+        runDirectory = directory;
+      } else if (run.target === 'OPFS') {
+        runDirectory = await this.getBrowserDirectory();
+      }
+      if (!runDirectory) continue;
+
+      try {
+        await runDirectory.removeEntry(run.fileName);
+      } catch (error) {
+        // Already deleted by hand; nothing left to remove
+        if (!(error instanceof DOMException && error.name === 'NotFoundError')) throw error;
+      }
+      await db.backupRuns.update(run.id, { prunedAt: new Date() });
+    }
+  }
+}
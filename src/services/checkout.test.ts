@@ -0,0 +1,194 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../database';
+import { usePharmacyStore } from '../store';
+import { Batch, Medicine } from '../types';
+import { CheckoutService } from './checkout';
+import { PrescriptionService } from './prescriptions';
+import { ReturnsService } from './returns';
+import { UserService } from './users';
+
+const medicine = (id: string, scheduleType: Medicine['scheduleType']): Medicine => ({
+  id,
+  name: 'Alprazolam 0.5mg',
+  brandName: `Alprax ${id}`,
+  manufacturer: 'Torrent',
+  scheduleType,
+  hsn: '30049099',
+  gst: 12,
+  minStock: 10,
+  maxStock: 100,
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date('2024-04-01T10:00:00Z')
+});
+
+const batch: Batch = {
+  id: 'batch-1',
+  medicineId: 'med-h1',
+  batchNumber: 'ALP001',
+  expiryDate: new Date('2027-01-31'),
+  mrp: 60,
+  purchasePrice: 40,
+  sellingPrice: 55,
+  currentStock: 20,
+  supplierId: 'sup-1',
+  receivedDate: new Date('2024-04-01')
+};
+
+describe('CheckoutService prescription rules', () => {
+  beforeEach(async () => {
+    const owner = await UserService.saveUser({ name: 'Asha Rao', role: 'OWNER', active: true, pin: '4321' });
+    usePharmacyStore.getState().setCurrentUser(owner);
+    await db.batches.add(batch);
+  });
+
+  afterEach(async () => {
+    usePharmacyStore.getState().setCurrentUser(null);
+    await Promise.all([
+      db.users.clear(), db.batches.clear(), db.sales.clear(), db.scheduleH1Entries.clear(),
+      db.invoiceCounters.clear(), db.settings.clear(), db.prescriptions.clear(), db.creditNotes.clear()
+    ]);
+    await db.auditLogs.clear();
+  });
+
+  it('asks each schedule for its own prescription details', () => {
+    const missing = (scheduleType: Medicine['scheduleType']) =>
+      CheckoutService.missingPrescriptionFields({ items: [{ medicine: medicine('med-1', scheduleType), batch, quantity: 1 }] });
+
+    expect(missing('GENERAL')).toEqual([]);
+    expect(missing('H')).toEqual(['prescriptionNumber']);
+    expect(missing('H1')).toEqual(['prescriptionNumber', 'customerName', 'patientAddress', 'doctorName', 'doctorRegistrationNumber']);
+    expect(missing('X')).toContain('duplicateCopyReference');
+  });
+
+  it('refuses an H1 sale without prescriber details and records them in the register', async () => {
+    const request = {
+      items: [{ medicine: medicine('med-h1', 'H1'), batch, quantity: 2 }],
+      discountPercent: 0,
+      paymentMethod: 'CASH' as const,
+      customerName: 'Meena Iyer',
+      prescriptionNumber: 'RX-118',
+      doctorName: 'Dr. Kulkarni'
+    };
+
+    await expect(CheckoutService.checkout(request)).rejects.toThrow('Patient address, Doctor registration number');
+    expect(await db.sales.count()).toBe(0);
+
+    const sale = await CheckoutService.checkout({ ...request, patientAddress: '14 MG Road, Pune', doctorRegistrationNumber: 'MMC 20931' });
+    const [entry] = await db.scheduleH1Entries.toArray();
+    expect(sale.prescriptionDetails).toMatchObject({ doctorRegistrationNumber: 'MMC 20931' });
+    expect(entry).toMatchObject({
+      customerName: 'Meena Iyer',
+      customerAddress: '14 MG Road, Pune',
+      doctorName: 'Dr. Kulkarni',
+      doctorRegistrationNumber: 'MMC 20931',
+      prescriptionNumber: 'RX-118'
+    });
+  });
+
+  it('refuses a discount outside 0 to 100 percent', async () => {
+    const request = {
+      items: [{ medicine: medicine('med-gen', 'GENERAL'), batch, quantity: 1 }],
+      paymentMethod: 'CASH' as const
+    };
+
+    await expect(CheckoutService.checkout({ ...request, discountPercent: 150 })).rejects.toThrow('Discount must be between 0 and 100 percent');
+    await expect(CheckoutService.checkout({ ...request, discountPercent: -5 })).rejects.toThrow('Discount must be between 0 and 100 percent');
+    expect(await db.sales.count()).toBe(0);
+    expect(await db.invoiceCounters.count()).toBe(0);
+    expect((await db.batches.get('batch-1'))?.currentStock).toBe(20);
+  });
+
+  it('rolls the whole sale back when a batch ran short after the cart was built', async () => {
+    const otherBatch: Batch = { ...batch, id: 'batch-2', medicineId: 'med-gen', batchNumber: 'CET001', currentStock: 5 };
+    await db.batches.add(otherBatch);
+    const request = {
+      items: [
+        { medicine: medicine('med-h1', 'H1'), batch, quantity: 2 },
+        { medicine: medicine('med-gen', 'GENERAL'), batch: otherBatch, quantity: 3 }
+      ],
+      discountPercent: 0,
+      paymentMethod: 'CASH' as const,
+      customerName: 'Meena Iyer',
+      prescriptionNumber: 'RX-118',
+      patientAddress: '14 MG Road, Pune',
+      doctorName: 'Dr. Kulkarni',
+      doctorRegistrationNumber: 'MMC 20931'
+    };
+
+    // Another counter sells most of the second batch in the meantime
+    await db.batches.update('batch-2', { currentStock: 1 });
+
+    await expect(CheckoutService.checkout(request)).rejects.toThrow('Only 1 units of Alprax med-gen (batch CET001) left');
+    expect(await db.sales.count()).toBe(0);
+    expect(await db.invoiceCounters.count()).toBe(0);
+    expect(await db.scheduleH1Entries.count()).toBe(0);
+    expect((await db.batches.get('batch-1'))?.currentStock).toBe(20);
+    expect((await db.batches.get('batch-2'))?.currentStock).toBe(1);
+  });
+
+  it('fills the sale from an attached prescription until its refills run out', async () => {
+    const prescription = await PrescriptionService.savePrescription({
+      prescriptionNumber: 'RX-204',
+      patientName: 'Meena Iyer',
+      doctorName: 'Dr. Kulkarni',
+      prescribedDate: new Date('2024-04-01'),
+      items: [{ medicineId: 'med-h', name: 'Alprax med-h' }],
+      refillsAllowed: 1
+    });
+    const request = {
+      items: [{ medicine: medicine('med-h', 'H'), batch, quantity: 1 }],
+      discountPercent: 0,
+      paymentMethod: 'CASH' as const,
+      prescriptionId: prescription.id
+    };
+
+    const sale = await CheckoutService.checkout(request);
+    expect(sale).toMatchObject({ prescriptionId: prescription.id, prescriptionNumber: 'RX-204', customerName: 'Meena Iyer' });
+    await CheckoutService.checkout(request);
+    await expect(CheckoutService.checkout(request)).rejects.toThrow('Prescription RX-204 has no refills left');
+    expect(await PrescriptionService.getFillsRemaining(prescription)).toBe(0);
+  });
+
+  it('refuses scheduled medicines the attached prescription does not cover', async () => {
+    const prescription = await PrescriptionService.savePrescription({
+      prescriptionNumber: 'RX-205',
+      patientName: 'Meena Iyer',
+      doctorName: 'Dr. Kulkarni',
+      prescribedDate: new Date('2024-04-01'),
+      items: [{ name: 'Paracetamol 650mg' }],
+      refillsAllowed: 0
+    });
+
+    await expect(CheckoutService.checkout({
+      items: [{ medicine: medicine('med-h', 'H'), batch, quantity: 1 }],
+      discountPercent: 0,
+      paymentMethod: 'CASH',
+      prescriptionId: prescription.id
+    })).rejects.toThrow('Prescription RX-205 does not cover: Alprax med-h');
+    expect(await db.sales.count()).toBe(0);
+  });
+
+  it('gives the fill back when a sale against the prescription is returned in full', async () => {
+    const prescription = await PrescriptionService.savePrescription({
+      prescriptionNumber: 'RX-206',
+      patientName: 'Meena Iyer',
+      doctorName: 'Dr. Kulkarni',
+      prescribedDate: new Date('2024-04-01'),
+      items: [{ name: 'alprazolam 0.5MG' }],
+      refillsAllowed: 0
+    });
+    const sale = await CheckoutService.checkout({
+      items: [{ medicine: medicine('med-h', 'H'), batch, quantity: 2 }],
+      discountPercent: 0,
+      paymentMethod: 'CASH',
+      prescriptionId: prescription.id
+    });
+    const [item] = sale.items;
+
+    await ReturnsService.processReturn(sale.id, [{ saleItemId: item.id, quantity: 1 }]);
+    expect(await PrescriptionService.getFillsRemaining(prescription)).toBe(0);
+    await ReturnsService.processReturn(sale.id, [{ saleItemId: item.id, quantity: 1 }]);
+    expect(await PrescriptionService.getFillsRemaining(prescription)).toBe(1);
+  });
+});
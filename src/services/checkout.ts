@@ -0,0 +1,285 @@
+import { db } from '../database';
+import { Batch, Medicine, Prescription, PrescriptionDetails, Sale, SaleItem } from '../types';
+import { AuditService } from './audit';
+import { CustomerService } from './customers';
+import { InvoiceNumberService } from './invoiceNumber';
+import { MAX_UNAPPROVED_DISCOUNT, OverrideApproval, PermissionService } from './permissions';
+import { PrescriptionService } from './prescriptions';
+import { ScheduleH1Service } from './scheduleH1';
+import { UserService } from './users';
+
+export interface CheckoutItem {
+  medicine: Medicine;
+  batch: Batch;
+  quantity: number;
+}
+
+export interface CheckoutRequest extends PrescriptionDetails {
+  items: CheckoutItem[];
+  discountPercent: number;
+  paymentMethod: Sale['paymentMethod'];
+  customerName?: string;
+  customerPhone?: string;
+  prescriptionNumber?: string;
+  /** Prescription record the sale is dispensed against; its details fill any left blank */
+  prescriptionId?: string;
+  pharmacistId?: string;
+  /** Approvals given for a large discount or for Schedule H1 items */
+  approvals?: OverrideApproval[];
+}
+
+export interface CheckoutTotals {
+  subtotal: number;
+  discountAmount: number;
+  gstAmount: number;
+  total: number;
+}
+
+export type PrescriptionField = 'prescriptionNumber' | 'customerName' | keyof PrescriptionDetails;
+
+export const PRESCRIPTION_FIELD_LABELS: Record<PrescriptionField, string> = {
+  prescriptionNumber: 'Prescription number',
+  customerName: 'Patient name',
+  patientAddress: 'Patient address',
+  doctorName: 'Doctor name',
+  doctorRegistrationNumber: 'Doctor registration number',
+  duplicateCopyReference: 'Duplicate copy filed as'
+};
+
+// Drugs Rules, 1945: H1 sales are entered in the register with prescriber and patient details,
+// and Schedule X prescriptions are also made out in duplicate with one copy kept by the pharmacy
+const REQUIRED_PRESCRIPTION_FIELDS: Record<Medicine['scheduleType'], PrescriptionField[]> = {
+  GENERAL: [],
+  H: ['prescriptionNumber'],
+  H1: ['prescriptionNumber', 'doctorName', 'doctorRegistrationNumber', 'customerName', 'patientAddress'],
+  X: ['prescriptionNumber', 'doctorName', 'doctorRegistrationNumber', 'customerName', 'patientAddress', 'duplicateCopyReference']
+};
+
+export class CheckoutService {
+  /**
+   * Prescription fields the scheduled medicines in a cart call for
+   */
+  static requiredPrescriptionFields(items: CheckoutItem[]): Set<PrescriptionField> {
+    return new Set(items.flatMap(item => REQUIRED_PRESCRIPTION_FIELDS[item.medicine.scheduleType] ?? []));
+  }
+
+  /**
+   * Required prescription fields that are still blank, in form order
+   */
+  static missingPrescriptionFields(request: Pick<CheckoutRequest, 'items' | PrescriptionField>): PrescriptionField[] {
+    const required = this.requiredPrescriptionFields(request.items);
+    return (Object.keys(PRESCRIPTION_FIELD_LABELS) as PrescriptionField[])
+      .filter(field => required.has(field) && !request[field]?.trim());
+  }
+
+
+  static calculateTotals(items: CheckoutItem[], discountPercent: number): CheckoutTotals {
+    const subtotal = items.reduce((sum, item) => sum + (item.quantity * item.batch.sellingPrice), 0);
+    const discountAmount = (subtotal * discountPercent) / 100;
+    const gstAmount = items.reduce((sum, item) => {
+      const itemTotal = (item.quantity * item.batch.sellingPrice) * (1 - discountPercent / 100);
+      return sum + (itemTotal * item.medicine.gst / 100);
+    }, 0);
+    const total = subtotal - discountAmount + gstAmount;
+
+    return { subtotal, discountAmount, gstAmount, total };
+  }
+
+  /**
+   * Record a sale, reduce batch stock, write Schedule H1 entries and the audit log in a single transaction.
+   * Stock is re-read inside the transaction so a batch emptied by another tab aborts the whole sale.
+   */
+  static async checkout(input: CheckoutRequest): Promise<Sale> {
+    const prescription = input.prescriptionId ? await db.prescriptions.get(input.prescriptionId) : undefined;
+    if (input.prescriptionId && !prescription) {
+      throw new Error('The attached prescription no longer exists');
+    }
+    const request = prescription ? this.fillFromPrescription(input, prescription) : input;
+
+    if (request.items.length === 0) {
+      throw new Error('Cart is empty');
+    }
+    // Above 100% the total and GST go negative; below 0% it is a surcharge
+    if (!(request.discountPercent >= 0 && request.discountPercent <= 100)) {
+      throw new Error('Discount must be between 0 and 100 percent');
+    }
+    if (request.paymentMethod === 'CREDIT' && !request.customerPhone) {
+      throw new Error('Credit sales need the customer\'s phone number');
+    }
+    const missing = this.missingPrescriptionFields(request);
+    if (missing.length > 0) {
+      throw new Error(`Scheduled medicines in the cart need: ${missing.map(field => PRESCRIPTION_FIELD_LABELS[field]).join(', ')}`);
+    }
+    const notPrescribed = prescription
+      ? request.items.filter(item => item.medicine.scheduleType !== 'GENERAL' && !PrescriptionService.covers(prescription, item.medicine))
+      : [];
+    if (prescription && notPrescribed.length > 0) {
+      throw new Error(`Prescription ${prescription.prescriptionNumber} does not cover: ${notPrescribed.map(item => item.medicine.brandName).join(', ')}`);
+    }
+
+    const approvals = request.approvals ?? [];
+    if (request.discountPercent > MAX_UNAPPROVED_DISCOUNT) {
+      PermissionService.require('discount.above10', approvals);
+    }
+    const hasH1Items = request.items.some(item => item.medicine.scheduleType === 'H1');
+    if (hasH1Items) {
+      PermissionService.require('h1.dispense', approvals);
+    }
+
+    const pharmacistId = request.pharmacistId || UserService.getCurrentUserId();
+    // When someone else approved the H1 items, they are the pharmacist who signs the register
+    const h1Approval = hasH1Items && !PermissionService.canCurrentUser('h1.dispense')
+      ? approvals.find(approval => approval.permission === 'h1.dispense')
+      : undefined;
+    const h1PharmacistId = h1Approval?.approvedBy ?? pharmacistId;
+    const h1Pharmacist = await db.users.get(h1PharmacistId);
+    const { discountAmount, gstAmount, total } = this.calculateTotals(request.items, request.discountPercent);
+    const prescriptionDetails: PrescriptionDetails = {
+      doctorName: request.doctorName?.trim() || undefined,
+      doctorRegistrationNumber: request.doctorRegistrationNumber?.trim() || undefined,
+      patientAddress: request.patientAddress?.trim() || undefined,
+      duplicateCopyReference: request.duplicateCopyReference?.trim() || undefined
+    };
+
+    return await db.transaction(
+      'rw',
+      [db.sales, db.batches, db.scheduleH1Entries, db.auditLogs, db.invoiceCounters, db.settings, db.customers, db.customerLedger, db.prescriptions, db.creditNotes],
+      async () => {
+        if (prescription && await PrescriptionService.getFillsRemaining(prescription) === 0) {
+          throw new Error(`Prescription ${prescription.prescriptionNumber} has no refills left`);
+        }
+
+        // The same batch can appear on more than one cart line
+        const requested = new Map<string, { item: CheckoutItem; quantity: number }>();
+        for (const item of request.items) {
+          const entry = requested.get(item.batch.id);
+          requested.set(item.batch.id, { item, quantity: (entry?.quantity || 0) + item.quantity });
+        }
+
+        const batchIds = [...requested.keys()];
+        const batches = await db.batches.bulkGet(batchIds);
+        for (const [index, batchId] of batchIds.entries()) {
+          const batch = batches[index];
+          const { item, quantity } = requested.get(batchId)!;
+
+          if (!batch) {
+            throw new Error(`Batch ${item.batch.batchNumber} of ${item.medicine.brandName} no longer exists`);
+          }
+          if (batch.currentStock < quantity) {
+            throw new Error(
+              `Only ${batch.currentStock} units of ${item.medicine.brandName} (batch ${batch.batchNumber}) left. ` +
+              'The cart needs updating before checkout.'
+            );
+          }
+
+          await db.batches.update(batchId, { currentStock: batch.currentStock - quantity });
+        }
+
+        const customer = request.customerPhone
+          ? await CustomerService.findOrCreate(request.customerName, request.customerPhone)
+          : undefined;
+        if (request.paymentMethod === 'CREDIT' && customer?.creditLimit && customer.creditBalance + total > customer.creditLimit) {
+          throw new Error(
+            `Credit limit exceeded for ${customer.name}: ₹${customer.creditBalance.toFixed(2)} outstanding of ₹${customer.creditLimit.toFixed(2)}`
+          );
+        }
+
+        const saleDate = new Date();
+        const items: SaleItem[] = request.items.map(item => {
+          const totalPrice = item.quantity * item.batch.sellingPrice;
+          return {
+            id: crypto.randomUUID(),
+            medicineId: item.medicine.id,
+            medicineName: item.medicine.brandName,
+            batchId: item.batch.id,
+            batchNumber: item.batch.batchNumber,
+            quantity: item.quantity,
+            unitPrice: item.batch.sellingPrice,
+            totalPrice,
+            gstAmount: (totalPrice * (1 - request.discountPercent / 100) * item.medicine.gst) / 100,
+            gstRate: item.medicine.gst,
+            hsn: item.medicine.hsn,
+            expiryDate: item.batch.expiryDate,
+            scheduleType: item.medicine.scheduleType
+          };
+        });
+
+        const sale: Sale = {
+          id: crypto.randomUUID(),
+          invoiceNumber: await InvoiceNumberService.allocate(saleDate),
+          customerId: customer?.id,
+          customerName: request.customerName || customer?.name,
+          customerPhone: customer?.phone,
+          prescriptionId: prescription?.id,
+          prescriptionNumber: request.prescriptionNumber?.trim() || undefined,
+          prescriptionDetails: Object.values(prescriptionDetails).some(Boolean) ? prescriptionDetails : undefined,
+          items,
+          totalAmount: total,
+          gstAmount,
+          discountAmount,
+          paymentMethod: request.paymentMethod,
+          saleDate,
+          pharmacistId
+        };
+        await db.sales.add(sale);
+
+        if (customer && sale.paymentMethod === 'CREDIT') {
+          await CustomerService.postLedgerEntry(customer.id, {
+            type: 'CREDIT_SALE',
+            amount: sale.totalAmount,
+            reference: sale.invoiceNumber
+          });
+        }
+
+        for (const item of request.items) {
+          if (item.medicine.scheduleType === 'H1') {
+            await ScheduleH1Service.addEntry({
+              medicineId: item.medicine.id,
+              medicineName: item.medicine.brandName,
+              batchNumber: item.batch.batchNumber,
+              customerName: sale.customerName!,
+              customerAddress: prescriptionDetails.patientAddress,
+              doctorName: prescriptionDetails.doctorName!,
+              doctorRegistrationNumber: prescriptionDetails.doctorRegistrationNumber,
+              prescriptionNumber: sale.prescriptionNumber!,
+              prescriptionId: sale.prescriptionId,
+              quantityDispensed: item.quantity,
+              dispensedDate: saleDate,
+              pharmacistId: h1PharmacistId,
+              pharmacistSignature: h1Pharmacist ? UserService.getSignature(h1Pharmacist) : 'System'
+            });
+          }
+        }
+
+        await AuditService.logAction({
+          action: 'SALE',
+          entityType: 'SALE',
+          entityId: sale.id,
+          userId: pharmacistId,
+          newData: {
+            invoiceNumber: sale.invoiceNumber,
+            totalAmount: sale.totalAmount,
+            items: items.map(item => ({ batchId: item.batchId, quantity: item.quantity })),
+            prescriptionId: sale.prescriptionId,
+            approvals: approvals.length > 0
+              ? approvals.map(approval => ({ permission: approval.permission, approvedBy: approval.approvedBy }))
+              : undefined
+          }
+        });
+
+        return sale;
+      }
+    );
+  }
+
+  private static fillFromPrescription(request: CheckoutRequest, prescription: Prescription): CheckoutRequest {
+    return {
+      ...request,
+      prescriptionNumber: request.prescriptionNumber?.trim() || prescription.prescriptionNumber,
+      customerName: request.customerName?.trim() || prescription.patientName,
+      patientAddress: request.patientAddress?.trim() || prescription.patientAddress,
+      doctorName: request.doctorName?.trim() || prescription.doctorName,
+      doctorRegistrationNumber: request.doctorRegistrationNumber?.trim() || prescription.doctorRegistrationNumber
+    };
+  }
+}
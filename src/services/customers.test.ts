@@ -0,0 +1,95 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../database';
+import { usePharmacyStore } from '../store';
+import { Batch, Medicine, User } from '../types';
+import { CheckoutService } from './checkout';
+import { CustomerService } from './customers';
+import { ReturnsService } from './returns';
+
+const medicine: Medicine = {
+  id: 'med-1',
+  name: 'Metformin 500mg',
+  brandName: 'Glycomet 500',
+  manufacturer: 'USV',
+  scheduleType: 'GENERAL',
+  hsn: '30049099',
+  gst: 12,
+  minStock: 10,
+  maxStock: 100,
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date('2024-04-01T10:00:00Z')
+};
+
+const batch: Batch = {
+  id: 'batch-1',
+  medicineId: 'med-1',
+  batchNumber: 'GLY001',
+  expiryDate: new Date('2027-01-31'),
+  mrp: 60,
+  purchasePrice: 40,
+  sellingPrice: 55,
+  currentStock: 20,
+  supplierId: 'sup-1',
+  receivedDate: new Date('2024-04-01')
+};
+
+const owner: User = {
+  id: 'owner-1',
+  name: 'Asha Rao',
+  role: 'OWNER',
+  pinHash: '',
+  pinSalt: '',
+  active: true,
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date('2024-04-01T10:00:00Z')
+};
+
+describe('CustomerService', () => {
+  beforeEach(async () => {
+    usePharmacyStore.getState().setCurrentUser(owner);
+    await db.batches.add(batch);
+  });
+
+  afterEach(async () => {
+    usePharmacyStore.getState().setCurrentUser(null);
+    await Promise.all([
+      db.customers.clear(), db.customerLedger.clear(), db.batches.clear(), db.sales.clear(),
+      db.creditNotes.clear(), db.invoiceCounters.clear(), db.settings.clear()
+    ]);
+    await db.auditLogs.clear();
+  });
+
+  it('finds the same customer however the phone number is written', async () => {
+    const first = await CustomerService.findOrCreate('Meena Iyer', '+91 98200-11223');
+    const again = await CustomerService.findOrCreate('M. Iyer', '+919820011223');
+
+    expect(again.id).toBe(first.id);
+    expect(again).toMatchObject({ name: 'Meena Iyer', phone: '+919820011223', creditBalance: 0 });
+    expect(await db.customers.count()).toBe(1);
+    await expect(CustomerService.saveCustomer({ name: 'Someone Else', phone: '+91 9820011223' }))
+      .rejects.toThrow('Meena Iyer is already registered with phone +919820011223');
+  });
+
+  it('keeps a running balance of credit sales, payments and credit notes', async () => {
+    // Two strips at ₹55 plus 12% GST on credit
+    const sale = await CheckoutService.checkout({
+      items: [{ medicine, batch, quantity: 2 }],
+      discountPercent: 0,
+      paymentMethod: 'CREDIT',
+      customerName: 'Meena Iyer',
+      customerPhone: '98200 11223'
+    });
+    const customer = (await CustomerService.findByPhone('9820011223'))!;
+    expect(sale.customerId).toBe(customer.id);
+    expect(customer.creditBalance).toBeCloseTo(123.2);
+
+    await CustomerService.recordPayment(customer.id, 100, 'CASH');
+    await ReturnsService.processReturn(sale.id, [{ saleItemId: sale.items[0].id, quantity: 1 }]);
+
+    const ledger = await CustomerService.getLedger(customer.id);
+    expect(ledger.map(entry => entry.type).sort()).toEqual(['CREDIT_NOTE', 'CREDIT_SALE', 'PAYMENT']);
+    expect((await db.customers.get(customer.id))?.creditBalance).toBeCloseTo(123.2 - 100 - 61.6);
+    await expect(CustomerService.recordPayment(customer.id, 0, 'CASH')).rejects.toThrow('Payment amount must be greater than zero');
+  });
+});
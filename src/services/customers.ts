@@ -0,0 +1,146 @@
+import { db } from '../database';
+import { Customer, CustomerLedgerEntry, Sale } from '../types';
+import { AuditService } from './audit';
+
+export type CustomerInput = Pick<Customer, 'name' | 'phone' | 'address' | 'creditLimit' | 'notes'>;
+
+export class CustomerService {
+  static normalizePhone(phone: string): string {
+    return phone.replace(/[^0-9+]/g, '');
+  }
+
+  static async findByPhone(phone: string): Promise<Customer | undefined> {
+    const normalized = this.normalizePhone(phone);
+    if (!normalized) return undefined;
+    return await db.customers.where('phone').equals(normalized).first();
+  }
+
+  static async search(query: string): Promise<Customer[]> {
+    const term = query.trim().toLowerCase();
+    const customers = await db.customers.orderBy('name').toArray();
+    if (!term) return customers;
+
+    return customers.filter(customer =>
+      customer.name.toLowerCase().includes(term) ||
+      customer.phone.includes(term)
+    );
+  }
+
+  static async saveCustomer(input: CustomerInput, id?: string): Promise<Customer> {
+    return await db.transaction('rw', db.customers, db.auditLogs, async () => {
+      const phone = this.normalizePhone(input.phone);
+      const duplicate = await db.customers.where('phone').equals(phone).first();
+      if (duplicate && duplicate.id !== id) {
+        throw new Error(`${duplicate.name} is already registered with phone ${phone}`);
+      }
+
+      const existing = id ? await db.customers.get(id) : undefined;
+      const customer: Customer = {
+        creditBalance: 0,
+        createdAt: new Date(),
+        ...existing,
+        ...input,
+        phone,
+        id: existing?.id || crypto.randomUUID(),
+        updatedAt: new Date()
+      };
+
+      await db.customers.put(customer);
+      await AuditService.logAction({
+        action: existing ? 'UPDATE' : 'CREATE',
+        entityType: 'CUSTOMER',
+        entityId: customer.id,
+        oldData: existing,
+        newData: customer
+      });
+
+      return customer;
+    });
+  }
+
+  /**
+   * Return the customer registered with this phone number, registering them if needed.
+   * Used at checkout so every sale with a phone number is linked to the customer master.
+   */
+  static async findOrCreate(name: string | undefined, phone: string): Promise<Customer> {
+    return await db.transaction('rw', db.customers, db.auditLogs, async () => {
+      const existing = await this.findByPhone(phone);
+      if (existing) return existing;
+      return await this.saveCustomer({ name: name?.trim() || 'Customer', phone });
+    });
+  }
+
+  static async getPurchaseHistory(customerId: string): Promise<Sale[]> {
+    return await db.sales
+      .where('customerId')
+      .equals(customerId)
+      .reverse()
+      .sortBy('saleDate');
+  }
+
+  static async getLedger(customerId: string): Promise<CustomerLedgerEntry[]> {
+    return await db.customerLedger
+      .where('customerId')
+      .equals(customerId)
+      .reverse()
+      .sortBy('date');
+  }
+
+  /**
+   * Post an entry to the customer's khata and update the running balance.
+   * Positive amounts increase what the customer owes; payments and credit notes are negative.
+   */
+  static async postLedgerEntry(
+    customerId: string,
+    entry: Omit<CustomerLedgerEntry, 'id' | 'customerId' | 'balanceAfter' | 'date'>
+  ): Promise<CustomerLedgerEntry> {
+    return await db.transaction('rw', db.customers, db.customerLedger, async () => {
+      const customer = await db.customers.get(customerId);
+      if (!customer) {
+        throw new Error('Customer not found');
+      }
+
+      const ledgerEntry: CustomerLedgerEntry = {
+        ...entry,
+        id: crypto.randomUUID(),
+        customerId,
+        balanceAfter: customer.creditBalance + entry.amount,
+        date: new Date()
+      };
+
+      await db.customerLedger.add(ledgerEntry);
+      await db.customers.update(customerId, { creditBalance: ledgerEntry.balanceAfter, updatedAt: new Date() });
+      return ledgerEntry;
+    });
+  }
+
+  static async recordPayment(
+    customerId: string,
+    amount: number,
+    paymentMethod: CustomerLedgerEntry['paymentMethod'],
+    notes?: string
+  ): Promise<CustomerLedgerEntry> {
+    if (amount <= 0) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+
+    return await db.transaction('rw', db.customers, db.customerLedger, db.auditLogs, async () => {
+      const entry = await this.postLedgerEntry(customerId, {
+        type: 'PAYMENT',
+        amount: -amount,
+        paymentMethod,
+        notes: notes || undefined
+      });
+
+      await AuditService.logAction({
+        action: 'UPDATE',
+        entityType: 'CUSTOMER',
+        entityId: customerId,
+        oldData: { creditBalance: entry.balanceAfter + amount },
+        newData: { creditBalance: entry.balanceAfter, payment: amount, paymentMethod }
+      });
+
+      return entry;
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../database';
+import { usePharmacyStore } from '../store';
+import { Batch, User } from '../types';
+import { ExpiryService } from './expiry';
+
+// Sold at 90% of MRP, the default selling price ratio
+const batch: Batch = {
+  id: 'batch-1',
+  medicineId: 'med-1',
+  batchNumber: 'PCM001',
+  expiryDate: new Date('2024-06-30'),
+  mrp: 60,
+  purchasePrice: 43.2,
+  sellingPrice: 54,
+  currentStock: 20,
+  supplierId: 'sup-1',
+  receivedDate: new Date('2024-01-10')
+};
+
+const owner: User = {
+  id: 'owner-1',
+  name: 'Asha Rao',
+  role: 'OWNER',
+  pinHash: '',
+  pinSalt: '',
+  active: true,
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date('2024-04-01T10:00:00Z')
+};
+
+describe('ExpiryService clearance discounts', () => {
+  beforeEach(async () => {
+    usePharmacyStore.getState().setCurrentUser(owner);
+    await db.batches.add(batch);
+  });
+
+  afterEach(async () => {
+    usePharmacyStore.getState().setCurrentUser(null);
+    await db.batches.clear();
+    await db.auditLogs.clear();
+  });
+
+  it('refuses a discount on MRP that would not lower the current price', async () => {
+    await expect(ExpiryService.discountForClearance('batch-1', 5))
+      .rejects.toThrow('5% off MRP is ₹57.00, not below the current price of ₹54.00.');
+
+    expect((await db.batches.get('batch-1'))?.sellingPrice).toBe(54);
+    expect(await db.auditLogs.where('action').equals('UPDATE').count()).toBe(0);
+  });
+
+  it('marks the batch down and records why', async () => {
+    await ExpiryService.discountForClearance('batch-1', 20);
+
+    expect((await db.batches.get('batch-1'))?.sellingPrice).toBe(48);
+    const entry = await db.auditLogs.where('action').equals('UPDATE').first();
+    expect(entry).toMatchObject({ entityId: 'batch-1', reason: 'Expiry clearance at 20% off MRP' });
+  });
+});
@@ -0,0 +1,148 @@
+import { db } from '../database';
+import { setChangeReason } from '../database/auditMiddleware';
+import { Batch } from '../types';
+import { FEFOService } from './fefo';
+import { AuditService } from './audit';
+import { MAX_UNAPPROVED_DISCOUNT, OverrideApproval, PermissionService } from './permissions';
+import { SupplierService } from './suppliers';
+
+export type ExpiryBucketKey = 'expired' | 'within30' | 'within60' | 'within90';
+
+export interface ExpiryBucket {
+  key: ExpiryBucketKey;
+  label: string;
+  batches: Batch[];
+  costValue: number;
+  mrpValue: number;
+}
+
+const BUCKET_DEFINITIONS: Array<{ key: ExpiryBucketKey; label: string; maxDays: number }> = [
+  { key: 'expired', label: 'Already Expired', maxDays: 0 },
+  { key: 'within30', label: 'Within 30 Days', maxDays: 30 },
+  { key: 'within60', label: '31-60 Days', maxDays: 60 },
+  { key: 'within90', label: '61-90 Days', maxDays: 90 }
+];
+
+export class ExpiryService {
+  /**
+   * Group in-stock batches expiring within 90 days into expired/30/60/90-day buckets
+   */
+  static async getExpiryBuckets(): Promise<ExpiryBucket[]> {
+    const batches = await FEFOService.getExpiringMedicines(90);
+    const now = Date.now();
+    const dayMs = 24 * 60 * 60 * 1000;
+
+    const buckets: ExpiryBucket[] = BUCKET_DEFINITIONS.map(({ key, label }) => ({
+      key,
+      label,
+      batches: [],
+      costValue: 0,
+      mrpValue: 0
+    }));
+
+    for (const batch of batches) {
+      const daysLeft = (new Date(batch.expiryDate).getTime() - now) / dayMs;
+      const index = BUCKET_DEFINITIONS.findIndex(definition => daysLeft <= definition.maxDays);
+      if (index === -1) continue;
+
+      buckets[index].batches.push(batch);
+      buckets[index].costValue += batch.currentStock * batch.purchasePrice;
+      buckets[index].mrpValue += batch.currentStock * batch.mrp;
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Take units out of stock to send back to the supplier and credit their account at purchase price
+   */
+  static async returnToVendor(batchId: string, quantity: number, notes?: string): Promise<void> {
+    await db.transaction('rw', [db.batches, db.auditLogs, db.suppliers, db.supplierLedger], async () => {
+      const batch = await this.getBatchWithStock(batchId, quantity);
+      const currentStock = batch.currentStock - quantity;
+
+      await db.batches.update(batchId, { currentStock });
+      await AuditService.logAction({
+        action: 'VENDOR_RETURN',
+        entityType: 'BATCH',
+        entityId: batchId,
+        oldData: { currentStock: batch.currentStock },
+        newData: { currentStock, quantity, supplierId: batch.supplierId, notes }
+      });
+      await SupplierService.postLedgerEntry(batch.supplierId, {
+        type: 'RETURN',
+        amount: -(quantity * batch.purchasePrice),
+        reference: batch.batchNumber,
+        batchId,
+        notes
+      });
+    });
+  }
+
+  /**
+   * Remove units destroyed on expiry, recording why and who witnessed it
+   */
+  static async writeOff(batchId: string, quantity: number, reason: string, witness: string): Promise<void> {
+    if (!reason.trim() || !witness.trim()) {
+      throw new Error('A reason and a witness are required to write off stock.');
+    }
+
+    await db.transaction('rw', db.batches, db.auditLogs, async () => {
+      const batch = await this.getBatchWithStock(batchId, quantity);
+      const currentStock = batch.currentStock - quantity;
+
+      await db.batches.update(batchId, { currentStock });
+      await AuditService.logAction({
+        action: 'WRITE_OFF',
+        entityType: 'BATCH',
+        entityId: batchId,
+        oldData: { currentStock: batch.currentStock },
+        newData: { currentStock, quantity, reason, witness }
+      });
+    });
+  }
+
+  /**
+   * Mark down the selling price of a batch so it clears before expiry. This is a price change,
+   * and a large one is also a discount, so both need the matching permission or an approval.
+   */
+  static async discountForClearance(batchId: string, discountPercent: number, approvals: OverrideApproval[] = []): Promise<void> {
+    if (discountPercent <= 0 || discountPercent >= 100) {
+      throw new Error('Discount must be between 0 and 100 percent.');
+    }
+    PermissionService.require('price.edit', approvals);
+    if (discountPercent > MAX_UNAPPROVED_DISCOUNT) {
+      PermissionService.require('discount.above10', approvals);
+    }
+
+    await db.transaction('rw', db.batches, db.auditLogs, async (tx) => {
+      const batch = await db.batches.get(batchId);
+      if (!batch) {
+        throw new Error('Batch not found.');
+      }
+
+      const sellingPrice = Math.round(batch.mrp * (100 - discountPercent)) / 100;
+      // Most batches already sell below MRP, so a small discount on MRP can be a price rise
+      if (sellingPrice >= batch.sellingPrice) {
+        throw new Error(
+          `${discountPercent}% off MRP is ₹${sellingPrice.toFixed(2)}, not below the current price of ₹${batch.sellingPrice.toFixed(2)}.`
+        );
+      }
+
+      // Recorded in the audit log as a change to the batch's selling price, with the reason for it
+      setChangeReason(tx, `Expiry clearance at ${discountPercent}% off MRP`);
+      await db.batches.update(batchId, { sellingPrice });
+    });
+  }
+
+  private static async getBatchWithStock(batchId: string, quantity: number): Promise<Batch> {
+    const batch = await db.batches.get(batchId);
+    if (!batch) {
+      throw new Error('Batch not found.');
+    }
+    if (quantity <= 0 || quantity > batch.currentStock) {
+      throw new Error(`Quantity must be between 1 and ${batch.currentStock}.`);
+    }
+    return batch;
+  }
+}
@@ -1,16 +1,24 @@
+import Dexie from 'dexie';
 import { db } from '../database';
-import { Batch } from '../types';
+import { Batch, Medicine } from '../types';
+
+export interface MedicineStockLevel {
+  medicine: Medicine;
+  batches: Batch[];
+  totalStock: number;
+}
 
 export class FEFOService {
   /**
    * Select batches for sale using First Expired, First Out algorithm
    */
   static async selectBatchesForSale(medicineId: string, quantity: number): Promise<Batch[]> {
+    // The compound index returns the medicine's unexpired batches already in expiry order
     const batches = await db.batches
-      .where('medicineId')
-      .equals(medicineId)
-      .filter(batch => batch.currentStock > 0 && batch.expiryDate > new Date())
-      .sortBy('expiryDate');
+      .where('[medicineId+expiryDate]')
+      .between([medicineId, new Date()], [medicineId, Dexie.maxKey], false, true)
+      .filter(batch => batch.currentStock > 0)
+      .toArray();
     
     const selectedBatches: Batch[] = [];
     let remainingQuantity = quantity;
@@ -48,11 +56,50 @@ export class FEFOService {
   }
 
   /**
-   * Get low stock medicines
+   * Stock that can still be sold: unexpired batches with units left
    */
-  static async getLowStockMedicines(): Promise<Batch[]> {
-    return await db.batches
-      .filter(batch => batch.currentStock <= batch.minStock)
-      .sortBy('currentStock');
+  static getSellableBatches(batches: Batch[]): Batch[] {
+    const now = new Date();
+    return batches.filter(batch => batch.currentStock > 0 && new Date(batch.expiryDate) > now);
+  }
+
+  static getSellableStock(batches: Batch[]): number {
+    return this.getSellableBatches(batches).reduce((sum, batch) => sum + batch.currentStock, 0);
+  }
+
+  /**
+   * A medicine is low once its sellable stock across all batches is at or below its reorder level
+   */
+  static isLowStock(medicine: Medicine, totalStock: number): boolean {
+    return totalStock <= medicine.minStock;
+  }
+
+  /**
+   * Sellable stock per medicine, totalled across batches
+   */
+  static async getStockLevels(): Promise<MedicineStockLevel[]> {
+    const [medicines, batches] = await Promise.all([
+      db.medicines.toArray(),
+      db.batches.toArray()
+    ]);
+
+    return medicines.map(medicine => {
+      const sellable = this.getSellableBatches(batches.filter(batch => batch.medicineId === medicine.id));
+      return {
+        medicine,
+        batches: sellable,
+        totalStock: sellable.reduce((sum, batch) => sum + batch.currentStock, 0)
+      };
+    });
+  }
+
+  /**
+   * Get low stock medicines, lowest stock first
+   */
+  static async getLowStockMedicines(): Promise<MedicineStockLevel[]> {
+    const levels = await this.getStockLevels();
+    return levels
+      .filter(level => this.isLowStock(level.medicine, level.totalStock))
+      .sort((a, b) => a.totalStock - b.totalStock);
   }
-}
\ No newline at end of file
+}
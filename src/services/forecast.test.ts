@@ -0,0 +1,117 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { subDays } from 'date-fns';
+import { db } from '../database';
+import { CreditNote, Sale } from '../types';
+import { ForecastService } from './forecast';
+
+const sale = (id: string, medicineId: string, quantity: number, saleDate: Date): Sale => ({
+  id,
+  invoiceNumber: `INV-${id}`,
+  items: [{
+    id: `${id}-item`,
+    medicineId,
+    medicineName: medicineId,
+    batchId: `${medicineId}-batch`,
+    batchNumber: 'B001',
+    quantity,
+    unitPrice: 10,
+    totalPrice: 10 * quantity,
+    gstAmount: 0
+  }],
+  totalAmount: 10 * quantity,
+  gstAmount: 0,
+  discountAmount: 0,
+  paymentMethod: 'CASH',
+  saleDate,
+  pharmacistId: 'owner-1'
+});
+
+const creditNote = (id: string, medicineId: string, quantity: number, createdAt: Date): CreditNote => ({
+  id,
+  creditNoteNumber: `CN-${id}`,
+  saleId: 'sale-1',
+  invoiceNumber: 'INV-sale-1',
+  items: [{
+    saleItemId: 'sale-1-item',
+    medicineId,
+    medicineName: medicineId,
+    batchId: `${medicineId}-batch`,
+    batchNumber: 'B001',
+    quantity,
+    unitPrice: 10,
+    taxableValue: 10 * quantity,
+    gstRate: 0,
+    gstAmount: 0,
+    totalAmount: 10 * quantity
+  }],
+  taxableAmount: 10 * quantity,
+  gstAmount: 0,
+  totalAmount: 10 * quantity,
+  createdAt,
+  pharmacistId: 'owner-1'
+});
+
+describe('ForecastService', () => {
+  afterEach(async () => {
+    await Promise.all([db.sales.clear(), db.creditNotes.clear()]);
+    await db.auditLogs.clear();
+  });
+
+  it('smooths a daily series from the mean of its first week', () => {
+    expect(ForecastService.smooth([])).toBe(0);
+    expect(ForecastService.smooth([4, 4, 4])).toBe(4);
+    // Seeded at 2, then one day of 7 at a weight of 0.2
+    expect(ForecastService.smooth([2, 2, 2, 2, 2, 2, 2, 7])).toBeCloseTo(3);
+  });
+
+  it('fills the days without sales with zeros from the first sale on', async () => {
+    const now = new Date();
+    await db.sales.bulkAdd([
+      sale('sale-1', 'med-1', 3, subDays(now, 20)),
+      sale('sale-2', 'med-1', 2, subDays(now, 5)),
+      sale('sale-3', 'med-1', 4, now)
+    ]);
+    await db.creditNotes.add(creditNote('cn-1', 'med-1', 1, now));
+
+    const series = (await ForecastService.getDailyDemand(30)).get('med-1')!;
+    expect(series).toHaveLength(21);
+    expect(series[0]).toBe(3);
+    expect(series[15]).toBe(2);
+    expect(series[20]).toBe(3);
+    expect(series.reduce((sum, quantity) => sum + quantity, 0)).toBe(8);
+  });
+
+  it('averages a medicine first sold recently over at least two weeks', async () => {
+    await db.sales.add(sale('sale-1', 'med-1', 6, subDays(new Date(), 2)));
+
+    const series = (await ForecastService.getDailyDemand(30)).get('med-1')!;
+    expect(series).toHaveLength(14);
+    expect(series[11]).toBe(6);
+  });
+
+  it('has no history for medicines with nothing sold in the window', async () => {
+    await db.sales.add(sale('sale-1', 'med-old', 5, subDays(new Date(), 45)));
+    await db.creditNotes.add(creditNote('cn-1', 'med-returned', 2, new Date()));
+
+    const demand = await ForecastService.getDailyDemand(30);
+    expect(demand.has('med-old')).toBe(false);
+    expect(demand.get('med-returned')).toEqual([]);
+    expect(ForecastService.buildForecast('med-returned', [], 4, 10)).toMatchObject({
+      dailyConsumption: 0,
+      safetyStock: 0,
+      reorderPoint: 0,
+      orderUpToLevel: 0
+    });
+  });
+
+  it('reorders for the lead time plus safety stock and tops up for the cover days', () => {
+    const steady = ForecastService.buildForecast('med-1', new Array(14).fill(4), 5, 10);
+    expect(steady).toMatchObject({ dailyConsumption: 4, demandDeviation: 0, safetyStock: 0, reorderPoint: 20, orderUpToLevel: 60 });
+
+    // Alternating days of 0 and 10 need safety stock against the swings
+    const erratic = ForecastService.buildForecast('med-2', Array.from({ length: 14 }, (_, day) => (day % 2) * 10), 4, 10);
+    expect(erratic.demandDeviation).toBeCloseTo(5.19, 2);
+    expect(erratic).toMatchObject({ daysOfHistory: 14, safetyStock: 18, reorderPoint: 41, orderUpToLevel: 97 });
+  });
+});
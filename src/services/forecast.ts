@@ -0,0 +1,135 @@
+import { db } from '../database';
+import { SettingsService } from './settings';
+import { differenceInCalendarDays, startOfDay, subDays } from 'date-fns';
+
+export interface ConsumptionForecast {
+  medicineId: string;
+  dailyConsumption: number;
+  demandDeviation: number;
+  daysOfHistory: number;
+  leadTimeDays: number;
+  safetyStock: number;
+  reorderPoint: number;
+  orderUpToLevel: number;
+}
+
+// Days of sales history the forecast looks back over
+const HISTORY_DAYS = 90;
+// A medicine first sold yesterday is still averaged over at least this many days
+const MIN_HISTORY_DAYS = 14;
+// Weight of the newest day in the exponentially smoothed daily consumption
+const SMOOTHING_FACTOR = 0.2;
+// z-score for a 95% chance of not running out during the lead time
+const SERVICE_LEVEL_Z = 1.65;
+
+export class ForecastService {
+  /**
+   * Units sold per medicine per calendar day, oldest first and ending today.
+   * Returned quantities are netted off on the day the credit note was issued.
+   */
+  static async getDailyDemand(days: number = HISTORY_DAYS): Promise<Map<string, number[]>> {
+    const since = subDays(startOfDay(new Date()), days - 1);
+    const [sales, creditNotes] = await Promise.all([
+      db.sales.where('saleDate').aboveOrEqual(since).toArray(),
+      db.creditNotes.where('createdAt').aboveOrEqual(since).toArray()
+    ]);
+
+    const demand = new Map<string, number[]>();
+    const add = (medicineId: string, date: Date, quantity: number) => {
+      const day = differenceInCalendarDays(new Date(date), since);
+      if (day < 0 || day >= days) return;
+      let series = demand.get(medicineId);
+      if (!series) {
+        series = new Array(days).fill(0);
+        demand.set(medicineId, series);
+      }
+      series[day] += quantity;
+    };
+
+    sales.forEach(sale => sale.items.forEach(item => add(item.medicineId, sale.saleDate, item.quantity)));
+    creditNotes.forEach(note => note.items.forEach(item => add(item.medicineId, note.createdAt, -item.quantity)));
+
+    demand.forEach((series, medicineId) => {
+      // Days before a medicine was first sold would drag its average towards zero
+      const firstSale = series.findIndex(quantity => quantity > 0);
+      const start = firstSale === -1 ? days : Math.min(firstSale, Math.max(days - MIN_HISTORY_DAYS, 0));
+      demand.set(medicineId, series.slice(start).map(quantity => Math.max(quantity, 0)));
+    });
+
+    return demand;
+  }
+
+  /**
+   * Exponentially smoothed level of a daily series, seeded with the mean of its first week
+   */
+  static smooth(series: number[], alpha: number = SMOOTHING_FACTOR): number {
+    if (series.length === 0) return 0;
+
+    const seed = series.slice(0, 7);
+    let level = seed.reduce((sum, value) => sum + value, 0) / seed.length;
+    for (const value of series.slice(seed.length)) {
+      level = alpha * value + (1 - alpha) * level;
+    }
+    return level;
+  }
+
+  /**
+   * Reorder point = expected demand over the lead time plus safety stock.
+   * Order up to the reorder point plus `coverDays` of expected demand.
+   */
+  static buildForecast(medicineId: string, series: number[], leadTimeDays: number, coverDays: number): ConsumptionForecast {
+    const dailyConsumption = this.smooth(series);
+    const mean = series.length > 0 ? series.reduce((sum, value) => sum + value, 0) / series.length : 0;
+    const demandDeviation = series.length > 1
+      ? Math.sqrt(series.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (series.length - 1))
+      : 0;
+
+    const safetyStock = Math.ceil(SERVICE_LEVEL_Z * demandDeviation * Math.sqrt(leadTimeDays));
+    const reorderPoint = Math.ceil(dailyConsumption * leadTimeDays) + safetyStock;
+
+    return {
+      medicineId,
+      dailyConsumption,
+      demandDeviation,
+      daysOfHistory: series.length,
+      leadTimeDays,
+      safetyStock,
+      reorderPoint,
+      orderUpToLevel: reorderPoint + Math.ceil(dailyConsumption * coverDays)
+    };
+  }
+
+  /**
+   * Forecasts for every medicine, using the lead time of the supplier who sent its latest batch
+   */
+  static async getForecasts(): Promise<Map<string, ConsumptionForecast>> {
+    const [settings, medicines, batches, suppliers, demand] = await Promise.all([
+      SettingsService.getSettings(),
+      db.medicines.toArray(),
+      db.batches.toArray(),
+      db.suppliers.toArray(),
+      this.getDailyDemand()
+    ]);
+
+    const latestSupplier = new Map<string, { supplierId: string; receivedDate: Date }>();
+    for (const batch of batches) {
+      const latest = latestSupplier.get(batch.medicineId);
+      if (!latest || new Date(batch.receivedDate) > new Date(latest.receivedDate)) {
+        latestSupplier.set(batch.medicineId, { supplierId: batch.supplierId, receivedDate: batch.receivedDate });
+      }
+    }
+    const leadTimes = new Map(suppliers.map(supplier => [supplier.id, supplier.leadTimeDays]));
+
+    const forecasts = new Map<string, ConsumptionForecast>();
+    for (const medicine of medicines) {
+      const supplierId = latestSupplier.get(medicine.id)?.supplierId;
+      const supplierLeadTime = supplierId ? leadTimes.get(supplierId) : undefined;
+      const leadTimeDays = supplierLeadTime ?? settings.defaultLeadTimeDays;
+      forecasts.set(
+        medicine.id,
+        this.buildForecast(medicine.id, demand.get(medicine.id) ?? [], leadTimeDays, settings.orderCoverDays)
+      );
+    }
+    return forecasts;
+  }
+}
@@ -0,0 +1,132 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { db } from '../database';
+import { PurchaseOrder } from '../types';
+import { GoodsReceiptService, GoodsReceivedLine } from './goodsReceipt';
+import { PurchaseOrderService } from './purchaseOrders';
+import { SupplierService } from './suppliers';
+
+const line = (medicineId: string, quantity: number, purchasePrice: number, purchaseOrderItemId?: string): GoodsReceivedLine => ({
+  medicineId,
+  medicineName: `Medicine ${medicineId}`,
+  purchaseOrderItemId,
+  batchNumber: `B-${medicineId}`,
+  expiryDate: new Date('2026-12-31'),
+  quantity,
+  purchasePrice,
+  mrp: purchasePrice * 1.5,
+  sellingPrice: purchasePrice * 1.35
+});
+
+const order: PurchaseOrder = {
+  id: 'po-1',
+  orderNumber: 'PO-24-25/00001',
+  supplierId: 'sup-1',
+  status: 'SENT',
+  items: [
+    { id: 'poi-a', medicineId: 'med-a', medicineName: 'Medicine med-a', orderedQuantity: 10, receivedQuantity: 0, expectedPrice: 5 },
+    { id: 'poi-b', medicineId: 'med-b', medicineName: 'Medicine med-b', orderedQuantity: 5, receivedQuantity: 0, expectedPrice: 8 },
+    { id: 'poi-c', medicineId: 'med-c', medicineName: 'Medicine med-c', orderedQuantity: 4, receivedQuantity: 4, expectedPrice: 3 }
+  ],
+  totalAmount: 102,
+  createdAt: new Date('2024-05-01'),
+  updatedAt: new Date('2024-05-01')
+};
+
+const createSupplier = (name: string) =>
+  SupplierService.saveSupplier({ name, paymentTermsDays: 30 });
+
+describe('GoodsReceiptService', () => {
+  afterEach(async () => {
+    await Promise.all([
+      db.suppliers.clear(), db.supplierLedger.clear(), db.purchaseOrders.clear(),
+      db.goodsReceivedNotes.clear(), db.batches.clear(), db.invoiceCounters.clear()
+    ]);
+    await db.auditLogs.clear();
+  });
+
+  it('flags short, excess, re-priced and unordered lines against what is still outstanding', () => {
+    const discrepancies = GoodsReceiptService.reconcile(order, [
+      line('med-a', 8, 5, 'poi-a'),
+      line('med-b', 7, 8.5, 'poi-b'),
+      line('med-d', 2, 12)
+    ]);
+
+    expect(discrepancies).toEqual([
+      { type: 'SHORT', medicineId: 'med-a', medicineName: 'Medicine med-a', expected: 10, actual: 8 },
+      { type: 'EXCESS', medicineId: 'med-b', medicineName: 'Medicine med-b', expected: 5, actual: 7 },
+      { type: 'PRICE', medicineId: 'med-b', medicineName: 'Medicine med-b', expected: 8, actual: 8.5 },
+      { type: 'NOT_ORDERED', medicineId: 'med-d', medicineName: 'Medicine med-d', expected: 0, actual: 2 }
+    ]);
+    expect(GoodsReceiptService.reconcile(undefined, [line('med-d', 2, 12)])).toEqual([]);
+  });
+
+  it('creates the batches against the GRN and books them on the order and the supplier account', async () => {
+    const supplier = await createSupplier('Mahavir Pharma');
+    const created = await PurchaseOrderService.createOrder(supplier.id, [
+      { medicineId: 'med-a', medicineName: 'Medicine med-a', orderedQuantity: 10, expectedPrice: 5 },
+      { medicineId: 'med-b', medicineName: 'Medicine med-b', orderedQuantity: 5, expectedPrice: 8 }
+    ]);
+    await PurchaseOrderService.markSent(created.id);
+    const [itemA, itemB] = created.items;
+
+    const note = await GoodsReceiptService.createGRN({
+      supplierId: supplier.id,
+      purchaseOrderId: created.id,
+      supplierInvoiceNumber: ' MP/1182 ',
+      supplierInvoiceDate: new Date('2024-05-12'),
+      lines: [line('med-a', 6, 5, itemA.id), line('med-b', 5, 8, itemB.id), line('med-x', 0, 4)]
+    });
+
+    expect(note).toMatchObject({ supplierInvoiceNumber: 'MP/1182', totalAmount: 70, purchaseOrderId: created.id });
+    expect(note.items).toHaveLength(2);
+    expect(note.discrepancies).toEqual([
+      { type: 'SHORT', medicineId: 'med-a', medicineName: 'Medicine med-a', expected: 10, actual: 6 }
+    ]);
+
+    const batches = await db.batches.where('supplierId').equals(supplier.id).toArray();
+    expect(batches.map(batch => [batch.id, batch.currentStock, batch.grnId]).sort()).toEqual(
+      note.items.map(item => [item.batchId, item.quantity, note.id]).sort()
+    );
+    expect((await db.suppliers.get(supplier.id))?.outstandingBalance).toBe(70);
+
+    const updated = await db.purchaseOrders.get(created.id);
+    expect(updated?.status).toBe('PARTIALLY_RECEIVED');
+    expect(updated?.items.map(item => item.receivedQuantity)).toEqual([6, 5]);
+  });
+
+  it('refuses a supplier invoice that was already received', async () => {
+    const supplier = await createSupplier('Mahavir Pharma');
+    const other = await createSupplier('Shree Distributors');
+    const input = {
+      supplierId: supplier.id,
+      supplierInvoiceNumber: 'MP/1182',
+      supplierInvoiceDate: new Date('2024-05-12'),
+      lines: [line('med-a', 6, 5)]
+    };
+    const first = await GoodsReceiptService.createGRN(input);
+
+    await expect(GoodsReceiptService.createGRN(input))
+      .rejects.toThrow(`Supplier invoice MP/1182 was already received on ${first.grnNumber}`);
+    expect(await db.batches.count()).toBe(1);
+    expect((await db.suppliers.get(supplier.id))?.outstandingBalance).toBe(30);
+
+    // Invoice numbers only need to be unique per supplier
+    await GoodsReceiptService.createGRN({ ...input, supplierId: other.id });
+    expect(await db.goodsReceivedNotes.count()).toBe(2);
+  });
+
+  it('refuses an order placed with another supplier', async () => {
+    const supplier = await createSupplier('Mahavir Pharma');
+    await db.purchaseOrders.add(order);
+
+    await expect(GoodsReceiptService.createGRN({
+      supplierId: supplier.id,
+      purchaseOrderId: order.id,
+      supplierInvoiceNumber: 'MP/1183',
+      supplierInvoiceDate: new Date('2024-05-12'),
+      lines: [line('med-a', 6, 5, 'poi-a')]
+    })).rejects.toThrow('The purchase order does not belong to this supplier');
+    expect(await db.batches.count()).toBe(0);
+  });
+});
@@ -0,0 +1,182 @@
+import { db } from '../database';
+import { Batch, GoodsReceivedDiscrepancy, GoodsReceivedItem, GoodsReceivedNote, PurchaseOrder } from '../types';
+import { AuditService } from './audit';
+import { InvoiceNumberService } from './invoiceNumber';
+import { PurchaseOrderService } from './purchaseOrders';
+import { SupplierService } from './suppliers';
+import { UserService } from './users';
+
+export type GoodsReceivedLine = Omit<GoodsReceivedItem, 'id' | 'batchId'>;
+
+export interface GoodsReceiptInput {
+  supplierId: string;
+  purchaseOrderId?: string;
+  supplierInvoiceNumber: string;
+  supplierInvoiceDate: Date;
+  lines: GoodsReceivedLine[];
+  notes?: string;
+  pharmacistId?: string;
+}
+
+export const DISCREPANCY_LABELS: Record<GoodsReceivedDiscrepancy['type'], string> = {
+  SHORT: 'Short supplied',
+  EXCESS: 'Excess supplied',
+  PRICE: 'Price difference',
+  NOT_ORDERED: 'Not on order'
+};
+
+// Rates within a paisa of the order price are treated as matching
+const PRICE_TOLERANCE = 0.01;
+
+export class GoodsReceiptService {
+  static async getNotes(): Promise<GoodsReceivedNote[]> {
+    return await db.goodsReceivedNotes.orderBy('receivedAt').reverse().toArray();
+  }
+
+  /**
+   * Compare what the supplier billed against what is still outstanding on the order.
+   * Without an order there is nothing to reconcile against.
+   */
+  static reconcile(order: PurchaseOrder | undefined, lines: GoodsReceivedLine[]): GoodsReceivedDiscrepancy[] {
+    if (!order) return [];
+
+    const discrepancies: GoodsReceivedDiscrepancy[] = [];
+
+    for (const item of order.items) {
+      const outstanding = Math.max(item.orderedQuantity - item.receivedQuantity, 0);
+      const matched = lines.filter(line => line.purchaseOrderItemId === item.id);
+      const received = matched.reduce((sum, line) => sum + line.quantity, 0);
+
+      if (outstanding === 0 && received === 0) continue;
+
+      if (received < outstanding) {
+        discrepancies.push({ type: 'SHORT', medicineId: item.medicineId, medicineName: item.medicineName, expected: outstanding, actual: received });
+      } else if (received > outstanding) {
+        discrepancies.push({ type: 'EXCESS', medicineId: item.medicineId, medicineName: item.medicineName, expected: outstanding, actual: received });
+      }
+
+      for (const line of matched) {
+        if (Math.abs(line.purchasePrice - item.expectedPrice) >= PRICE_TOLERANCE) {
+          discrepancies.push({ type: 'PRICE', medicineId: item.medicineId, medicineName: item.medicineName, expected: item.expectedPrice, actual: line.purchasePrice });
+        }
+      }
+    }
+
+    for (const line of lines.filter(line => !line.purchaseOrderItemId)) {
+      discrepancies.push({ type: 'NOT_ORDERED', medicineId: line.medicineId, medicineName: line.medicineName, expected: 0, actual: line.quantity });
+    }
+
+    return discrepancies;
+  }
+
+  /**
+   * Post a goods received note: create every batch against the GRN, charge the supplier
+   * against their bill and book the quantities on the purchase order, all in one transaction.
+   */
+  static async createGRN(input: GoodsReceiptInput): Promise<GoodsReceivedNote> {
+    if (!input.supplierId) {
+      throw new Error('Select the supplier who sent the goods');
+    }
+    const supplierInvoiceNumber = input.supplierInvoiceNumber.trim();
+    if (!supplierInvoiceNumber) {
+      throw new Error('Enter the supplier invoice number');
+    }
+    const lines = input.lines.filter(line => line.quantity > 0);
+    if (lines.length === 0) {
+      throw new Error('The GRN has no received items');
+    }
+    const incomplete = lines.find(line => !line.batchNumber.trim() || isNaN(new Date(line.expiryDate).getTime()) || line.mrp <= 0);
+    if (incomplete) {
+      throw new Error(`Enter batch number, expiry and MRP for ${incomplete.medicineName}`);
+    }
+
+    const pharmacistId = input.pharmacistId || UserService.getCurrentUserId();
+
+    return await db.transaction(
+      'rw',
+      [db.goodsReceivedNotes, db.invoiceCounters, db.batches, db.suppliers, db.supplierLedger, db.purchaseOrders, db.auditLogs],
+      async () => {
+        const duplicate = await db.goodsReceivedNotes
+          .where('supplierInvoiceNumber')
+          .equals(supplierInvoiceNumber)
+          .filter(note => note.supplierId === input.supplierId)
+          .first();
+        if (duplicate) {
+          throw new Error(`Supplier invoice ${supplierInvoiceNumber} was already received on ${duplicate.grnNumber}`);
+        }
+
+        const order = input.purchaseOrderId ? await db.purchaseOrders.get(input.purchaseOrderId) : undefined;
+        if (input.purchaseOrderId && (!order || order.supplierId !== input.supplierId)) {
+          throw new Error('The purchase order does not belong to this supplier');
+        }
+
+        const receivedAt = new Date();
+        const grnId = crypto.randomUUID();
+        const items: GoodsReceivedItem[] = lines.map(line => ({
+          ...line,
+          batchNumber: line.batchNumber.trim(),
+          id: crypto.randomUUID(),
+          batchId: crypto.randomUUID()
+        }));
+
+        const note: GoodsReceivedNote = {
+          id: grnId,
+          grnNumber: await InvoiceNumberService.allocateGoodsReceivedNote(receivedAt),
+          supplierId: input.supplierId,
+          purchaseOrderId: order?.id,
+          supplierInvoiceNumber,
+          supplierInvoiceDate: input.supplierInvoiceDate,
+          items,
+          discrepancies: this.reconcile(order, lines),
+          totalAmount: items.reduce((sum, item) => sum + item.quantity * item.purchasePrice, 0),
+          notes: input.notes || undefined,
+          receivedAt,
+          pharmacistId
+        };
+
+        for (const item of items) {
+          const batch: Batch = {
+            id: item.batchId,
+            medicineId: item.medicineId,
+            batchNumber: item.batchNumber,
+            expiryDate: new Date(item.expiryDate),
+            mrp: item.mrp,
+            purchasePrice: item.purchasePrice,
+            sellingPrice: item.sellingPrice || item.mrp,
+            currentStock: item.quantity,
+            supplierId: input.supplierId,
+            receivedDate: receivedAt,
+            grnId
+          };
+          await SupplierService.receiveBatch(batch, supplierInvoiceNumber);
+        }
+
+        if (order) {
+          await PurchaseOrderService.recordReceipt(
+            order.id,
+            items.flatMap(item =>
+              item.purchaseOrderItemId ? [{ itemId: item.purchaseOrderItemId, quantity: item.quantity }] : []
+            )
+          );
+        }
+
+        await db.goodsReceivedNotes.add(note);
+        await AuditService.logAction({
+          userId: pharmacistId,
+          action: 'PURCHASE',
+          entityType: 'GRN',
+          entityId: note.id,
+          newData: {
+            grnNumber: note.grnNumber,
+            supplierInvoiceNumber,
+            purchaseOrderId: note.purchaseOrderId,
+            totalAmount: note.totalAmount,
+            discrepancies: note.discrepancies.length
+          }
+        });
+
+        return note;
+      }
+    );
+  }
+}
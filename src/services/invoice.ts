@@ -0,0 +1,395 @@
+import { db } from '../database';
+import { CreditNote, Medicine, Sale, ShopSettings } from '../types';
+import { SettingsService } from './settings';
+import jsPDF from 'jspdf';
+import { format } from 'date-fns';
+
+export interface InvoiceLine {
+  name: string;
+  hsn: string;
+  batchNumber: string;
+  expiryDate?: Date;
+  quantity: number;
+  unitPrice: number;
+  taxableValue: number;
+  gstRate: number;
+  cgst: number;
+  sgst: number;
+  total: number;
+  scheduleType: Medicine['scheduleType'];
+}
+
+export interface InvoiceData {
+  sale: Sale;
+  settings: ShopSettings;
+  lines: InvoiceLine[];
+  subtotal: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  warnings: string[];
+}
+
+export const SCHEDULE_WARNINGS: Record<Exclude<Medicine['scheduleType'], 'GENERAL'>, string> = {
+  H: 'Schedule H drug - To be sold by retail on the prescription of a Registered Medical Practitioner only.',
+  H1: 'Schedule H1 drug - It is dangerous to take this preparation except in accordance with medical advice. Not to be sold by retail without the prescription of a Registered Medical Practitioner.',
+  X: 'Schedule X drug - To be sold by retail on the prescription of a Registered Medical Practitioner only. Prescription retained by the chemist.'
+};
+
+// jsPDF's built-in fonts have no rupee glyph
+const money = (value: number) => `Rs.${value.toFixed(2)}`;
+
+export class InvoiceService {
+  /**
+   * Resolve HSN, expiry and GST details for each sale line and compute the tax split.
+   * Older sales stored before these fields existed fall back to the current medicine and batch records.
+   */
+  static async buildInvoice(sale: Sale): Promise<InvoiceData> {
+    const [settings, medicines, batches] = await Promise.all([
+      SettingsService.getSettings(),
+      db.medicines.bulkGet(sale.items.map(item => item.medicineId)),
+      db.batches.bulkGet(sale.items.map(item => item.batchId))
+    ]);
+
+    const subtotal = sale.items.reduce((sum, item) => sum + item.totalPrice, 0);
+    const discountRatio = subtotal > 0 ? sale.discountAmount / subtotal : 0;
+
+    const lines: InvoiceLine[] = sale.items.map((item, index) => {
+      const medicine = medicines[index];
+      const gstRate = item.gstRate ?? medicine?.gst ?? 0;
+      const taxableValue = item.totalPrice * (1 - discountRatio);
+      const tax = (taxableValue * gstRate) / 100;
+      const expiryDate = item.expiryDate ?? batches[index]?.expiryDate;
+
+      return {
+        name: item.medicineName,
+        hsn: item.hsn ?? medicine?.hsn ?? '',
+        batchNumber: item.batchNumber,
+        expiryDate: expiryDate ? new Date(expiryDate) : undefined,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        taxableValue,
+        gstRate,
+        cgst: tax / 2,
+        sgst: tax / 2,
+        total: taxableValue + tax,
+        scheduleType: item.scheduleType ?? medicine?.scheduleType ?? 'GENERAL'
+      };
+    });
+
+    const scheduleTypes = new Set(lines.map(line => line.scheduleType));
+    const warnings = (['H', 'H1', 'X'] as const)
+      .filter(type => scheduleTypes.has(type))
+      .map(type => SCHEDULE_WARNINGS[type]);
+
+    return {
+      sale,
+      settings,
+      lines,
+      subtotal,
+      taxableValue: lines.reduce((sum, line) => sum + line.taxableValue, 0),
+      cgst: lines.reduce((sum, line) => sum + line.cgst, 0),
+      sgst: lines.reduce((sum, line) => sum + line.sgst, 0),
+      warnings
+    };
+  }
+
+  /**
+   * A4 GST tax invoice
+   */
+  static async generateA4(sale: Sale): Promise<Blob> {
+    const invoice = await this.buildInvoice(sale);
+    const { settings } = invoice;
+    const pdf = new jsPDF({ orientation: 'landscape' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+
+    // Shop header
+    pdf.setFontSize(16);
+    pdf.text(settings.shopName, 15, 18);
+    pdf.setFontSize(9);
+    let y = 24;
+    for (const line of [
+      settings.address,
+      settings.phone ? `Phone: ${settings.phone}` : '',
+      settings.gstin ? `GSTIN: ${settings.gstin}` : '',
+      settings.drugLicenseNumbers ? `D.L. No: ${settings.drugLicenseNumbers}` : ''
+    ].filter(Boolean)) {
+      pdf.text(line, 15, y);
+      y += 5;
+    }
+
+    pdf.setFontSize(14);
+    pdf.text('TAX INVOICE', pageWidth - 15, 18, { align: 'right' });
+    pdf.setFontSize(9);
+    pdf.text(`Invoice No: ${sale.invoiceNumber}`, pageWidth - 15, 24, { align: 'right' });
+    pdf.text(`Date: ${format(new Date(sale.saleDate), 'dd MMM yyyy HH:mm')}`, pageWidth - 15, 29, { align: 'right' });
+    pdf.text(`Payment: ${sale.paymentMethod}`, pageWidth - 15, 34, { align: 'right' });
+
+    // Customer
+    y = Math.max(y, 40) + 2;
+    pdf.text(`Customer: ${sale.customerName || 'Walk-in Customer'}`, 15, y);
+    if (sale.customerPhone) pdf.text(`Phone: ${sale.customerPhone}`, 110, y);
+    if (sale.prescriptionNumber) pdf.text(`Prescription: ${sale.prescriptionNumber}`, 180, y);
+
+    // Table headers
+    const columns = [
+      { label: '#', x: 15 },
+      { label: 'Item', x: 22 },
+      { label: 'HSN', x: 80 },
+      { label: 'Batch', x: 100 },
+      { label: 'Exp', x: 125 },
+      { label: 'Qty', x: 142 },
+      { label: 'Rate', x: 155 },
+      { label: 'Taxable', x: 177 },
+      { label: 'GST%', x: 201 },
+      { label: 'CGST', x: 215 },
+      { label: 'SGST', x: 236 },
+      { label: 'Amount', x: 257 }
+    ];
+
+    y += 10;
+    pdf.setFont('helvetica', 'bold');
+    columns.forEach(column => pdf.text(column.label, column.x, y));
+    pdf.setFont('helvetica', 'normal');
+    pdf.line(15, y + 2, pageWidth - 15, y + 2);
+
+    // Table data
+    invoice.lines.forEach((line, index) => {
+      y += 7;
+      if (y > pageHeight - 50) {
+        pdf.addPage();
+        y = 20;
+      }
+      const row = [
+        String(index + 1),
+        `${line.name.substring(0, 30)}${line.scheduleType !== 'GENERAL' ? ` (${line.scheduleType})` : ''}`,
+        line.hsn,
+        line.batchNumber.substring(0, 12),
+        line.expiryDate ? format(line.expiryDate, 'MM/yy') : '-',
+        String(line.quantity),
+        line.unitPrice.toFixed(2),
+        line.taxableValue.toFixed(2),
+        `${line.gstRate}%`,
+        line.cgst.toFixed(2),
+        line.sgst.toFixed(2),
+        line.total.toFixed(2)
+      ];
+      row.forEach((cell, cellIndex) => pdf.text(cell, columns[cellIndex].x, y));
+    });
+
+    // Totals
+    y += 4;
+    pdf.line(15, y, pageWidth - 15, y);
+    const totals: Array<[string, string]> = [
+      ['Subtotal', money(invoice.subtotal)],
+      ['Discount', `-${money(sale.discountAmount)}`],
+      ['Taxable Value', money(invoice.taxableValue)],
+      ['CGST', money(invoice.cgst)],
+      ['SGST', money(invoice.sgst)],
+      ['Grand Total', money(sale.totalAmount)]
+    ];
+    for (const [label, value] of totals) {
+      y += 6;
+      if (label === 'Grand Total') pdf.setFont('helvetica', 'bold');
+      pdf.text(label, pageWidth - 70, y);
+      pdf.text(value, pageWidth - 15, y, { align: 'right' });
+    }
+    pdf.setFont('helvetica', 'normal');
+
+    // Schedule warnings
+    if (invoice.warnings.length > 0) {
+      y += 10;
+      pdf.setFontSize(8);
+      for (const warning of invoice.warnings) {
+        const wrapped = pdf.splitTextToSize(warning, pageWidth - 30);
+        pdf.text(wrapped, 15, y);
+        y += wrapped.length * 4;
+      }
+    }
+
+    pdf.setFontSize(9);
+    pdf.text('Pharmacist Signature', pageWidth - 15, pageHeight - 15, { align: 'right' });
+    pdf.text('Goods once sold will be taken back only as per store policy.', 15, pageHeight - 15);
+
+    return pdf.output('blob');
+  }
+
+  /**
+   * 80mm thermal-printer receipt
+   */
+  static async generateThermal(sale: Sale): Promise<Blob> {
+    const invoice = await this.buildInvoice(sale);
+    const { settings } = invoice;
+    const width = 80;
+    const margin = 4;
+    const contentWidth = width - margin * 2;
+
+    // Measure first so the roll is cut to the content length
+    const measure = new jsPDF({ unit: 'mm', format: [width, 1000] });
+    measure.setFontSize(7);
+    const warningLines = invoice.warnings.flatMap(warning => measure.splitTextToSize(warning, contentWidth) as string[]);
+    const height = 75 + invoice.lines.length * 11 + warningLines.length * 3;
+
+    const pdf = new jsPDF({ unit: 'mm', format: [width, height] });
+    pdf.setFont('courier', 'normal');
+    const center = width / 2;
+    let y = 8;
+    const divider = () => {
+      y += 2;
+      pdf.line(margin, y, width - margin, y);
+      y += 4;
+    };
+
+    pdf.setFontSize(11);
+    pdf.text(settings.shopName, center, y, { align: 'center' });
+    pdf.setFontSize(7);
+    for (const line of [
+      settings.address,
+      settings.gstin ? `GSTIN: ${settings.gstin}` : '',
+      settings.drugLicenseNumbers ? `DL: ${settings.drugLicenseNumbers}` : ''
+    ].filter(Boolean)) {
+      y += 3.5;
+      pdf.text(pdf.splitTextToSize(line, contentWidth), center, y, { align: 'center' });
+    }
+
+    y += 5;
+    pdf.setFontSize(9);
+    pdf.text('TAX INVOICE', center, y, { align: 'center' });
+    pdf.setFontSize(7);
+    y += 4;
+    pdf.text(`No: ${sale.invoiceNumber}`, margin, y);
+    y += 3.5;
+    pdf.text(format(new Date(sale.saleDate), 'dd/MM/yyyy HH:mm'), margin, y);
+    y += 3.5;
+    pdf.text(`Cust: ${(sale.customerName || 'Walk-in Customer').substring(0, 30)}`, margin, y);
+    divider();
+
+    for (const line of invoice.lines) {
+      pdf.text(`${line.name.substring(0, 28)}${line.scheduleType !== 'GENERAL' ? ` [${line.scheduleType}]` : ''}`, margin, y);
+      y += 3.5;
+      pdf.text(`HSN ${line.hsn} B:${line.batchNumber.substring(0, 10)} E:${line.expiryDate ? format(line.expiryDate, 'MM/yy') : '-'}`, margin, y);
+      y += 3.5;
+      pdf.text(`${line.quantity} x ${line.unitPrice.toFixed(2)}  GST ${line.gstRate}%`, margin, y);
+      pdf.text(line.total.toFixed(2), width - margin, y, { align: 'right' });
+      y += 4;
+    }
+    divider();
+
+    const totals: Array<[string, number]> = [
+      ['Subtotal', invoice.subtotal],
+      ['Discount', -sale.discountAmount],
+      ['Taxable', invoice.taxableValue],
+      ['CGST', invoice.cgst],
+      ['SGST', invoice.sgst]
+    ];
+    for (const [label, value] of totals) {
+      pdf.text(label, margin, y);
+      pdf.text(value.toFixed(2), width - margin, y, { align: 'right' });
+      y += 3.5;
+    }
+    pdf.setFontSize(9);
+    pdf.setFont('courier', 'bold');
+    pdf.text('TOTAL', margin, y + 1);
+    pdf.text(money(sale.totalAmount), width - margin, y + 1, { align: 'right' });
+    pdf.setFont('courier', 'normal');
+    pdf.setFontSize(7);
+    y += 5;
+    pdf.text(`Paid by ${sale.paymentMethod}`, margin, y);
+
+    if (warningLines.length > 0) {
+      divider();
+      pdf.text(warningLines, margin, y);
+      y += warningLines.length * 3;
+    }
+
+    y += 4;
+    pdf.text('Thank you. Get well soon!', center, y, { align: 'center' });
+
+    return pdf.output('blob');
+  }
+
+  /**
+   * A4 credit note for returned items
+   */
+  static async generateCreditNote(note: CreditNote): Promise<Blob> {
+    const settings = await SettingsService.getSettings();
+    const pdf = new jsPDF();
+    const pageWidth = pdf.internal.pageSize.getWidth();
+
+    pdf.setFontSize(16);
+    pdf.text(settings.shopName, 15, 18);
+    pdf.setFontSize(9);
+    let y = 24;
+    for (const line of [
+      settings.address,
+      settings.gstin ? `GSTIN: ${settings.gstin}` : ''
+    ].filter(Boolean)) {
+      pdf.text(line, 15, y);
+      y += 5;
+    }
+
+    pdf.setFontSize(14);
+    pdf.text('CREDIT NOTE', pageWidth - 15, 18, { align: 'right' });
+    pdf.setFontSize(9);
+    pdf.text(`Credit Note No: ${note.creditNoteNumber}`, pageWidth - 15, 24, { align: 'right' });
+    pdf.text(`Date: ${format(new Date(note.createdAt), 'dd MMM yyyy HH:mm')}`, pageWidth - 15, 29, { align: 'right' });
+    pdf.text(`Against Invoice: ${note.invoiceNumber}`, pageWidth - 15, 34, { align: 'right' });
+
+    y = Math.max(y, 40) + 2;
+    pdf.text(`Customer: ${note.customerName || 'Walk-in Customer'}`, 15, y);
+    if (note.reason) {
+      y += 5;
+      pdf.text(`Reason: ${note.reason}`, 15, y);
+    }
+
+    const columns = [
+      { label: 'Item', x: 15 },
+      { label: 'Batch', x: 70 },
+      { label: 'Qty', x: 100 },
+      { label: 'Taxable', x: 115 },
+      { label: 'GST%', x: 140 },
+      { label: 'CGST', x: 155 },
+      { label: 'SGST', x: 172 },
+      { label: 'Amount', x: 189 }
+    ];
+
+    y += 10;
+    pdf.setFont('helvetica', 'bold');
+    columns.forEach(column => pdf.text(column.label, column.x, y));
+    pdf.setFont('helvetica', 'normal');
+    pdf.line(15, y + 2, pageWidth - 15, y + 2);
+
+    for (const item of note.items) {
+      y += 7;
+      const row = [
+        item.medicineName.substring(0, 28),
+        item.batchNumber.substring(0, 14),
+        String(item.quantity),
+        item.taxableValue.toFixed(2),
+        `${item.gstRate}%`,
+        (item.gstAmount / 2).toFixed(2),
+        (item.gstAmount / 2).toFixed(2),
+        item.totalAmount.toFixed(2)
+      ];
+      row.forEach((cell, cellIndex) => pdf.text(cell, columns[cellIndex].x, y));
+    }
+
+    y += 4;
+    pdf.line(15, y, pageWidth - 15, y);
+    const totals: Array<[string, string]> = [
+      ['Taxable Value', money(note.taxableAmount)],
+      ['CGST Reversed', money(note.gstAmount / 2)],
+      ['SGST Reversed', money(note.gstAmount / 2)],
+      ['Total Credit', money(note.totalAmount)]
+    ];
+    for (const [label, value] of totals) {
+      y += 6;
+      if (label === 'Total Credit') pdf.setFont('helvetica', 'bold');
+      pdf.text(label, pageWidth - 70, y);
+      pdf.text(value, pageWidth - 15, y, { align: 'right' });
+    }
+
+    return pdf.output('blob');
+  }
+}
@@ -0,0 +1,87 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../database';
+import { usePharmacyStore } from '../store';
+import { User } from '../types';
+import { InvoiceNumberService } from './invoiceNumber';
+import { PermissionError } from './permissions';
+
+const user = (role: User['role']): User => ({
+  id: `${role.toLowerCase()}-1`,
+  name: role,
+  role,
+  pinHash: '',
+  pinSalt: '',
+  active: true,
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date('2024-04-01T10:00:00Z')
+});
+
+const may = new Date('2024-05-10T11:00:00');
+
+describe('InvoiceNumberService', () => {
+  beforeEach(() => {
+    usePharmacyStore.getState().setCurrentUser(user('OWNER'));
+  });
+
+  afterEach(async () => {
+    usePharmacyStore.getState().setCurrentUser(null);
+    await Promise.all([db.invoiceCounters.clear(), db.settings.clear()]);
+  });
+
+  it('numbers sales consecutively', async () => {
+    const numbers = [];
+    for (let sale = 0; sale < 3; sale++) {
+      numbers.push(await InvoiceNumberService.allocate(may));
+    }
+
+    expect(numbers).toEqual(['INV-24-25/00001', 'INV-24-25/00002', 'INV-24-25/00003']);
+  });
+
+  it('gives the number back when the sale transaction aborts', async () => {
+    await expect(db.transaction('rw', db.sales, db.invoiceCounters, db.settings, async () => {
+      await InvoiceNumberService.allocate(may);
+      throw new Error('Out of stock');
+    })).rejects.toThrow('Out of stock');
+
+    expect(await InvoiceNumberService.allocate(may)).toBe('INV-24-25/00001');
+  });
+
+  it('gives allocations running at the same time different numbers', async () => {
+    const numbers = await Promise.all([1, 2, 3].map(() => InvoiceNumberService.allocate(may)));
+
+    expect([...numbers].sort()).toEqual(['INV-24-25/00001', 'INV-24-25/00002', 'INV-24-25/00003']);
+  });
+
+  it('restarts numbering on 1 April under the new financial year', async () => {
+    await InvoiceNumberService.allocate(new Date('2025-03-31T20:00:00'));
+    expect(await InvoiceNumberService.allocate(new Date('2025-03-31T21:00:00'))).toBe('INV-24-25/00002');
+
+    expect(await InvoiceNumberService.allocate(new Date('2025-04-01T09:00:00'))).toBe('INV-25-26/00001');
+  });
+
+  it('previews the number the next sale receives without reserving it', async () => {
+    await InvoiceNumberService.allocate(may);
+
+    const preview = await InvoiceNumberService.peekNext(may);
+    expect(await InvoiceNumberService.peekNext(may)).toBe(preview);
+    expect(await InvoiceNumberService.allocate(may)).toBe(preview);
+  });
+
+  it('starts numbering from a later number but never goes back', async () => {
+    await InvoiceNumberService.allocate(may);
+
+    await expect(InvoiceNumberService.startNumberingAt(1, may))
+      .rejects.toThrow('Invoice INV-24-25/00001 has already been issued; numbering can only move forward');
+    expect(await InvoiceNumberService.startNumberingAt(1250, may)).toBe('INV-24-25/01250');
+    expect(await InvoiceNumberService.allocate(may)).toBe('INV-24-25/01250');
+    await expect(InvoiceNumberService.startNumberingAt(1250, may)).rejects.toThrow('numbering can only move forward');
+  });
+
+  it('only lets the owner change where numbering starts', async () => {
+    usePharmacyStore.getState().setCurrentUser(user('CASHIER'));
+
+    await expect(InvoiceNumberService.startNumberingAt(100, may)).rejects.toBeInstanceOf(PermissionError);
+    expect(await db.invoiceCounters.count()).toBe(0);
+  });
+});
@@ -0,0 +1,105 @@
+import { db } from '../database';
+import { PermissionService } from './permissions';
+import { SettingsService } from './settings';
+
+const CREDIT_NOTE_PREFIX = 'CN-';
+const PURCHASE_ORDER_PREFIX = 'PO-';
+const GOODS_RECEIVED_PREFIX = 'GRN-';
+
+export class InvoiceNumberService {
+  /**
+   * Indian financial year label (April-March) for a date, e.g. "2025-26"
+   */
+  static getFinancialYear(date: Date = new Date()): string {
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+
+  static format(prefix: string, financialYear: string, sequence: number): string {
+    return `${prefix}${financialYear.substring(2)}/${String(sequence).padStart(5, '0')}`;
+  }
+
+  /**
+   * Allocate the next invoice number for the financial year of `date`.
+   * Call this inside the transaction that saves the sale: IndexedDB serialises
+   * read-write transactions across tabs, and an aborted sale rolls the counter
+   * back, so numbers are never skipped or reused.
+   */
+  static async allocate(date: Date = new Date()): Promise<string> {
+    return await db.transaction('rw', db.invoiceCounters, db.settings, async () => {
+      const financialYear = this.getFinancialYear(date);
+      const sequence = await this.nextSequence(financialYear);
+      const { invoicePrefix } = await SettingsService.getSettings();
+      return this.format(invoicePrefix, financialYear, sequence);
+    });
+  }
+
+  /**
+   * Allocate the next credit note number. Credit notes run in their own
+   * per-financial-year series with the same guarantees as invoices.
+   */
+  static async allocateCreditNote(date: Date = new Date()): Promise<string> {
+    return await this.allocateSeries(CREDIT_NOTE_PREFIX, date);
+  }
+
+  static async allocatePurchaseOrder(date: Date = new Date()): Promise<string> {
+    return await this.allocateSeries(PURCHASE_ORDER_PREFIX, date);
+  }
+
+  static async allocateGoodsReceivedNote(date: Date = new Date()): Promise<string> {
+    return await this.allocateSeries(GOODS_RECEIVED_PREFIX, date);
+  }
+
+  private static async allocateSeries(prefix: string, date: Date): Promise<string> {
+    return await db.transaction('rw', db.invoiceCounters, async () => {
+      const financialYear = this.getFinancialYear(date);
+      const sequence = await this.nextSequence(`${prefix}${financialYear}`);
+      return this.format(prefix, financialYear, sequence);
+    });
+  }
+
+  private static async nextSequence(counterId: string): Promise<number> {
+    const counter = await db.invoiceCounters.get(counterId);
+    const sequence = (counter?.lastNumber ?? 0) + 1;
+    await db.invoiceCounters.put({ id: counterId, lastNumber: sequence, updatedAt: new Date() });
+    return sequence;
+  }
+
+  /**
+   * Continue this financial year's invoices from `sequence`, e.g. when moving over from
+   * another billing system. Numbering only moves forward: a number already issued is refused.
+   */
+  static async startNumberingAt(sequence: number, date: Date = new Date()): Promise<string> {
+    PermissionService.require('settings.edit');
+    if (!Number.isInteger(sequence) || sequence < 1) {
+      throw new Error('The starting number must be a whole number from 1');
+    }
+
+    return await db.transaction('rw', db.invoiceCounters, db.settings, async () => {
+      const financialYear = this.getFinancialYear(date);
+      const counter = await db.invoiceCounters.get(financialYear);
+      const { invoicePrefix } = await SettingsService.getSettings();
+      if (counter && sequence <= counter.lastNumber) {
+        throw new Error(
+          `Invoice ${this.format(invoicePrefix, financialYear, counter.lastNumber)} has already been issued; ` +
+          'numbering can only move forward'
+        );
+      }
+
+      await db.invoiceCounters.put({ id: financialYear, lastNumber: sequence - 1, updatedAt: new Date() });
+      return this.format(invoicePrefix, financialYear, sequence);
+    });
+  }
+
+  /**
+   * Preview the number the next sale will receive, without reserving it
+   */
+  static async peekNext(date: Date = new Date()): Promise<string> {
+    const financialYear = this.getFinancialYear(date);
+    const [counter, settings] = await Promise.all([
+      db.invoiceCounters.get(financialYear),
+      SettingsService.getSettings()
+    ]);
+    return this.format(settings.invoicePrefix, financialYear, (counter?.lastNumber ?? 0) + 1);
+  }
+}
@@ -0,0 +1,55 @@
+import { db } from '../database';
+import { Batch, Medicine } from '../types';
+import { OverrideApproval, PermissionService } from './permissions';
+
+const PRICE_FIELDS = ['mrp', 'sellingPrice', 'purchasePrice'] as const;
+
+export class MedicineService {
+  /**
+   * Save edits to a medicine and its batches. Changing any batch price needs the price.edit permission.
+   */
+  static async updateMedicine(
+    medicineId: string,
+    updates: Partial<Medicine>,
+    batches: Batch[],
+    approvals: OverrideApproval[] = []
+  ): Promise<void> {
+    const stored = await db.batches.bulkGet(batches.map(batch => batch.id));
+    const pricesChanged = batches.some((batch, index) =>
+      PRICE_FIELDS.some(field => stored[index] && stored[index][field] !== batch[field])
+    );
+    if (pricesChanged) {
+      PermissionService.require('price.edit', approvals);
+    }
+
+    await db.transaction('rw', db.medicines, db.batches, async () => {
+      await db.medicines.update(medicineId, { ...updates, updatedAt: new Date() });
+      for (const batch of batches) {
+        await db.batches.update(batch.id, {
+          ...batch,
+          expiryDate: new Date(batch.expiryDate)
+        });
+      }
+    });
+  }
+
+  /**
+   * Delete a medicine and its empty batches. Medicines with stock on hand cannot be deleted.
+   */
+  static async deleteMedicine(medicineId: string, approvals: OverrideApproval[] = []): Promise<void> {
+    await db.transaction('rw', db.medicines, db.batches, async () => {
+      const stocked = await db.batches
+        .where('medicineId')
+        .equals(medicineId)
+        .filter(batch => batch.currentStock > 0)
+        .count();
+      if (stocked > 0) {
+        throw new Error('Cannot delete medicine with existing stock. Please clear all batches first.');
+      }
+      PermissionService.require('inventory.delete', approvals);
+
+      await db.batches.where('medicineId').equals(medicineId).delete();
+      await db.medicines.delete(medicineId);
+    });
+  }
+}
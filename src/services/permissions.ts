@@ -0,0 +1,79 @@
+import { User, UserRole } from '../types';
+import { usePharmacyStore } from '../store';
+
+export type Permission =
+  | 'inventory.delete'
+  | 'price.edit'
+  | 'discount.above10'
+  | 'h1.dispense'
+  | 'reports.view'
+  | 'audit.view'
+  | 'users.manage'
+  | 'settings.edit'
+  | 'backup.restore';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'inventory.delete': 'Delete medicines',
+  'price.edit': 'Change batch prices',
+  'discount.above10': 'Give a discount above 10%',
+  'h1.dispense': 'Dispense Schedule H1 medicines',
+  'reports.view': 'View reports',
+  'audit.view': 'View and export the audit log',
+  'users.manage': 'Manage users',
+  'settings.edit': 'Change shop settings and invoice numbering',
+  'backup.restore': 'Restore a backup'
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  OWNER: Object.keys(PERMISSION_LABELS) as Permission[],
+  PHARMACIST: ['price.edit', 'h1.dispense', 'reports.view', 'audit.view'],
+  CASHIER: []
+};
+
+// Discounts up to this percentage need no approval
+export const MAX_UNAPPROVED_DISCOUNT = 10;
+
+// An approval covers the action it was given for, not a later one
+const APPROVAL_VALID_MS = 5 * 60 * 1000;
+
+/**
+ * A one-off approval for an action the signed-in user may not perform themselves
+ */
+export interface OverrideApproval {
+  permission: Permission;
+  approvedBy: string;
+  approvedByName: string;
+  approvedAt: Date;
+}
+
+export class PermissionError extends Error {
+  constructor(public readonly permission: Permission) {
+    super(`${PERMISSION_LABELS[permission]} needs approval`);
+    this.name = 'PermissionError';
+  }
+}
+
+export class PermissionService {
+  static can(user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean {
+    return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+  }
+
+  static canCurrentUser(permission: Permission): boolean {
+    return this.can(usePharmacyStore.getState().currentUser, permission);
+  }
+
+  /**
+   * Throw a PermissionError unless the signed-in user holds the permission
+   * or an approval for it has just been given
+   */
+  static require(permission: Permission, approvals: OverrideApproval[] = []): void {
+    if (this.canCurrentUser(permission)) return;
+
+    const approved = approvals.some(approval =>
+      approval.permission === permission && Date.now() - new Date(approval.approvedAt).getTime() < APPROVAL_VALID_MS
+    );
+    if (!approved) {
+      throw new PermissionError(permission);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { db } from '../database';
+import { Medicine, Prescription } from '../types';
+import { AuditService } from './audit';
+import { ReturnsService } from './returns';
+
+export type PrescriptionInput = Omit<Prescription, 'id' | 'createdAt'>;
+
+// Phone photos of a prescription are a few MB; anything larger is probably the wrong file
+export const MAX_PRESCRIPTION_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export class PrescriptionService {
+  static async savePrescription(input: PrescriptionInput): Promise<Prescription> {
+    if (!input.prescriptionNumber.trim() || !input.patientName.trim() || !input.doctorName.trim()) {
+      throw new Error('Prescription number, patient and doctor are required');
+    }
+    if (input.items.length === 0) {
+      throw new Error('Add at least one prescribed item');
+    }
+    if (!Number.isInteger(input.refillsAllowed) || input.refillsAllowed < 0) {
+      throw new Error('Refills allowed must be a whole number');
+    }
+    if (input.image && input.image.size > MAX_PRESCRIPTION_IMAGE_BYTES) {
+      throw new Error('The prescription image must be under 10 MB');
+    }
+
+    const prescription: Prescription = {
+      ...input,
+      prescriptionNumber: input.prescriptionNumber.trim(),
+      patientName: input.patientName.trim(),
+      doctorName: input.doctorName.trim(),
+      id: crypto.randomUUID(),
+      createdAt: new Date()
+    };
+
+    return await db.transaction('rw', db.prescriptions, db.auditLogs, async () => {
+      await db.prescriptions.add(prescription);
+      await AuditService.logAction({
+        action: 'CREATE',
+        entityType: 'PRESCRIPTION',
+        entityId: prescription.id,
+        // The scan stays out of the log; the record keeps it
+        newData: { ...prescription, image: undefined }
+      });
+      return prescription;
+    });
+  }
+
+  static async getPrescription(id: string): Promise<Prescription | undefined> {
+    return await db.prescriptions.get(id);
+  }
+
+  /**
+   * Latest prescriptions matching a prescription number, patient or doctor
+   */
+  static async searchPrescriptions(query: string, limit: number = 20): Promise<Prescription[]> {
+    const needle = query.trim().toLowerCase();
+    return await db.prescriptions
+      .orderBy('prescribedDate')
+      .reverse()
+      .filter(prescription =>
+        !needle ||
+        prescription.prescriptionNumber.toLowerCase().includes(needle) ||
+        prescription.patientName.toLowerCase().includes(needle) ||
+        prescription.doctorName.toLowerCase().includes(needle)
+      )
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * Whether a medicine is one of the items prescribed, matched by record or by name
+   */
+  static covers(prescription: Prescription, medicine: Medicine): boolean {
+    const names = [medicine.name, medicine.brandName].map(name => name.trim().toLowerCase());
+    return prescription.items.some(item =>
+      item.medicineId === medicine.id || names.includes(item.name.trim().toLowerCase())
+    );
+  }
+
+  /**
+   * Sales that can still be made against a prescription: the first fill plus its refills.
+   * A sale returned in full gives its fill back.
+   */
+  static async getFillsRemaining(prescription: Prescription): Promise<number> {
+    const sales = await db.sales.where('prescriptionId').equals(prescription.id).toArray();
+    let fills = 0;
+    for (const sale of sales) {
+      const returned = await ReturnsService.getReturnedQuantities(sale.id);
+      if (sale.items.some(item => (returned.get(item.id) || 0) < item.quantity)) {
+        fills += 1;
+      }
+    }
+    return Math.max(0, prescription.refillsAllowed + 1 - fills);
+  }
+}
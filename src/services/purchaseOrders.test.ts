@@ -0,0 +1,96 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { db } from '../database';
+import { Batch } from '../types';
+import { PurchaseOrderService } from './purchaseOrders';
+
+const lines = [
+  { medicineId: 'med-a', medicineName: 'Crocin 650', orderedQuantity: 10, expectedPrice: 20 },
+  { medicineId: 'med-b', medicineName: 'Azee 500', orderedQuantity: 4, expectedPrice: 60 }
+];
+
+const batch = (id: string, medicineId: string, currentStock: number): Batch => ({
+  id,
+  medicineId,
+  batchNumber: id.toUpperCase(),
+  expiryDate: new Date('2026-12-31'),
+  mrp: 80,
+  purchasePrice: 20,
+  sellingPrice: 72,
+  currentStock,
+  supplierId: 'sup-1',
+  receivedDate: new Date()
+});
+
+describe('PurchaseOrderService', () => {
+  afterEach(async () => {
+    await Promise.all([
+      db.purchaseOrders.clear(), db.batches.clear(), db.suppliers.clear(), db.supplierLedger.clear(), db.invoiceCounters.clear()
+    ]);
+    await db.auditLogs.clear();
+  });
+
+  it('creates a numbered draft and merges repeated medicines into one line', async () => {
+    const order = await PurchaseOrderService.createOrder('sup-1', [
+      ...lines,
+      { medicineId: 'med-a', medicineName: 'Crocin 650', orderedQuantity: 10, expectedPrice: 22 },
+      { medicineId: 'med-c', medicineName: 'Pan 40', orderedQuantity: 0, expectedPrice: 9 }
+    ]);
+
+    expect(order).toMatchObject({ status: 'DRAFT', totalAmount: 660 });
+    expect(order.orderNumber).toMatch(/^PO-\d{2}-\d{2}\/00001$/);
+    expect(order.items.map(item => [item.medicineId, item.orderedQuantity, item.expectedPrice]))
+      .toEqual([['med-a', 20, 21], ['med-b', 4, 60]]);
+    await expect(PurchaseOrderService.createOrder('sup-1', [])).rejects.toThrow('The order has no items');
+  });
+
+  it('only moves an order forward through its lifecycle', async () => {
+    const order = await PurchaseOrderService.createOrder('sup-1', lines);
+
+    await expect(PurchaseOrderService.close(order.id)).rejects.toThrow('A draft order cannot be marked closed');
+    await PurchaseOrderService.markSent(order.id);
+    expect(await db.purchaseOrders.get(order.id)).toMatchObject({ status: 'SENT', sentAt: expect.any(Date) });
+    await expect(PurchaseOrderService.markSent(order.id)).rejects.toThrow('A sent order cannot be marked sent');
+    await expect(PurchaseOrderService.deleteDraft(order.id)).rejects.toThrow('Only draft orders can be deleted');
+
+    await PurchaseOrderService.close(order.id);
+    expect(await db.purchaseOrders.get(order.id)).toMatchObject({ status: 'CLOSED', closedAt: expect.any(Date) });
+    await expect(PurchaseOrderService.recordReceipt(order.id, []))
+      .rejects.toThrow('Cannot receive against a closed order');
+  });
+
+  it('deletes drafts', async () => {
+    const order = await PurchaseOrderService.createOrder('sup-1', lines);
+
+    await PurchaseOrderService.deleteDraft(order.id);
+    expect(await db.purchaseOrders.count()).toBe(0);
+  });
+
+  it('is partially received until every line arrives in full', async () => {
+    const order = await PurchaseOrderService.createOrder('sup-1', lines);
+    await PurchaseOrderService.markSent(order.id);
+    const [itemA, itemB] = order.items;
+
+    const partial = await PurchaseOrderService.recordReceipt(order.id, [
+      { itemId: itemA.id, quantity: 6 },
+      { itemId: itemA.id, quantity: 4 }
+    ]);
+    expect(partial.status).toBe('PARTIALLY_RECEIVED');
+    expect(partial.items.map(item => item.receivedQuantity)).toEqual([10, 0]);
+    expect((await PurchaseOrderService.getOpenOrders('sup-1')).map(open => open.id)).toEqual([order.id]);
+
+    const received = await PurchaseOrderService.receive(order.id, [{ itemId: itemB.id, batch: batch('azb1', 'med-b', 4) }]);
+    expect(received.status).toBe('RECEIVED');
+    expect(await db.purchaseOrders.get(order.id)).toMatchObject({ status: 'RECEIVED' });
+    expect((await db.batches.get('azb1'))?.currentStock).toBe(4);
+    expect(await PurchaseOrderService.getOpenOrders('sup-1')).toEqual([]);
+  });
+
+  it('adds no stock when a delivery is booked against an order that is not open', async () => {
+    const order = await PurchaseOrderService.createOrder('sup-1', lines);
+
+    await expect(PurchaseOrderService.receive(order.id, [{ itemId: order.items[0].id, batch: batch('crb1', 'med-a', 10) }]))
+      .rejects.toThrow('Cannot receive against a draft order');
+    expect(await db.batches.count()).toBe(0);
+  });
+});
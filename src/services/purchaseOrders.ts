@@ -0,0 +1,296 @@
+import { db } from '../database';
+import { Batch, PurchaseOrder, PurchaseOrderItem } from '../types';
+import { AuditService } from './audit';
+import { InvoiceNumberService } from './invoiceNumber';
+import { SettingsService } from './settings';
+import { SupplierService } from './suppliers';
+import jsPDF from 'jspdf';
+import { format } from 'date-fns';
+
+export type PurchaseOrderLine = Pick<PurchaseOrderItem, 'medicineId' | 'medicineName' | 'orderedQuantity' | 'expectedPrice'>;
+
+export interface ReceiptLine {
+  itemId: string;
+  quantity: number;
+}
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrder['status'], string> = {
+  DRAFT: 'Draft',
+  SENT: 'Sent',
+  PARTIALLY_RECEIVED: 'Partially Received',
+  RECEIVED: 'Received',
+  CLOSED: 'Closed'
+};
+
+const orderTotal = (items: PurchaseOrderItem[]) =>
+  items.reduce((sum, item) => sum + item.orderedQuantity * item.expectedPrice, 0);
+
+export class PurchaseOrderService {
+  static async getOrders(status?: PurchaseOrder['status']): Promise<PurchaseOrder[]> {
+    const collection = status
+      ? db.purchaseOrders.where('status').equals(status)
+      : db.purchaseOrders.toCollection();
+    return await collection.reverse().sortBy('createdAt');
+  }
+
+  /**
+   * Orders that can still have stock received against them
+   */
+  static async getOpenOrders(supplierId?: string): Promise<PurchaseOrder[]> {
+    const orders = await db.purchaseOrders
+      .where('status')
+      .anyOf('SENT', 'PARTIALLY_RECEIVED')
+      .sortBy('createdAt');
+    return supplierId ? orders.filter(order => order.supplierId === supplierId) : orders;
+  }
+
+  static async createOrder(supplierId: string, lines: PurchaseOrderLine[], notes?: string): Promise<PurchaseOrder> {
+    if (!supplierId) {
+      throw new Error('Select a supplier for the order');
+    }
+
+    // Merge repeated medicines into one line
+    const items: PurchaseOrderItem[] = [];
+    for (const line of lines.filter(line => line.orderedQuantity > 0)) {
+      const existing = items.find(item => item.medicineId === line.medicineId);
+      if (existing) {
+        const quantity = existing.orderedQuantity + line.orderedQuantity;
+        existing.expectedPrice = (existing.expectedPrice * existing.orderedQuantity + line.expectedPrice * line.orderedQuantity) / quantity;
+        existing.orderedQuantity = quantity;
+      } else {
+        items.push({ ...line, id: crypto.randomUUID(), receivedQuantity: 0 });
+      }
+    }
+    if (items.length === 0) {
+      throw new Error('The order has no items');
+    }
+
+    return await db.transaction('rw', db.purchaseOrders, db.invoiceCounters, db.auditLogs, async () => {
+      const now = new Date();
+      const order: PurchaseOrder = {
+        id: crypto.randomUUID(),
+        orderNumber: await InvoiceNumberService.allocatePurchaseOrder(now),
+        supplierId,
+        status: 'DRAFT',
+        items,
+        totalAmount: orderTotal(items),
+        notes: notes || undefined,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await db.purchaseOrders.add(order);
+      await AuditService.logAction({
+        action: 'CREATE',
+        entityType: 'PURCHASE_ORDER',
+        entityId: order.id,
+        newData: { orderNumber: order.orderNumber, supplierId, totalAmount: order.totalAmount }
+      });
+
+      return order;
+    });
+  }
+
+  static async markSent(orderId: string): Promise<void> {
+    await this.transition(orderId, ['DRAFT'], 'SENT', { sentAt: new Date() });
+  }
+
+  /**
+   * Close an order. Partially received orders are short-closed and the balance is no longer expected.
+   */
+  static async close(orderId: string): Promise<void> {
+    await this.transition(orderId, ['SENT', 'PARTIALLY_RECEIVED', 'RECEIVED'], 'CLOSED', { closedAt: new Date() });
+  }
+
+  static async deleteDraft(orderId: string): Promise<void> {
+    await db.transaction('rw', db.purchaseOrders, db.auditLogs, async () => {
+      const order = await db.purchaseOrders.get(orderId);
+      if (!order || order.status !== 'DRAFT') {
+        throw new Error('Only draft orders can be deleted');
+      }
+
+      await db.purchaseOrders.delete(orderId);
+      await AuditService.logAction({
+        action: 'DELETE',
+        entityType: 'PURCHASE_ORDER',
+        entityId: orderId,
+        oldData: order
+      });
+    });
+  }
+
+  /**
+   * Book received quantities against the order and move it to partially received or received.
+   * Call inside the transaction that adds the batches so stock and order stay in step.
+   */
+  static async recordReceipt(orderId: string, receipts: ReceiptLine[]): Promise<PurchaseOrder> {
+    return await db.transaction('rw', db.purchaseOrders, db.auditLogs, async () => {
+      const order = await db.purchaseOrders.get(orderId);
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
+      if (order.status !== 'SENT' && order.status !== 'PARTIALLY_RECEIVED') {
+        throw new Error(`Cannot receive against a ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()} order`);
+      }
+
+      const items = order.items.map(item => {
+        const received = receipts
+          .filter(receipt => receipt.itemId === item.id)
+          .reduce((sum, receipt) => sum + receipt.quantity, 0);
+        return { ...item, receivedQuantity: item.receivedQuantity + received };
+      });
+      const status: PurchaseOrder['status'] = items.every(item => item.receivedQuantity >= item.orderedQuantity)
+        ? 'RECEIVED'
+        : 'PARTIALLY_RECEIVED';
+
+      await db.purchaseOrders.update(orderId, { items, status, updatedAt: new Date() });
+      await AuditService.logAction({
+        action: 'PURCHASE',
+        entityType: 'PURCHASE_ORDER',
+        entityId: orderId,
+        oldData: { status: order.status },
+        newData: { status, receipts }
+      });
+
+      return { ...order, items, status };
+    });
+  }
+
+  /**
+   * Add the delivered batches to stock and book them against their order lines in one transaction
+   */
+  static async receive(orderId: string, deliveries: Array<{ itemId: string; batch: Batch }>): Promise<PurchaseOrder> {
+    return await db.transaction(
+      'rw',
+      [db.purchaseOrders, db.batches, db.suppliers, db.supplierLedger, db.auditLogs],
+      async () => {
+        for (const { batch } of deliveries) {
+          await SupplierService.receiveBatch(batch);
+        }
+        return await this.recordReceipt(
+          orderId,
+          deliveries.map(({ itemId, batch }) => ({ itemId, quantity: batch.currentStock }))
+        );
+      }
+    );
+  }
+
+  static async generatePDF(order: PurchaseOrder): Promise<Blob> {
+    const [settings, supplier] = await Promise.all([
+      SettingsService.getSettings(),
+      db.suppliers.get(order.supplierId)
+    ]);
+    const pdf = new jsPDF();
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+
+    // Buyer
+    pdf.setFontSize(16);
+    pdf.text(settings.shopName, 15, 18);
+    pdf.setFontSize(9);
+    let y = 24;
+    for (const line of [
+      settings.address,
+      settings.phone ? `Phone: ${settings.phone}` : '',
+      settings.gstin ? `GSTIN: ${settings.gstin}` : '',
+      settings.drugLicenseNumbers ? `D.L. No: ${settings.drugLicenseNumbers}` : ''
+    ].filter(Boolean)) {
+      pdf.text(line, 15, y);
+      y += 5;
+    }
+
+    pdf.setFontSize(14);
+    pdf.text('PURCHASE ORDER', pageWidth - 15, 18, { align: 'right' });
+    pdf.setFontSize(9);
+    pdf.text(`PO No: ${order.orderNumber}`, pageWidth - 15, 24, { align: 'right' });
+    pdf.text(`Date: ${format(new Date(order.createdAt), 'dd MMM yyyy')}`, pageWidth - 15, 29, { align: 'right' });
+
+    // Supplier
+    y = Math.max(y, 36) + 4;
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('To:', 15, y);
+    pdf.setFont('helvetica', 'normal');
+    for (const line of [
+      supplier?.name || order.supplierId,
+      supplier?.address || '',
+      supplier?.gstin ? `GSTIN: ${supplier.gstin}` : '',
+      supplier?.drugLicenseNumber ? `D.L. No: ${supplier.drugLicenseNumber}` : ''
+    ].filter(Boolean)) {
+      y += 5;
+      pdf.text(line, 15, y);
+    }
+
+    // Table headers
+    const columns = [
+      { label: '#', x: 15 },
+      { label: 'Item', x: 25 },
+      { label: 'Qty', x: 130 },
+      { label: 'Rate', x: 150 },
+      { label: 'Amount', x: 175 }
+    ];
+    y += 12;
+    pdf.setFont('helvetica', 'bold');
+    columns.forEach(column => pdf.text(column.label, column.x, y));
+    pdf.setFont('helvetica', 'normal');
+    pdf.line(15, y + 2, pageWidth - 15, y + 2);
+
+    order.items.forEach((item, index) => {
+      y += 7;
+      if (y > pageHeight - 30) {
+        pdf.addPage();
+        y = 20;
+      }
+      const row = [
+        String(index + 1),
+        item.medicineName.substring(0, 50),
+        String(item.orderedQuantity),
+        item.expectedPrice.toFixed(2),
+        (item.orderedQuantity * item.expectedPrice).toFixed(2)
+      ];
+      row.forEach((cell, cellIndex) => pdf.text(cell, columns[cellIndex].x, y));
+    });
+
+    y += 4;
+    pdf.line(15, y, pageWidth - 15, y);
+    y += 6;
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Estimated Total', 130, y);
+    pdf.text(`Rs.${order.totalAmount.toFixed(2)}`, pageWidth - 15, y, { align: 'right' });
+    pdf.setFont('helvetica', 'normal');
+
+    if (order.notes) {
+      y += 10;
+      pdf.text(pdf.splitTextToSize(`Notes: ${order.notes}`, pageWidth - 30), 15, y);
+    }
+
+    pdf.text('Authorised Signatory', pageWidth - 15, pageHeight - 15, { align: 'right' });
+
+    return pdf.output('blob');
+  }
+
+  private static async transition(
+    orderId: string,
+    from: PurchaseOrder['status'][],
+    to: PurchaseOrder['status'],
+    changes: Partial<PurchaseOrder> = {}
+  ): Promise<void> {
+    await db.transaction('rw', db.purchaseOrders, db.auditLogs, async () => {
+      const order = await db.purchaseOrders.get(orderId);
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
+      if (!from.includes(order.status)) {
+        throw new Error(`A ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()} order cannot be marked ${PURCHASE_ORDER_STATUS_LABELS[to].toLowerCase()}`);
+      }
+
+      await db.purchaseOrders.update(orderId, { ...changes, status: to, updatedAt: new Date() });
+      await AuditService.logAction({
+        action: 'UPDATE',
+        entityType: 'PURCHASE_ORDER',
+        entityId: orderId,
+        oldData: { status: order.status },
+        newData: { status: to }
+      });
+    });
+  }
+}
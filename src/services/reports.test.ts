@@ -0,0 +1,131 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../database';
+import { usePharmacyStore } from '../store';
+import { Batch, Medicine, Sale, User } from '../types';
+import { ExpiryService } from './expiry';
+import { ReportsService } from './reports';
+import { ReturnsService } from './returns';
+
+const medicine: Medicine = {
+  id: 'med-1',
+  name: 'Amoxicillin 500mg',
+  brandName: 'Mox 500',
+  manufacturer: 'Ranbaxy',
+  scheduleType: 'H',
+  hsn: '30041010',
+  gst: 12,
+  minStock: 10,
+  maxStock: 100,
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date('2024-04-01T10:00:00Z')
+};
+
+const batch: Batch = {
+  id: 'batch-1',
+  medicineId: 'med-1',
+  batchNumber: 'MOX001',
+  expiryDate: new Date('2027-01-31'),
+  mrp: 60,
+  purchasePrice: 40,
+  sellingPrice: 50,
+  currentStock: 20,
+  supplierId: 'sup-1',
+  receivedDate: new Date('2024-04-01')
+};
+
+// Two strips at ₹50 plus 12% GST, sold in May
+const sale: Sale = {
+  id: 'sale-1',
+  invoiceNumber: 'INV-2024-0001',
+  items: [{
+    id: 'item-1',
+    medicineId: 'med-1',
+    medicineName: 'Mox 500',
+    batchId: 'batch-1',
+    batchNumber: 'MOX001',
+    quantity: 2,
+    unitPrice: 50,
+    totalPrice: 100,
+    gstAmount: 12,
+    gstRate: 12
+  }],
+  totalAmount: 112,
+  gstAmount: 12,
+  discountAmount: 0,
+  paymentMethod: 'CASH',
+  saleDate: new Date('2024-05-10T11:00:00'),
+  pharmacistId: 'owner-1'
+};
+
+const owner: User = {
+  id: 'owner-1',
+  name: 'Asha Rao',
+  role: 'OWNER',
+  pinHash: '',
+  pinSalt: '',
+  active: true,
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date('2024-04-01T10:00:00Z')
+};
+
+const mayEnd = new Date('2024-05-31T23:59:59');
+
+describe('ReportsService', () => {
+  beforeEach(async () => {
+    usePharmacyStore.getState().setCurrentUser(owner);
+    await db.medicines.add(medicine);
+    await db.batches.add(batch);
+    await db.sales.add(sale);
+  });
+
+  afterEach(async () => {
+    usePharmacyStore.getState().setCurrentUser(null);
+    await Promise.all([
+      db.medicines.clear(), db.batches.clear(), db.sales.clear(), db.creditNotes.clear(),
+      db.invoiceCounters.clear(), db.settings.clear()
+    ]);
+    await db.auditLogs.clear();
+  });
+
+  it('takes credit notes issued in the period off sales, payment methods, GST and margin', async () => {
+    await ReturnsService.processReturn('sale-1', [{ saleItemId: 'item-1', quantity: 1 }]);
+    const from = new Date('2024-05-01');
+    const to = new Date(Date.now() + 60_000);
+
+    const summary = await ReportsService.salesSummary(from, to, 'monthly');
+    expect(summary.totals).toEqual(['Total', 1, 100, 0, 50, 6, 56]);
+
+    const methods = await ReportsService.paymentMethodBreakdown(from, to);
+    expect(methods.rows).toEqual([['CASH', 1, 112, 56, 56, 100]]);
+
+    const gst = await ReportsService.gstSummary(from, to);
+    expect(gst.rows).toEqual([['12%', 50, 3, 3, 6]]);
+
+    const margin = await ReportsService.marginByMedicine(from, to);
+    expect(margin.rows).toEqual([['Mox 500', 1, 50, 40, 10, 20]]);
+  });
+
+  it('counts margin on the price charged after the invoice discount', async () => {
+    // Same two strips with 10% off the invoice
+    await db.sales.put({ ...sale, discountAmount: 10, gstAmount: 10.8, totalAmount: 100.8, items: [{ ...sale.items[0], gstAmount: 10.8 }] });
+    const from = new Date('2024-05-01');
+
+    const margin = await ReportsService.marginByMedicine(from, mayEnd);
+    expect(margin.rows).toEqual([['Mox 500', 2, 90, 80, 10, 11.11]]);
+
+    await ReturnsService.processReturn('sale-1', [{ saleItemId: 'item-1', quantity: 1 }]);
+    const afterReturn = await ReportsService.marginByMedicine(from, new Date(Date.now() + 60_000));
+    expect(afterReturn.rows).toEqual([['Mox 500', 1, 45, 40, 5, 11.11]]);
+  });
+
+  it('values stock as it stood at the closing date', async () => {
+    // After the close: three strips written off, one strip of the May sale returned
+    await ExpiryService.writeOff('batch-1', 3, 'Damaged in storage', 'Ravi');
+    await ReturnsService.processReturn('sale-1', [{ saleItemId: 'item-1', quantity: 1 }]);
+    expect((await db.batches.get('batch-1'))?.currentStock).toBe(18);
+
+    const report = await ReportsService.stockValuation(new Date('2024-05-01'), mayEnd);
+    expect(report.rows).toEqual([['Mox 500', 20, 800, 1200]]);
+  });
+});
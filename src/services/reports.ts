@@ -0,0 +1,384 @@
+import { db } from '../database';
+import { CreditNote, Medicine, Sale } from '../types';
+import jsPDF from 'jspdf';
+import { format } from 'date-fns';
+import { PermissionService } from './permissions';
+
+export type ReportType = 'daily-sales' | 'monthly-sales' | 'payment-methods' | 'gst-summary' | 'margin' | 'stock-valuation';
+
+export type ReportCell = string | number;
+
+export interface Report {
+  title: string;
+  from: Date;
+  to: Date;
+  columns: string[];
+  rows: ReportCell[][];
+  totals?: ReportCell[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class ReportsService {
+  static async getSales(from: Date, to: Date): Promise<Sale[]> {
+    return await db.sales
+      .where('saleDate')
+      .between(from, to, true, true)
+      .sortBy('saleDate');
+  }
+
+  static async getCreditNotes(from: Date, to: Date): Promise<CreditNote[]> {
+    return await db.creditNotes
+      .where('createdAt')
+      .between(from, to, true, true)
+      .sortBy('createdAt');
+  }
+
+  /**
+   * Sales totals grouped by day or by month, less the credit notes issued in each period
+   */
+  static async salesSummary(from: Date, to: Date, granularity: 'daily' | 'monthly'): Promise<Report> {
+    const [sales, creditNotes] = await Promise.all([this.getSales(from, to), this.getCreditNotes(from, to)]);
+    const periodFormat = granularity === 'daily' ? 'dd MMM yyyy' : 'MMM yyyy';
+    const periods = new Map<string, { invoices: number; gross: number; discount: number; returns: number; gst: number; net: number }>();
+    const periodTotals = (date: Date) => {
+      const period = format(new Date(date), periodFormat);
+      const totals = periods.get(period) || { invoices: 0, gross: 0, discount: 0, returns: 0, gst: 0, net: 0 };
+      periods.set(period, totals);
+      return totals;
+    };
+
+    for (const sale of sales) {
+      const totals = periodTotals(sale.saleDate);
+      totals.invoices += 1;
+      totals.gross += sale.totalAmount - sale.gstAmount + sale.discountAmount;
+      totals.discount += sale.discountAmount;
+      totals.gst += sale.gstAmount;
+      totals.net += sale.totalAmount;
+    }
+
+    // Returns count against the period the credit note was issued in, like the GST return
+    for (const note of creditNotes) {
+      const totals = periodTotals(note.createdAt);
+      totals.returns += note.taxableAmount;
+      totals.gst -= note.gstAmount;
+      totals.net -= note.totalAmount;
+    }
+
+    const rows = Array.from(periods.entries()).map(([period, t]) => [
+      period, t.invoices, round(t.gross), round(t.discount), round(t.returns), round(t.gst), round(t.net)
+    ]);
+
+    return {
+      title: granularity === 'daily' ? 'Daily Sales Summary' : 'Monthly Sales Summary',
+      from,
+      to,
+      columns: ['Period', 'Invoices', 'Gross (₹)', 'Discount (₹)', 'Returns (₹)', 'GST (₹)', 'Net (₹)'],
+      rows,
+      totals: ['Total', ...[1, 2, 3, 4, 5, 6].map(col => round(rows.reduce((sum, row) => sum + (row[col] as number), 0)))]
+    };
+  }
+
+  /**
+   * Invoice count and takings per payment method, less refunds on credit notes issued in the period.
+   * A refund goes back the way the original sale was paid.
+   */
+  static async paymentMethodBreakdown(from: Date, to: Date): Promise<Report> {
+    const [sales, creditNotes] = await Promise.all([this.getSales(from, to), this.getCreditNotes(from, to)]);
+    const refundedSales = await db.sales.bulkGet([...new Set(creditNotes.map(note => note.saleId))]);
+    const refundMethods = new Map(refundedSales.flatMap(sale => (sale ? [[sale.id, sale.paymentMethod] as const] : [])));
+    const methods = new Map<string, { invoices: number; sales: number; refunds: number }>();
+    const methodTotals = (method: string) => {
+      const totals = methods.get(method) || { invoices: 0, sales: 0, refunds: 0 };
+      methods.set(method, totals);
+      return totals;
+    };
+
+    for (const sale of sales) {
+      const totals = methodTotals(sale.paymentMethod);
+      totals.invoices += 1;
+      totals.sales += sale.totalAmount;
+    }
+    for (const note of creditNotes) {
+      methodTotals(refundMethods.get(note.saleId) ?? 'UNKNOWN').refunds += note.totalAmount;
+    }
+
+    const grandTotal = Array.from(methods.values()).reduce((sum, t) => sum + t.sales - t.refunds, 0);
+    const rows = Array.from(methods.entries()).map(([method, t]) => [
+      method,
+      t.invoices,
+      round(t.sales),
+      round(t.refunds),
+      round(t.sales - t.refunds),
+      grandTotal > 0 ? round(((t.sales - t.refunds) / grandTotal) * 100) : 0
+    ]);
+
+    return {
+      title: 'Payment Method Breakdown',
+      from,
+      to,
+      columns: ['Method', 'Invoices', 'Sales (₹)', 'Refunds (₹)', 'Net (₹)', 'Share (%)'],
+      rows,
+      totals: [
+        'Total',
+        sales.length,
+        ...[2, 3, 4].map(col => round(rows.reduce((sum, row) => sum + (row[col] as number), 0))),
+        grandTotal > 0 ? 100 : 0
+      ]
+    };
+  }
+
+  /**
+   * Taxable value and CGST/SGST split per GST rate, net of credit notes issued in the period
+   */
+  static async gstSummary(from: Date, to: Date): Promise<Report> {
+    const [sales, creditNotes, medicines] = await Promise.all([
+      this.getSales(from, to),
+      this.getCreditNotes(from, to),
+      this.getMedicineMap()
+    ]);
+    const rates = new Map<number, { taxable: number; tax: number }>();
+
+    for (const sale of sales) {
+      const subtotal = sale.items.reduce((sum, item) => sum + item.totalPrice, 0);
+      const discountRatio = subtotal > 0 ? sale.discountAmount / subtotal : 0;
+
+      for (const item of sale.items) {
+        // The rate charged on the invoice, not the medicine's rate today
+        const rate = item.gstRate ?? medicines.get(item.medicineId)?.gst ?? 0;
+        const taxable = item.totalPrice * (1 - discountRatio);
+        const totals = rates.get(rate) || { taxable: 0, tax: 0 };
+        totals.taxable += taxable;
+        totals.tax += (taxable * rate) / 100;
+        rates.set(rate, totals);
+      }
+    }
+
+    for (const item of creditNotes.flatMap(note => note.items)) {
+      const totals = rates.get(item.gstRate) || { taxable: 0, tax: 0 };
+      totals.taxable -= item.taxableValue;
+      totals.tax -= item.gstAmount;
+      rates.set(item.gstRate, totals);
+    }
+
+    const rows = Array.from(rates.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([rate, t]) => [`${rate}%`, round(t.taxable), round(t.tax / 2), round(t.tax / 2), round(t.tax)]);
+
+    return {
+      title: 'GST Summary',
+      from,
+      to,
+      columns: ['GST Rate', 'Taxable Value (₹)', 'CGST (₹)', 'SGST (₹)', 'Total Tax (₹)'],
+      rows,
+      totals: ['Total', ...[1, 2, 3, 4].map(col => round(rows.reduce((sum, row) => sum + (row[col] as number), 0)))]
+    };
+  }
+
+  /**
+   * Gross margin per medicine using the batch purchase price against the price charged after discount.
+   * Units returned on credit notes in the period come off the quantity, revenue and cost.
+   */
+  static async marginByMedicine(from: Date, to: Date): Promise<Report> {
+    const [sales, creditNotes] = await Promise.all([this.getSales(from, to), this.getCreditNotes(from, to)]);
+    const batches = new Map((await db.batches.toArray()).map(batch => [batch.id, batch]));
+    const medicines = new Map<string, { name: string; quantity: number; revenue: number; cost: number }>();
+
+    for (const sale of sales) {
+      const subtotal = sale.items.reduce((sum, item) => sum + item.totalPrice, 0);
+      const discountRatio = subtotal > 0 ? sale.discountAmount / subtotal : 0;
+
+      for (const item of sale.items) {
+        const totals = medicines.get(item.medicineId) || { name: item.medicineName, quantity: 0, revenue: 0, cost: 0 };
+        totals.quantity += item.quantity;
+        totals.revenue += item.totalPrice * (1 - discountRatio);
+        totals.cost += (batches.get(item.batchId)?.purchasePrice ?? 0) * item.quantity;
+        medicines.set(item.medicineId, totals);
+      }
+    }
+
+    for (const item of creditNotes.flatMap(note => note.items)) {
+      const totals = medicines.get(item.medicineId) || { name: item.medicineName, quantity: 0, revenue: 0, cost: 0 };
+      totals.quantity -= item.quantity;
+      // Credit notes refund the discounted price, as the sale side above counts it
+      totals.revenue -= item.taxableValue;
+      totals.cost -= (batches.get(item.batchId)?.purchasePrice ?? 0) * item.quantity;
+      medicines.set(item.medicineId, totals);
+    }
+
+    const rows = Array.from(medicines.values())
+      .sort((a, b) => (b.revenue - b.cost) - (a.revenue - a.cost))
+      .map(t => [
+        t.name,
+        t.quantity,
+        round(t.revenue),
+        round(t.cost),
+        round(t.revenue - t.cost),
+        t.revenue > 0 ? round(((t.revenue - t.cost) / t.revenue) * 100) : 0
+      ]);
+
+    const revenue = rows.reduce((sum, row) => sum + (row[2] as number), 0);
+    const cost = rows.reduce((sum, row) => sum + (row[3] as number), 0);
+
+    return {
+      title: 'Gross Margin by Medicine',
+      from,
+      to,
+      columns: ['Medicine', 'Qty Sold', 'Revenue (₹)', 'Cost (₹)', 'Margin (₹)', 'Margin (%)'],
+      rows,
+      totals: [
+        'Total',
+        rows.reduce((sum, row) => sum + (row[1] as number), 0),
+        round(revenue),
+        round(cost),
+        round(revenue - cost),
+        revenue > 0 ? round(((revenue - cost) / revenue) * 100) : 0
+      ]
+    };
+  }
+
+  /**
+   * Closing stock as at the end of the range, valued at cost and at MRP.
+   * Stock movements after the closing date are undone on today's stock: units sold,
+   * written off or returned to the supplier since then are added back, and units restocked
+   * by credit notes since then are taken off.
+   */
+  static async stockValuation(from: Date, to: Date): Promise<Report> {
+    const [batches, medicines, laterSales, laterCreditNotes, laterRemovals] = await Promise.all([
+      db.batches.toArray(),
+      this.getMedicineMap(),
+      db.sales.where('saleDate').above(to).toArray(),
+      db.creditNotes.where('createdAt').above(to).toArray(),
+      db.auditLogs
+        .where('timestamp')
+        .above(to)
+        .filter(entry => entry.action === 'WRITE_OFF' || entry.action === 'VENDOR_RETURN')
+        .toArray()
+    ]);
+
+    const movedAfterClose = new Map<string, number>();
+    const addBack = (batchId: string, quantity: number) =>
+      movedAfterClose.set(batchId, (movedAfterClose.get(batchId) || 0) + quantity);
+    for (const sale of laterSales) {
+      for (const item of sale.items) {
+        addBack(item.batchId, item.quantity);
+      }
+    }
+    for (const entry of laterRemovals) {
+      addBack(entry.entityId, entry.newData?.quantity || 0);
+    }
+    for (const item of laterCreditNotes.flatMap(note => note.items)) {
+      addBack(item.batchId, -item.quantity);
+    }
+
+    const totals = new Map<string, { name: string; stock: number; cost: number; mrp: number }>();
+    for (const batch of batches) {
+      if (new Date(batch.receivedDate) > to) continue;
+
+      const closingStock = batch.currentStock + (movedAfterClose.get(batch.id) || 0);
+      if (closingStock <= 0) continue;
+
+      const medicine = medicines.get(batch.medicineId);
+      const row = totals.get(batch.medicineId) || { name: medicine?.brandName || medicine?.name || batch.medicineId, stock: 0, cost: 0, mrp: 0 };
+      row.stock += closingStock;
+      row.cost += closingStock * batch.purchasePrice;
+      row.mrp += closingStock * batch.mrp;
+      totals.set(batch.medicineId, row);
+    }
+
+    const rows = Array.from(totals.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(t => [t.name, t.stock, round(t.cost), round(t.mrp)]);
+
+    return {
+      title: `Closing Stock Valuation as at ${format(to, 'dd MMM yyyy')}`,
+      from,
+      to,
+      columns: ['Medicine', 'Units', 'Value at Cost (₹)', 'Value at MRP (₹)'],
+      rows,
+      totals: ['Total', ...[1, 2, 3].map(col => round(rows.reduce((sum, row) => sum + (row[col] as number), 0)))]
+    };
+  }
+
+  static async generate(type: ReportType, from: Date, to: Date): Promise<Report> {
+    PermissionService.require('reports.view');
+
+    switch (type) {
+      case 'daily-sales':
+        return this.salesSummary(from, to, 'daily');
+      case 'monthly-sales':
+        return this.salesSummary(from, to, 'monthly');
+      case 'payment-methods':
+        return this.paymentMethodBreakdown(from, to);
+      case 'gst-summary':
+        return this.gstSummary(from, to);
+      case 'margin':
+        return this.marginByMedicine(from, to);
+      case 'stock-valuation':
+        return this.stockValuation(from, to);
+    }
+  }
+
+  static toCSV(report: Report): Blob {
+    const escape = (cell: ReportCell) => {
+      const text = String(cell);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [report.columns, ...report.rows, ...(report.totals ? [report.totals] : [])]
+      .map(row => row.map(escape).join(','));
+
+    return new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8' });
+  }
+
+  static toPDF(report: Report): Blob {
+    const pdf = new jsPDF({ orientation: report.columns.length > 4 ? 'landscape' : 'portrait' });
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const columnWidth = (pdf.internal.pageSize.getWidth() - 40) / report.columns.length;
+    // jsPDF's built-in fonts have no rupee glyph
+    const clean = (cell: ReportCell) => String(cell).replace(/₹/g, 'Rs');
+
+    // Header
+    pdf.setFontSize(16);
+    pdf.text(report.title, 20, 20);
+    pdf.setFontSize(12);
+    pdf.text(`Period: ${format(report.from, 'dd MMM yyyy')} - ${format(report.to, 'dd MMM yyyy')}`, 20, 30);
+
+    const drawRow = (row: ReportCell[], y: number) => {
+      row.forEach((cell, index) => {
+        pdf.text(clean(cell).substring(0, 24), 20 + (index * columnWidth), y);
+      });
+    };
+
+    // Table headers
+    pdf.setFontSize(10);
+    let y = 45;
+    drawRow(report.columns, y);
+
+    // Table data
+    for (const row of report.rows) {
+      y += 8;
+      if (y > pageHeight - 20) {
+        pdf.addPage();
+        y = 20;
+      }
+      drawRow(row, y);
+    }
+
+    if (report.totals) {
+      y += 10;
+      if (y > pageHeight - 20) {
+        pdf.addPage();
+        y = 20;
+      }
+      pdf.setFont('helvetica', 'bold');
+      drawRow(report.totals, y);
+    }
+
+    return pdf.output('blob');
+  }
+
+  private static async getMedicineMap(): Promise<Map<string, Medicine>> {
+    return new Map((await db.medicines.toArray()).map(medicine => [medicine.id, medicine]));
+  }
+}
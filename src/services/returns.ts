@@ -0,0 +1,139 @@
+import { db } from '../database';
+import { CreditNote, CreditNoteItem, Sale } from '../types';
+import { AuditService } from './audit';
+import { CustomerService } from './customers';
+import { InvoiceNumberService } from './invoiceNumber';
+import { UserService } from './users';
+
+export interface ReturnLine {
+  saleItemId: string;
+  quantity: number;
+}
+
+export class ReturnsService {
+  static async findSale(invoiceNumber: string): Promise<Sale | undefined> {
+    return await db.sales.where('invoiceNumber').equals(invoiceNumber.trim()).first();
+  }
+
+  static async getCreditNotes(saleId: string): Promise<CreditNote[]> {
+    return await db.creditNotes.where('saleId').equals(saleId).sortBy('createdAt');
+  }
+
+  /**
+   * Quantity already returned against each sale item, keyed by sale item id
+   */
+  static async getReturnedQuantities(saleId: string): Promise<Map<string, number>> {
+    const notes = await this.getCreditNotes(saleId);
+    const returned = new Map<string, number>();
+    for (const item of notes.flatMap(note => note.items)) {
+      returned.set(item.saleItemId, (returned.get(item.saleItemId) || 0) + item.quantity);
+    }
+    return returned;
+  }
+
+  /**
+   * Issue a credit note for the returned lines and put the stock back into the batches it was sold from.
+   * Refunds use the price actually charged: the sale-level discount is spread across lines before GST is reversed.
+   */
+  static async processReturn(saleId: string, lines: ReturnLine[], reason?: string, pharmacistId: string = UserService.getCurrentUserId()): Promise<CreditNote> {
+    const returnLines = lines.filter(line => line.quantity > 0);
+    if (returnLines.length === 0) {
+      throw new Error('Select at least one item to return');
+    }
+
+    return await db.transaction('rw', [db.sales, db.medicines, db.batches, db.creditNotes, db.auditLogs, db.invoiceCounters, db.customers, db.customerLedger], async () => {
+      const sale = await db.sales.get(saleId);
+      if (!sale) {
+        throw new Error('Sale not found');
+      }
+
+      const returned = await this.getReturnedQuantities(saleId);
+      const subtotal = sale.items.reduce((sum, item) => sum + item.totalPrice, 0);
+      const discountRatio = subtotal > 0 ? sale.discountAmount / subtotal : 0;
+
+      const items: CreditNoteItem[] = [];
+      for (const line of returnLines) {
+        const saleItem = sale.items.find(item => item.id === line.saleItemId);
+        if (!saleItem) {
+          throw new Error('Returned item is not part of this sale');
+        }
+
+        const returnable = saleItem.quantity - (returned.get(saleItem.id) || 0);
+        if (line.quantity > returnable) {
+          throw new Error(`Only ${returnable} units of ${saleItem.medicineName} can still be returned`);
+        }
+
+        // Sales recorded before the rate was stored on the line fall back to the medicine's current rate
+        const gstRate = saleItem.gstRate ?? (await db.medicines.get(saleItem.medicineId))?.gst ?? 0;
+        const taxableValue = line.quantity * saleItem.unitPrice * (1 - discountRatio);
+        const gstAmount = (taxableValue * gstRate) / 100;
+
+        items.push({
+          saleItemId: saleItem.id,
+          medicineId: saleItem.medicineId,
+          medicineName: saleItem.medicineName,
+          batchId: saleItem.batchId,
+          batchNumber: saleItem.batchNumber,
+          quantity: line.quantity,
+          unitPrice: saleItem.unitPrice,
+          taxableValue,
+          gstRate,
+          gstAmount,
+          totalAmount: taxableValue + gstAmount
+        });
+      }
+
+      const createdAt = new Date();
+      const creditNote: CreditNote = {
+        id: crypto.randomUUID(),
+        creditNoteNumber: await InvoiceNumberService.allocateCreditNote(createdAt),
+        saleId: sale.id,
+        invoiceNumber: sale.invoiceNumber,
+        customerName: sale.customerName,
+        customerPhone: sale.customerPhone,
+        items,
+        taxableAmount: items.reduce((sum, item) => sum + item.taxableValue, 0),
+        gstAmount: items.reduce((sum, item) => sum + item.gstAmount, 0),
+        totalAmount: items.reduce((sum, item) => sum + item.totalAmount, 0),
+        reason: reason || undefined,
+        createdAt,
+        pharmacistId
+      };
+      await db.creditNotes.add(creditNote);
+
+      // Returns against a credit sale reduce the customer's outstanding balance instead of a cash refund
+      if (sale.paymentMethod === 'CREDIT' && sale.customerId) {
+        await CustomerService.postLedgerEntry(sale.customerId, {
+          type: 'CREDIT_NOTE',
+          amount: -creditNote.totalAmount,
+          reference: creditNote.creditNoteNumber
+        });
+      }
+
+      await AuditService.logAction({
+        action: 'RETURN',
+        entityType: 'CREDIT_NOTE',
+        entityId: creditNote.id,
+        userId: pharmacistId,
+        newData: {
+          creditNoteNumber: creditNote.creditNoteNumber,
+          invoiceNumber: sale.invoiceNumber,
+          totalAmount: creditNote.totalAmount,
+          reason: creditNote.reason
+        }
+      });
+
+      // Restock the original batches
+      for (const item of items) {
+        const batch = await db.batches.get(item.batchId);
+        if (!batch) {
+          throw new Error(`Batch ${item.batchNumber} of ${item.medicineName} no longer exists`);
+        }
+
+        await db.batches.update(batch.id, { currentStock: batch.currentStock + item.quantity });
+      }
+
+      return creditNote;
+    });
+  }
+}
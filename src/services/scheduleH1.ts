@@ -14,7 +14,7 @@ export class ScheduleH1Service {
 
   static async getMonthlyEntries(month: number, year: number): Promise<ScheduleH1Entry[]> {
     const startDate = new Date(year, month - 1, 1);
-    const endDate = new Date(year, month, 0);
+    const endDate = new Date(year, month, 0, 23, 59, 59, 999);
     
     return await db.scheduleH1Entries
       .where('dispensedDate')
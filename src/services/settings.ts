@@ -0,0 +1,47 @@
+import { db } from '../database';
+import { ShopSettings } from '../types';
+import { PermissionService } from './permissions';
+
+const SETTINGS_ID = 'shop';
+
+export const DEFAULT_SETTINGS: ShopSettings = {
+  id: SETTINGS_ID,
+  shopName: 'PharmaCare',
+  address: '',
+  phone: '',
+  drugLicenseNumbers: '',
+  gstin: '',
+  invoicePrefix: 'INV-',
+  defaultSupplierId: '',
+  sellingPriceRatio: 0.9,
+  purchasePriceRatio: 0.8,
+  defaultMinStock: 10,
+  defaultMaxStock: 100,
+  expiryAlertDays: 30,
+  defaultLeadTimeDays: 7,
+  orderCoverDays: 30,
+  updatedAt: new Date()
+};
+
+export class SettingsService {
+  static async getSettings(): Promise<ShopSettings> {
+    const stored = await db.settings.get(SETTINGS_ID);
+    return { ...DEFAULT_SETTINGS, ...stored };
+  }
+
+  static async saveSettings(updates: Partial<Omit<ShopSettings, 'id' | 'updatedAt'>>): Promise<ShopSettings> {
+    // GSTIN and the invoice prefix end up on every tax invoice
+    PermissionService.require('settings.edit');
+    return await db.transaction('rw', db.settings, async () => {
+      const settings: ShopSettings = {
+        ...(await this.getSettings()),
+        ...updates,
+        id: SETTINGS_ID,
+        updatedAt: new Date()
+      };
+
+      await db.settings.put(settings);
+      return settings;
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { db } from '../database';
+import { Batch } from '../types';
+import { PurchaseOrderService } from './purchaseOrders';
+import { DEFAULT_SETTINGS } from './settings';
+import { SupplierService } from './suppliers';
+
+const batch = (supplierId: string): Batch => ({
+  id: 'batch-1',
+  medicineId: 'med-1',
+  batchNumber: 'CRO001',
+  expiryDate: new Date('2026-12-31'),
+  mrp: 30,
+  purchasePrice: 21.6,
+  sellingPrice: 27,
+  currentStock: 50,
+  supplierId,
+  receivedDate: new Date()
+});
+
+const createSupplier = (name: string) => SupplierService.saveSupplier({ name, paymentTermsDays: 30 });
+
+describe('SupplierService', () => {
+  afterEach(async () => {
+    await Promise.all([
+      db.suppliers.clear(), db.supplierLedger.clear(), db.batches.clear(), db.purchaseOrders.clear(),
+      db.invoiceCounters.clear(), db.settings.clear()
+    ]);
+    await db.auditLogs.clear();
+  });
+
+  it('stores a valid GSTIN in capitals and refuses a malformed one', async () => {
+    const supplier = await SupplierService.saveSupplier({ name: ' Mahavir Pharma ', gstin: '27aapfu0939f1zv', paymentTermsDays: 30 });
+    expect(supplier).toMatchObject({ name: 'Mahavir Pharma', gstin: '27AAPFU0939F1ZV', outstandingBalance: 0 });
+
+    await expect(SupplierService.saveSupplier({ name: 'Shree Distributors', gstin: '27AAPFU0939F1Z', paymentTermsDays: 30 }))
+      .rejects.toThrow('27AAPFU0939F1Z is not a valid 15-character GSTIN');
+    expect((await SupplierService.saveSupplier({ name: 'Shree Distributors', gstin: '', paymentTermsDays: 30 })).gstin).toBeUndefined();
+    expect(await db.suppliers.count()).toBe(2);
+  });
+
+  it('charges received batches to the account and takes payments off', async () => {
+    const supplier = await createSupplier('Mahavir Pharma');
+
+    await SupplierService.receiveBatch(batch(supplier.id), 'MP/1182');
+    await SupplierService.recordPayment(supplier.id, 500, 'UPI', 'UTR 4471');
+
+    expect((await db.suppliers.get(supplier.id))?.outstandingBalance).toBeCloseTo(580);
+    const [payment, purchase] = await SupplierService.getLedger(supplier.id);
+    expect(purchase).toMatchObject({ type: 'PURCHASE', reference: 'MP/1182', dueDate: expect.any(Date) });
+    expect(payment).toMatchObject({ type: 'PAYMENT', amount: -500, paymentMethod: 'UPI' });
+    expect(payment.balanceAfter).toBeCloseTo(580);
+  });
+
+  it('deletes a supplier nothing refers to', async () => {
+    const supplier = await createSupplier('Typo Pharma');
+
+    await SupplierService.deleteSupplier(supplier.id);
+    expect(await db.suppliers.count()).toBe(0);
+    expect(await db.auditLogs.where('action').equals('DELETE').count()).toBe(1);
+  });
+
+  it('keeps suppliers that batches, orders or the settings still refer to', async () => {
+    const withBatch = await createSupplier('Mahavir Pharma');
+    await SupplierService.receiveBatch(batch(withBatch.id));
+    await expect(SupplierService.deleteSupplier(withBatch.id))
+      .rejects.toThrow('Mahavir Pharma cannot be deleted. Still linked to: 1 batch, 1 account entry');
+
+    const withOrder = await createSupplier('Shree Distributors');
+    await PurchaseOrderService.createOrder(withOrder.id, [
+      { medicineId: 'med-1', medicineName: 'Crocin 650', orderedQuantity: 10, expectedPrice: 21.6 }
+    ]);
+    await expect(SupplierService.deleteSupplier(withOrder.id))
+      .rejects.toThrow('Shree Distributors cannot be deleted. Still linked to: 1 purchase order');
+
+    const byDefault = await createSupplier('Apollo Wholesale');
+    await db.settings.put({ ...DEFAULT_SETTINGS, defaultSupplierId: byDefault.id });
+    await expect(SupplierService.deleteSupplier(byDefault.id))
+      .rejects.toThrow('Apollo Wholesale cannot be deleted. Still linked to: the default supplier setting');
+
+    expect(await db.suppliers.count()).toBe(3);
+  });
+});
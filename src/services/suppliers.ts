@@ -0,0 +1,183 @@
+import { db } from '../database';
+import { Batch, Supplier, SupplierLedgerEntry } from '../types';
+import { AuditService } from './audit';
+import { SettingsService } from './settings';
+import { addDays } from 'date-fns';
+
+export type SupplierInput = Omit<Supplier, 'id' | 'outstandingBalance' | 'createdAt' | 'updatedAt'>;
+
+// State code, PAN, entity number, "Z", checksum character
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export class SupplierService {
+  static async getSuppliers(): Promise<Supplier[]> {
+    return await db.suppliers.orderBy('name').toArray();
+  }
+
+  static async saveSupplier(input: SupplierInput, id?: string): Promise<Supplier> {
+    if (!input.name.trim()) {
+      throw new Error('Supplier name is required');
+    }
+    const gstin = input.gstin?.trim().toUpperCase() || undefined;
+    if (gstin && !GSTIN_PATTERN.test(gstin)) {
+      throw new Error(`${gstin} is not a valid 15-character GSTIN`);
+    }
+
+    return await db.transaction('rw', db.suppliers, db.auditLogs, async () => {
+      const existing = id ? await db.suppliers.get(id) : undefined;
+      const supplier: Supplier = {
+        outstandingBalance: 0,
+        createdAt: new Date(),
+        ...existing,
+        ...input,
+        name: input.name.trim(),
+        gstin,
+        id: existing?.id || crypto.randomUUID(),
+        updatedAt: new Date()
+      };
+
+      await db.suppliers.put(supplier);
+      await AuditService.logAction({
+        action: existing ? 'UPDATE' : 'CREATE',
+        entityType: 'SUPPLIER',
+        entityId: supplier.id,
+        oldData: existing,
+        newData: supplier
+      });
+
+      return supplier;
+    });
+  }
+
+  /**
+   * Remove a supplier entered by mistake. Suppliers with batches, orders or account entries
+   * are part of the purchase history and stay, as does the default supplier in Settings.
+   */
+  static async deleteSupplier(id: string): Promise<void> {
+    await db.transaction('rw', [db.suppliers, db.batches, db.purchaseOrders, db.supplierLedger, db.settings, db.auditLogs], async () => {
+      const supplier = await db.suppliers.get(id);
+      if (!supplier) {
+        throw new Error('Supplier not found');
+      }
+
+      const [batches, orders, entries] = await Promise.all([
+        db.batches.where('supplierId').equals(id).count(),
+        db.purchaseOrders.where('supplierId').equals(id).count(),
+        db.supplierLedger.where('supplierId').equals(id).count()
+      ]);
+      const references = [
+        batches && `${batches} batch${batches === 1 ? '' : 'es'}`,
+        orders && `${orders} purchase order${orders === 1 ? '' : 's'}`,
+        entries && `${entries} account entr${entries === 1 ? 'y' : 'ies'}`
+      ].filter((reference): reference is string => Boolean(reference));
+      if ((await SettingsService.getSettings()).defaultSupplierId === id) {
+        references.push('the default supplier setting');
+      }
+      if (references.length > 0) {
+        throw new Error(`${supplier.name} cannot be deleted. Still linked to: ${references.join(', ')}`);
+      }
+
+      await db.suppliers.delete(id);
+      await AuditService.logAction({
+        action: 'DELETE',
+        entityType: 'SUPPLIER',
+        entityId: id,
+        oldData: supplier
+      });
+    });
+  }
+
+  static async getBatches(supplierId: string): Promise<Batch[]> {
+    return await db.batches
+      .where('supplierId')
+      .equals(supplierId)
+      .reverse()
+      .sortBy('receivedDate');
+  }
+
+  static async getLedger(supplierId: string): Promise<SupplierLedgerEntry[]> {
+    return await db.supplierLedger
+      .where('supplierId')
+      .equals(supplierId)
+      .reverse()
+      .sortBy('date');
+  }
+
+  /**
+   * Post an entry to the supplier's account and update what we owe them.
+   * Purchases are positive; payments and vendor returns are negative.
+   */
+  static async postLedgerEntry(
+    supplierId: string,
+    entry: Omit<SupplierLedgerEntry, 'id' | 'supplierId' | 'balanceAfter' | 'date' | 'dueDate'>
+  ): Promise<SupplierLedgerEntry | undefined> {
+    return await db.transaction('rw', db.suppliers, db.supplierLedger, async () => {
+      const supplier = await db.suppliers.get(supplierId);
+      // Batches recorded against an unknown supplier id have no account to post to
+      if (!supplier) return undefined;
+
+      const date = new Date();
+      const ledgerEntry: SupplierLedgerEntry = {
+        ...entry,
+        id: crypto.randomUUID(),
+        supplierId,
+        balanceAfter: supplier.outstandingBalance + entry.amount,
+        dueDate: entry.type === 'PURCHASE' ? addDays(date, supplier.paymentTermsDays) : undefined,
+        date
+      };
+
+      await db.supplierLedger.add(ledgerEntry);
+      await db.suppliers.update(supplierId, { outstandingBalance: ledgerEntry.balanceAfter, updatedAt: date });
+      return ledgerEntry;
+    });
+  }
+
+  /**
+   * Add a received batch to stock and charge its purchase value to the supplier's account.
+   * The ledger reference defaults to the batch number when there is no supplier bill to quote.
+   */
+  static async receiveBatch(batch: Batch, reference: string = batch.batchNumber): Promise<void> {
+    await db.transaction('rw', db.batches, db.suppliers, db.supplierLedger, async () => {
+      await db.batches.add(batch);
+      await this.postLedgerEntry(batch.supplierId, {
+        type: 'PURCHASE',
+        amount: batch.currentStock * batch.purchasePrice,
+        reference,
+        batchId: batch.id
+      });
+    });
+  }
+
+  static async recordPayment(
+    supplierId: string,
+    amount: number,
+    paymentMethod: SupplierLedgerEntry['paymentMethod'],
+    reference?: string,
+    notes?: string
+  ): Promise<void> {
+    if (amount <= 0) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+
+    await db.transaction('rw', db.suppliers, db.supplierLedger, db.auditLogs, async () => {
+      const entry = await this.postLedgerEntry(supplierId, {
+        type: 'PAYMENT',
+        amount: -amount,
+        paymentMethod,
+        reference: reference || undefined,
+        notes: notes || undefined
+      });
+      if (!entry) {
+        throw new Error('Supplier not found');
+      }
+
+      await AuditService.logAction({
+        action: 'UPDATE',
+        entityType: 'SUPPLIER',
+        entityId: supplierId,
+        oldData: { outstandingBalance: entry.balanceAfter + amount },
+        newData: { outstandingBalance: entry.balanceAfter, payment: amount, paymentMethod }
+      });
+    });
+  }
+}
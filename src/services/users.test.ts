@@ -0,0 +1,76 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { db } from '../database';
+import { usePharmacyStore } from '../store';
+import { AuditService } from './audit';
+import { PermissionError, PermissionService } from './permissions';
+import { UserService } from './users';
+
+describe('UserService', () => {
+  afterEach(async () => {
+    usePharmacyStore.getState().setCurrentUser(null);
+    await Promise.all([db.users.clear(), db.auditLogs.clear()]);
+  });
+
+  it('stores a salted hash instead of the PIN and signs in with it', async () => {
+    const owner = await UserService.saveUser({ name: 'Asha Rao', role: 'OWNER', active: true, pin: '4321' });
+
+    expect(owner.pinHash).not.toContain('4321');
+    await expect(UserService.login(owner.id, '1111')).rejects.toThrow('Wrong PIN');
+    expect((await UserService.login(owner.id, '4321')).lastLoginAt).toBeInstanceOf(Date);
+  });
+
+  it('locks an account after repeated wrong PINs', async () => {
+    const cashier = await UserService.saveUser({ name: 'Ravi', role: 'CASHIER', active: true, pin: '2468' });
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(UserService.login(cashier.id, '0000')).rejects.toThrow('Wrong PIN');
+    }
+    await expect(UserService.login(cashier.id, '2468')).rejects.toThrow(/Too many wrong PINs/);
+  });
+
+  it('keeps at least one active owner', async () => {
+    const owner = await UserService.saveUser({ name: 'Asha Rao', role: 'OWNER', active: true, pin: '4321' });
+    usePharmacyStore.getState().setCurrentUser(owner);
+
+    await expect(UserService.saveUser({ name: 'Asha Rao', role: 'PHARMACIST', active: true }, owner.id))
+      .rejects.toThrow('At least one active owner is required');
+  });
+
+  it('attributes audit entries to the signed-in user', async () => {
+    const pharmacist = await UserService.saveUser({ name: 'Meera', role: 'PHARMACIST', active: true, pin: '1357' });
+    usePharmacyStore.getState().setCurrentUser(pharmacist);
+
+    await AuditService.logAction({ action: 'UPDATE', entityType: 'MEDICINE', entityId: 'med-1' });
+
+    const entry = await db.auditLogs.filter(log => log.entityId === 'med-1').first();
+    expect(entry?.userId).toBe(pharmacist.id);
+    expect(UserService.getCurrentUserId()).toBe(pharmacist.id);
+  });
+
+  it('only lets owners manage users once the first account exists', async () => {
+    await UserService.saveUser({ name: 'Asha Rao', role: 'OWNER', active: true, pin: '4321' });
+
+    await expect(UserService.saveUser({ name: 'Ravi', role: 'CASHIER', active: true, pin: '2468' }))
+      .rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it('records who approved an override and only for that permission', async () => {
+    const owner = await UserService.saveUser({ name: 'Asha Rao', role: 'OWNER', active: true, pin: '4321' });
+    usePharmacyStore.getState().setCurrentUser(owner);
+    const cashier = await UserService.saveUser({ name: 'Ravi', role: 'CASHIER', active: true, pin: '2468' });
+    usePharmacyStore.getState().setCurrentUser(cashier);
+
+    expect(() => PermissionService.require('discount.above10')).toThrow(PermissionError);
+    await expect(UserService.authorizeOverride('discount.above10', cashier.id, '2468', '15% discount'))
+      .rejects.toThrow('Ravi cannot approve this');
+
+    const approval = await UserService.authorizeOverride('discount.above10', owner.id, '4321', '15% discount');
+    expect(() => PermissionService.require('discount.above10', [approval])).not.toThrow();
+    expect(() => PermissionService.require('inventory.delete', [approval])).toThrow(PermissionError);
+
+    const entry = await db.auditLogs.filter(log => log.action === 'OVERRIDE').first();
+    expect(entry?.userId).toBe(owner.id);
+    expect(entry?.newData).toMatchObject({ permission: 'discount.above10', requestedBy: cashier.id });
+  });
+});
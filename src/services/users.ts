@@ -0,0 +1,202 @@
+import { db } from '../database';
+import { User, UserRole } from '../types';
+import { usePharmacyStore } from '../store';
+import { fromBase64, toBase64 } from '../utils/encoding';
+import { AuditService } from './audit';
+import { OverrideApproval, Permission, PermissionService } from './permissions';
+
+export interface UserInput {
+  name: string;
+  role: UserRole;
+  registrationNumber?: string;
+  active: boolean;
+  /** Required for a new user; leave empty to keep the current PIN */
+  pin?: string;
+}
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  OWNER: 'Owner',
+  PHARMACIST: 'Pharmacist',
+  CASHIER: 'Cashier'
+};
+
+// Records written before staff accounts existed carry this id
+export const SYSTEM_USER_ID = 'system-user';
+
+const PIN_PATTERN = /^\d{4,6}$/;
+const PIN_ITERATIONS = 100000;
+// Wrong PINs allowed before the account is locked for a while
+const MAX_PIN_ATTEMPTS = 5;
+const LOCKOUT_MS = 30 * 1000;
+
+const failedAttempts = new Map<string, { count: number; lockedUntil?: number }>();
+
+export class UserService {
+  /**
+   * The signed-in user's id, or the system user when nobody is signed in (e.g. background jobs)
+   */
+  static getCurrentUserId(): string {
+    return usePharmacyStore.getState().currentUser?.id ?? SYSTEM_USER_ID;
+  }
+
+  static async getUsers(): Promise<User[]> {
+    return await db.users.orderBy('name').toArray();
+  }
+
+  static async getActiveUsers(): Promise<User[]> {
+    return (await this.getUsers()).filter(user => user.active);
+  }
+
+  static async hasUsers(): Promise<boolean> {
+    return (await db.users.count()) > 0;
+  }
+
+  /**
+   * Active users who may approve an action the signed-in user cannot perform
+   */
+  static async getApprovers(permission: Permission): Promise<User[]> {
+    return (await this.getActiveUsers()).filter(user => PermissionService.can(user, permission));
+  }
+
+  /**
+   * How a user signs the Schedule H1 register: name plus registration number when recorded
+   */
+  static getSignature(user: Pick<User, 'name' | 'registrationNumber'>): string {
+    return user.registrationNumber ? `${user.name} (Reg. ${user.registrationNumber})` : user.name;
+  }
+
+  static async saveUser(input: UserInput, id?: string): Promise<User> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Enter the user\'s name');
+    }
+    if ((!id || input.pin) && !PIN_PATTERN.test(input.pin ?? '')) {
+      throw new Error('The PIN must be 4 to 6 digits');
+    }
+    // Anyone may create the first account; after that only owners manage users
+    if (await this.hasUsers()) {
+      PermissionService.require('users.manage');
+    }
+
+    // Hashing is not an IndexedDB request, so it has to finish before the transaction starts
+    const credentials = input.pin ? await this.hashPin(input.pin) : undefined;
+
+    return await db.transaction('rw', db.users, db.auditLogs, async () => {
+      const existing = id ? await db.users.get(id) : undefined;
+      if (id && !existing) {
+        throw new Error('User not found');
+      }
+
+      // The shop must always keep someone who can manage users
+      if (existing?.role === 'OWNER' && existing.active && (input.role !== 'OWNER' || !input.active)) {
+        const owners = await db.users.where('role').equals('OWNER').filter(user => user.active).count();
+        if (owners <= 1) {
+          throw new Error('At least one active owner is required');
+        }
+      }
+
+      const now = new Date();
+      const user: User = {
+        id: existing?.id ?? crypto.randomUUID(),
+        name,
+        role: input.role,
+        registrationNumber: input.registrationNumber?.trim() || undefined,
+        active: input.active,
+        pinHash: credentials?.pinHash ?? existing?.pinHash ?? '',
+        pinSalt: credentials?.pinSalt ?? existing?.pinSalt ?? '',
+        lastLoginAt: existing?.lastLoginAt,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+      };
+
+      await db.users.put(user);
+      await AuditService.logAction({
+        action: existing ? 'UPDATE' : 'CREATE',
+        entityType: 'USER',
+        entityId: user.id,
+        oldData: existing && { name: existing.name, role: existing.role, active: existing.active },
+        newData: { name: user.name, role: user.role, active: user.active, pinChanged: !!credentials }
+      });
+      return user;
+    });
+  }
+
+  /**
+   * Check a user's PIN and record the sign-in
+   */
+  static async login(userId: string, pin: string): Promise<User> {
+    const user = await this.verifyPin(userId, pin);
+    const lastLoginAt = new Date();
+    await db.users.update(user.id, { lastLoginAt });
+    await AuditService.logAction({
+      action: 'LOGIN',
+      entityType: 'USER',
+      entityId: user.id,
+      userId: user.id
+    });
+    return { ...user, lastLoginAt };
+  }
+
+  /**
+   * Let another user approve one action with their PIN, e.g. an owner allowing a cashier's discount.
+   * The approval is audited against the approver, with the signed-in user as requester.
+   */
+  static async authorizeOverride(permission: Permission, approverId: string, pin: string, reason: string): Promise<OverrideApproval> {
+    const approver = await this.verifyPin(approverId, pin);
+    if (!PermissionService.can(approver, permission)) {
+      throw new Error(`${approver.name} cannot approve this`);
+    }
+
+    const approval: OverrideApproval = {
+      permission,
+      approvedBy: approver.id,
+      approvedByName: approver.name,
+      approvedAt: new Date()
+    };
+    await AuditService.logAction({
+      action: 'OVERRIDE',
+      entityType: 'USER',
+      entityId: approver.id,
+      userId: approver.id,
+      newData: { permission, reason, requestedBy: this.getCurrentUserId() }
+    });
+    return approval;
+  }
+
+  /**
+   * Repeated wrong PINs lock the account briefly, whether they come from sign-in or an override
+   */
+  private static async verifyPin(userId: string, pin: string): Promise<User> {
+    const attempts = failedAttempts.get(userId);
+    if (attempts?.lockedUntil && attempts.lockedUntil > Date.now()) {
+      const seconds = Math.ceil((attempts.lockedUntil - Date.now()) / 1000);
+      throw new Error(`Too many wrong PINs. Try again in ${seconds} seconds.`);
+    }
+
+    const user = await db.users.get(userId);
+    if (!user || !user.active) {
+      throw new Error('This account is not active');
+    }
+
+    const { pinHash } = await this.hashPin(pin, user.pinSalt);
+    if (pinHash !== user.pinHash) {
+      const count = (attempts?.lockedUntil ? 0 : attempts?.count ?? 0) + 1;
+      failedAttempts.set(userId, count >= MAX_PIN_ATTEMPTS ? { count, lockedUntil: Date.now() + LOCKOUT_MS } : { count });
+      throw new Error('Wrong PIN');
+    }
+
+    failedAttempts.delete(userId);
+    return user;
+  }
+
+  private static async hashPin(pin: string, salt?: string): Promise<{ pinHash: string; pinSalt: string }> {
+    const saltBytes = salt ? fromBase64(salt) : crypto.getRandomValues(new Uint8Array(16));
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', salt: saltBytes, iterations: PIN_ITERATIONS, hash: 'SHA-256' },
+      material,
+      256
+    );
+    return { pinHash: toBase64(new Uint8Array(bits)), pinSalt: toBase64(saltBytes) };
+  }
+}
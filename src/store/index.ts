@@ -1,10 +1,19 @@
 import { create } from 'zustand';
-import { Medicine, Batch, Sale } from '../types';
+import { Medicine, Batch, Sale, ShopSettings, User } from '../types';
+import { DEFAULT_SETTINGS } from '../services/settings';
 
 interface PharmacyStore {
   // UI state
   sidebarOpen: boolean;
   setSidebarOpen: (open: boolean) => void;
+
+  // Shop settings loaded from the settings table
+  settings: ShopSettings;
+  setSettings: (settings: ShopSettings) => void;
+
+  // Staff member signed in at this counter
+  currentUser: User | null;
+  setCurrentUser: (user: User | null) => void;
   
   // Cart state for sales
   cartItems: Array<{
@@ -32,6 +41,14 @@ export const usePharmacyStore = create<PharmacyStore>((set, get) => ({
   // UI state
   sidebarOpen: false,
   setSidebarOpen: (open) => set({ sidebarOpen: open }),
+
+  // Shop settings
+  settings: DEFAULT_SETTINGS,
+  setSettings: (settings) => set({ settings }),
+
+  // Current user
+  currentUser: null,
+  setCurrentUser: (user) => set({ currentUser: user }),
   
   // Cart state
   cartItems: [],
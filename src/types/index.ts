@@ -10,6 +10,8 @@ export interface Medicine {
   hsn: string;
   gst: number;
   description?: string;
+  minStock: number;
+  maxStock: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -23,13 +25,112 @@ export interface Batch {
   purchasePrice: number;
   sellingPrice: number;
   currentStock: number;
-  minStock: number;
-  maxStock: number;
   supplierId: string;
+  manufacturingDate?: Date;
   receivedDate: Date;
+  storageLocation?: StorageLocation;
+  grnId?: string;
   quantityToDispense?: number;
 }
 
+export interface StorageLocation {
+  area: string;
+  rack?: string;
+  shelf?: string;
+  bin?: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  gstin?: string;
+  drugLicenseNumber?: string;
+  contactPerson?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  paymentTermsDays: number;
+  leadTimeDays?: number;
+  outstandingBalance: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SupplierLedgerEntry {
+  id: string;
+  supplierId: string;
+  type: 'PURCHASE' | 'PAYMENT' | 'RETURN';
+  amount: number;
+  balanceAfter: number;
+  reference?: string;
+  batchId?: string;
+  paymentMethod?: 'CASH' | 'CHEQUE' | 'BANK_TRANSFER' | 'UPI';
+  notes?: string;
+  dueDate?: Date;
+  date: Date;
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  medicineId: string;
+  medicineName: string;
+  orderedQuantity: number;
+  receivedQuantity: number;
+  expectedPrice: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  orderNumber: string;
+  supplierId: string;
+  status: 'DRAFT' | 'SENT' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CLOSED';
+  items: PurchaseOrderItem[];
+  totalAmount: number;
+  notes?: string;
+  expectedDate?: Date;
+  sentAt?: Date;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GoodsReceivedItem {
+  id: string;
+  medicineId: string;
+  medicineName: string;
+  purchaseOrderItemId?: string;
+  batchId: string;
+  batchNumber: string;
+  expiryDate: Date;
+  quantity: number;
+  purchasePrice: number;
+  mrp: number;
+  sellingPrice: number;
+}
+
+export interface GoodsReceivedDiscrepancy {
+  type: 'SHORT' | 'EXCESS' | 'PRICE' | 'NOT_ORDERED';
+  medicineId: string;
+  medicineName: string;
+  expected: number;
+  actual: number;
+}
+
+export interface GoodsReceivedNote {
+  id: string;
+  grnNumber: string;
+  supplierId: string;
+  purchaseOrderId?: string;
+  supplierInvoiceNumber: string;
+  supplierInvoiceDate: Date;
+  items: GoodsReceivedItem[];
+  discrepancies: GoodsReceivedDiscrepancy[];
+  totalAmount: number;
+  notes?: string;
+  receivedAt: Date;
+  pharmacistId: string;
+}
+
 export interface SaleItem {
   id: string;
   medicineId: string;
@@ -40,14 +141,22 @@ export interface SaleItem {
   unitPrice: number;
   totalPrice: number;
   gstAmount: number;
+  gstRate?: number;
+  hsn?: string;
+  expiryDate?: Date;
+  scheduleType?: Medicine['scheduleType'];
 }
 
 export interface Sale {
   id: string;
   invoiceNumber: string;
+  customerId?: string;
   customerName?: string;
   customerPhone?: string;
+  /** The prescription record the sale was dispensed against */
   prescriptionId?: string;
+  prescriptionNumber?: string;
+  prescriptionDetails?: PrescriptionDetails;
   items: SaleItem[];
   totalAmount: number;
   gstAmount: number;
@@ -57,27 +166,216 @@ export interface Sale {
   pharmacistId: string;
 }
 
+/**
+ * Prescriber and patient details captured at the counter for Schedule H1 and X medicines
+ */
+export interface PrescriptionDetails {
+  doctorName?: string;
+  doctorRegistrationNumber?: string;
+  patientAddress?: string;
+  /** Where the duplicate copy of a Schedule X prescription is filed for retention */
+  duplicateCopyReference?: string;
+}
+
+export interface PrescribedItem {
+  medicineId?: string;
+  name: string;
+  directions?: string;
+}
+
+export interface Prescription {
+  id: string;
+  prescriptionNumber: string;
+  patientName: string;
+  patientAddress?: string;
+  doctorName: string;
+  doctorRegistrationNumber?: string;
+  prescribedDate: Date;
+  items: PrescribedItem[];
+  /** Further sales allowed after the first */
+  refillsAllowed: number;
+  /** Photo or scan of the prescription as handed in */
+  image?: Blob;
+  createdAt: Date;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  address?: string;
+  creditLimit?: number;
+  creditBalance: number;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CustomerLedgerEntry {
+  id: string;
+  customerId: string;
+  type: 'CREDIT_SALE' | 'PAYMENT' | 'CREDIT_NOTE';
+  amount: number;
+  balanceAfter: number;
+  reference?: string;
+  paymentMethod?: Exclude<Sale['paymentMethod'], 'CREDIT'>;
+  notes?: string;
+  date: Date;
+}
+
+export interface CreditNoteItem {
+  saleItemId: string;
+  medicineId: string;
+  medicineName: string;
+  batchId: string;
+  batchNumber: string;
+  quantity: number;
+  unitPrice: number;
+  taxableValue: number;
+  gstRate: number;
+  gstAmount: number;
+  totalAmount: number;
+}
+
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  saleId: string;
+  invoiceNumber: string;
+  customerName?: string;
+  customerPhone?: string;
+  items: CreditNoteItem[];
+  taxableAmount: number;
+  gstAmount: number;
+  totalAmount: number;
+  reason?: string;
+  createdAt: Date;
+  pharmacistId: string;
+}
+
 export interface ScheduleH1Entry {
   id: string;
   medicineId: string;
   medicineName: string;
   batchNumber: string;
   customerName: string;
+  customerAddress?: string;
   doctorName: string;
+  doctorRegistrationNumber?: string;
   prescriptionNumber: string;
+  prescriptionId?: string;
   quantityDispensed: number;
   dispensedDate: Date;
+  pharmacistId?: string;
   pharmacistSignature: string;
 }
 
 export interface AuditLog {
   id: string;
   userId: string;
-  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'SALE' | 'PURCHASE';
-  entityType: 'MEDICINE' | 'BATCH' | 'SALE' | 'CUSTOMER';
+  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'SALE' | 'PURCHASE' | 'VENDOR_RETURN' | 'WRITE_OFF' | 'RETURN' | 'LOGIN' | 'OVERRIDE' | 'RESTORE';
+  entityType: 'MEDICINE' | 'BATCH' | 'SALE' | 'CUSTOMER' | 'CREDIT_NOTE' | 'SUPPLIER' | 'PURCHASE_ORDER' | 'GRN' | 'USER' | 'PRESCRIPTION' | 'BACKUP';
   entityId: string;
   oldData?: any;
   newData?: any;
+  /** Fields that differ between oldData and newData, recorded for every row change */
+  changes?: AuditFieldChange[];
+  /** Why the change was made, when the code making it knows, e.g. "Expiry clearance at 25% off MRP" */
+  reason?: string;
   timestamp: Date;
   ipAddress?: string;
-}
\ No newline at end of file
+  /** Position in the hash chain, starting at 1 */
+  sequence: number;
+  /** Hash of the entry before this one, or the genesis hash for the first entry */
+  previousHash: string;
+  /** SHA-256 of this entry's contents, including previousHash */
+  hash: string;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * This device's key for signing audit extracts. The private key cannot be exported.
+ */
+export interface AuditSigningKey {
+  id: string;
+  privateKey: CryptoKey;
+  publicKey: JsonWebKey;
+  fingerprint: string;
+  createdAt: Date;
+}
+
+export interface ShopSettings {
+  id: string;
+  shopName: string;
+  address: string;
+  phone?: string;
+  drugLicenseNumbers: string;
+  gstin: string;
+  invoicePrefix: string;
+  defaultSupplierId: string;
+  sellingPriceRatio: number;
+  purchasePriceRatio: number;
+  defaultMinStock: number;
+  defaultMaxStock: number;
+  expiryAlertDays: number;
+  defaultLeadTimeDays: number;
+  orderCoverDays: number;
+  updatedAt: Date;
+}
+
+export interface InvoiceCounter {
+  id: string;
+  lastNumber: number;
+  updatedAt: Date;
+}
+
+export type BackupTarget = 'OPFS' | 'FOLDER';
+
+/**
+ * Automatic backup setup for this device. Holds browser objects (the derived key and
+ * folder handle), so it is never included in a backup itself.
+ */
+export interface BackupSchedule {
+  id: string;
+  enabled: boolean;
+  target: BackupTarget;
+  retention: number;
+  directoryHandle?: FileSystemDirectoryHandle;
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+  updatedAt: Date;
+}
+
+export interface BackupRun {
+  id: string;
+  trigger: 'SCHEDULED' | 'CLOSE' | 'MANUAL';
+  target: BackupTarget;
+  status: 'SUCCESS' | 'FAILED';
+  fileName?: string;
+  size?: number;
+  error?: string;
+  startedAt: Date;
+  finishedAt: Date;
+  prunedAt?: Date;
+}
+
+export type UserRole = 'OWNER' | 'PHARMACIST' | 'CASHIER';
+
+export interface User {
+  id: string;
+  name: string;
+  role: UserRole;
+  registrationNumber?: string;
+  pinHash: string;
+  pinSalt: string;
+  active: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
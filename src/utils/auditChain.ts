@@ -0,0 +1,59 @@
+import { AuditLog } from '../types';
+import { toHex } from './encoding';
+
+export type UnsealedAuditLog = Omit<AuditLog, 'sequence' | 'previousHash' | 'hash'>;
+
+// previousHash of the first entry in the chain
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * JSON with object keys sorted and dates as ISO strings, so the same record
+ * always produces the same text however it was stored or read back
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => item === undefined ? 'null' : canonicalJson(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+export const sha256Hex = async (text: string): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))));
+
+/**
+ * Hash of everything in an entry except the hash itself
+ */
+export const hashAuditEntry = async (entry: UnsealedAuditLog & Partial<AuditLog>): Promise<string> => {
+  const content: Partial<AuditLog> = { ...entry };
+  delete content.hash;
+  return await sha256Hex(canonicalJson(content));
+};
+
+/**
+ * Number and hash entries, in order, so they continue the chain after `last`
+ */
+export const sealAuditEntries = async (
+  entries: UnsealedAuditLog[],
+  last?: Pick<AuditLog, 'sequence' | 'hash'>
+): Promise<AuditLog[]> => {
+  const sealed: AuditLog[] = [];
+  let sequence = last?.sequence ?? 0;
+  let previousHash = last?.hash ?? AUDIT_GENESIS_HASH;
+
+  for (const entry of entries) {
+    const unsealed = { ...entry, sequence: ++sequence, previousHash };
+    const hash = await hashAuditEntry(unsealed);
+    sealed.push({ ...unsealed, hash });
+    previousHash = hash;
+  }
+  return sealed;
+};
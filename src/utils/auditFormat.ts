@@ -0,0 +1,48 @@
+import { AuditLog, StorageLocation } from '../types';
+import { formatStorageLocation } from './location';
+import { format } from 'date-fns';
+
+export const AUDIT_ACTION_STYLES: Record<AuditLog['action'], string> = {
+  CREATE: 'bg-green-100 text-green-700',
+  UPDATE: 'bg-blue-100 text-blue-700',
+  DELETE: 'bg-red-100 text-red-700',
+  SALE: 'bg-purple-100 text-purple-700',
+  PURCHASE: 'bg-purple-100 text-purple-700',
+  VENDOR_RETURN: 'bg-orange-100 text-orange-700',
+  WRITE_OFF: 'bg-orange-100 text-orange-700',
+  RETURN: 'bg-orange-100 text-orange-700',
+  LOGIN: 'bg-gray-100 text-gray-700',
+  OVERRIDE: 'bg-yellow-100 text-yellow-800',
+  RESTORE: 'bg-red-100 text-red-700'
+};
+
+/**
+ * What an entry is about, e.g. "Crocin" or "Batch PCM001", falling back to its id
+ */
+export const describeAuditEntity = (entry: AuditLog): string => {
+  const data = entry.newData ?? entry.oldData ?? {};
+  if (entry.entityType === 'BATCH' && data.batchNumber) return `Batch ${data.batchNumber}`;
+  if (entry.entityType === 'BACKUP' && data.exportedAt) return `Backup of ${format(new Date(data.exportedAt), 'dd MMM yyyy, HH:mm')}`;
+  return data.brandName || data.name || data.invoiceNumber || data.creditNoteNumber || data.orderNumber || data.grnNumber || data.prescriptionNumber || entry.entityId;
+};
+
+/**
+ * Readable name for a record field, e.g. "minStock" as "Min stock"
+ */
+export const fieldLabel = (field: string) => {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * A recorded field value as shown in the audit log
+ */
+export const formatValue = (field: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (field === 'storageLocation') return formatStorageLocation(value as StorageLocation);
+  if (value instanceof Date) return isNaN(value.getTime()) ? '—' : format(value, 'dd MMM yyyy');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
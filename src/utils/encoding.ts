@@ -0,0 +1,19 @@
+/**
+ * Base64 text for binary data such as salts, IVs and ciphertext
+ */
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Spread in chunks; one call per byte is slow and one call for everything overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+/**
+ * Lowercase hex text for digests such as SHA-256 hashes
+ */
+export const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
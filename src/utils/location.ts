@@ -0,0 +1,25 @@
+import { StorageLocation } from '../types';
+
+export const STORAGE_AREAS: Record<string, string> = {
+  'MAIN-WAREHOUSE': 'Main Warehouse',
+  'COLD-STORAGE': 'Cold Storage',
+  'PHARMACY-FLOOR': 'Pharmacy Floor',
+  'SECURE-STORAGE': 'Secure Storage',
+  'QUARANTINE': 'Quarantine Area'
+};
+
+/**
+ * Short label for where a batch sits, e.g. "Pharmacy Floor · Rack 2, Shelf 3, Bin 14"
+ */
+export const formatStorageLocation = (location?: StorageLocation): string => {
+  if (!location) return 'Not recorded';
+
+  const area = STORAGE_AREAS[location.area] ?? location.area;
+  const position = [
+    location.rack && `Rack ${location.rack}`,
+    location.shelf && `Shelf ${location.shelf}`,
+    location.bin && `Bin ${location.bin}`
+  ].filter(Boolean).join(', ');
+
+  return position ? `${area} · ${position}` : area;
+};